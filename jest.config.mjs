@@ -9,7 +9,8 @@ export default {
     rootDir: 'tests',
     testEnvironment: 'node',
     testMatch: ['**/__tests__/**/*.[jt]s?(x)', '**/?(*.)+(spec|test).[tj]s?(x)'],
-    testPathIgnorePatterns: ['/node_modules/', '/dist/'],
+    // specs against a local Aptos node only run with `test:local`
+    testPathIgnorePatterns: ['/node_modules/', '/dist/', '\\.local\\.spec\\.ts$'],
     transform: {
         '^.+\\.(t|j)s$': ['@swc/jest']
     },
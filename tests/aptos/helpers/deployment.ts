@@ -1,5 +1,5 @@
 import { Aptos } from '@aptos-labs/ts-sdk'
-import { ACCOUNTS, createAptosClient } from '../setup'
+import { PACKAGES, getAptosClient } from '../setup'
 import { execSync } from 'child_process'
 import { join, dirname } from 'path'
 import { fileURLToPath } from 'url'
@@ -8,8 +8,8 @@ export class DeploymentHelper {
     private client: Aptos
     private __dirname: string
 
-    constructor() {
-        this.client = createAptosClient()
+    constructor(client: Aptos = getAptosClient()) {
+        this.client = client
         this.__dirname = dirname(fileURLToPath(import.meta.url))
     }
 
@@ -19,7 +19,7 @@ export class DeploymentHelper {
             // Try to call a view function from the fusion package
             const response = await this.client.view({
                 payload: {
-                    function: `${ACCOUNTS.FUSION.address}::escrow::safety_deposit_metadata`,
+                    function: `${PACKAGES.fusion}::escrow::safety_deposit_metadata`,
                     typeArguments: [],
                     functionArguments: []
                 }
@@ -38,7 +38,7 @@ export class DeploymentHelper {
             // Try to call a view function from the USDT contract
             const response = await this.client.view({
                 payload: {
-                    function: `${ACCOUNTS.USDT.address}::usdt::metadata`,
+                    function: `${PACKAGES.usdt}::usdt::metadata`,
                     typeArguments: [],
                     functionArguments: []
                 }
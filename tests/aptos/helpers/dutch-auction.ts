@@ -1,19 +1,22 @@
 import { Aptos, Account } from '@aptos-labs/ts-sdk'
-import { ACCOUNTS, createAptosClient } from '../setup'
+import { PACKAGES, getAptosClient } from '../setup'
+import { orderHashBytes } from '../../orders/order-hash'
+import { decodeAddress, decodeBytes, decodeU64, decodeVector, DutchAuction } from '../models'
 
 export class DutchAuctionHelper {
     private client: Aptos
     private fusionAddress: string
 
-    constructor() {
-        this.client = createAptosClient()
-        this.fusionAddress = ACCOUNTS.FUSION.address
+    constructor(client: Aptos = getAptosClient()) {
+        this.client = client
+        this.fusionAddress = PACKAGES.fusion
     }
 
     // Create a Dutch auction and return both tx hash and auction address
+    // order_hash is the 32 bytes hash of the EVM order the auction belongs to
     async createAuction(
         user: Account,
-        order_hash: Uint8Array,
+        order_hash: string,
         hashes: Uint8Array[],
         metadata: string,
         starting_amount: bigint,
@@ -27,7 +30,7 @@ export class DutchAuctionHelper {
         try {
 
             const functionArguments = [
-                Array.from(order_hash),
+                Array.from(orderHashBytes(order_hash)),
                 hashes.map(hash => Array.from(hash)),
                 metadata,
                 starting_amount,
@@ -106,15 +109,16 @@ export class DutchAuctionHelper {
         }
     }
 
-    // Get current auction amount
-    async getCurrentAmount(auctionId: string): Promise<bigint> {
+    // Get current auction amount, at the given ledger version when set
+    async getCurrentAmount(auctionId: string, ledgerVersion?: bigint): Promise<bigint> {
         try {
             const response = await this.client.view({
                 payload: {
                     function: `${this.fusionAddress}::dutch_auction::get_current_amount`,
                     typeArguments: [],
                     functionArguments: [auctionId]
-                }
+                },
+                options: ledgerVersion === undefined ? undefined : { ledgerVersion }
             });
             return BigInt(response[0] as string);
         } catch (error) {
@@ -157,17 +161,68 @@ export class DutchAuctionHelper {
         }
     }
 
-    // Get auction details
-    async getAuctionDetails(auctionId: string): Promise<any> {
+    // Get the order hash the auction was created for
+    async getOrderHash(auctionId: string): Promise<string> {
+        const response = await this.client.view({
+            payload: {
+                function: `${this.fusionAddress}::dutch_auction::get_order_hash`,
+                typeArguments: [],
+                functionArguments: [auctionId]
+            }
+        });
+        return decodeBytes(response[0]);
+    }
+
+    // Get auction details from the auction view functions, null when the auction does not exist
+    async getAuctionDetails(auctionId: string): Promise<DutchAuction | null> {
         try {
-            const response = await this.client.view({
-                payload: {
-                    function: `${this.fusionAddress}::dutch_auction::get_order_hash`,
-                    typeArguments: [],
-                    functionArguments: [auctionId]
-                }
-            });
-            return response[0];
+            const view = async (name: string) => {
+                const response = await this.client.view({
+                    payload: {
+                        function: `${this.fusionAddress}::dutch_auction::${name}`,
+                        typeArguments: [],
+                        functionArguments: [auctionId]
+                    }
+                });
+                return response[0];
+            };
+
+            const [
+                orderHash,
+                hashes,
+                maker,
+                metadata,
+                startingAmount,
+                endingAmount,
+                auctionStartTime,
+                auctionEndTime,
+                decayDuration,
+                safetyDepositAmount
+            ] = await Promise.all([
+                view('get_order_hash'),
+                view('get_hashes'),
+                view('get_maker'),
+                view('get_metadata'),
+                view('get_starting_amount'),
+                view('get_ending_amount'),
+                view('get_auction_start_time'),
+                view('get_auction_end_time'),
+                view('get_decay_duration'),
+                view('get_safety_deposit_amount')
+            ]);
+
+            return {
+                orderHash: decodeBytes(orderHash),
+                hashes: decodeVector(hashes, decodeBytes),
+                maker: decodeAddress(maker),
+                metadata: decodeAddress(metadata),
+                startingAmount: decodeU64(startingAmount),
+                endingAmount: decodeU64(endingAmount),
+                auctionStartTime: decodeU64(auctionStartTime),
+                auctionEndTime: decodeU64(auctionEndTime),
+                decayDuration: decodeU64(decayDuration),
+                safetyDepositAmount: decodeU64(safetyDepositAmount)
+            };
         } catch (error) {
             console.log(`Error getting auction details: ${error}`);
             return null;
@@ -1,13 +1,16 @@
 import { Aptos, Account } from '@aptos-labs/ts-sdk'
-import { ACCOUNTS, createAptosClient } from '../setup'
+import { PACKAGES, getAptosClient } from '../setup'
+import { decodeAddress, decodeBytes, decodeU64, Escrow, MoveTimelock } from '../models'
+
+const EVENTS_PAGE_SIZE = 100
 
 export class EscrowHelper {
     private client: Aptos
     private fusionAddress: string
 
-    constructor() {
-        this.client = createAptosClient()
-        this.fusionAddress = ACCOUNTS.FUSION.address
+    constructor(client: Aptos = getAptosClient()) {
+        this.client = client
+        this.fusionAddress = PACKAGES.fusion
     }
 
     // Create escrow from fusion order (single fill)
@@ -222,7 +225,7 @@ export class EscrowHelper {
     async verifySecret(
         escrowAddress: string,
         secret: string | Uint8Array
-    ): Promise<any> {
+    ): Promise<boolean> {
         try {
             // Convert to bytes if it's a string
             const secretBytes = typeof secret === 'string'
@@ -236,10 +239,10 @@ export class EscrowHelper {
                     functionArguments: [escrowAddress, Array.from(secretBytes)]
                 }
             });
-            return response[0];
+            return response[0] as boolean;
         } catch (error) {
             console.log(`Error verifying secret: ${error}`);
-            return null;
+            return false;
         }
     }
 
@@ -322,6 +325,68 @@ export class EscrowHelper {
         }
     }
 
+    // Get escrow details from the escrow view functions
+    async getEscrow(escrowAddress: string): Promise<Escrow> {
+        const view = async (name: string) => {
+            const response = await this.client.view({
+                payload: {
+                    function: `${this.fusionAddress}::escrow::${name}`,
+                    typeArguments: [],
+                    functionArguments: [escrowAddress]
+                }
+            });
+            return response[0];
+        };
+
+        const [orderHash, hash, maker, taker, metadata, amount, safetyDepositAmount, timelock] = await Promise.all([
+            view('get_order_hash'),
+            view('get_hash'),
+            view('get_maker'),
+            view('get_taker'),
+            view('get_metadata'),
+            view('get_amount'),
+            view('get_safety_deposit_amount'),
+            view('get_timelock')
+        ]);
+
+        return {
+            orderHash: decodeBytes(orderHash),
+            hash: decodeBytes(hash),
+            maker: decodeAddress(maker),
+            taker: decodeAddress(taker),
+            metadata: decodeAddress(metadata),
+            amount: decodeU64(amount),
+            safetyDepositAmount: decodeU64(safetyDepositAmount),
+            timelock: timelock as MoveTimelock
+        };
+    }
+
+    // Get addresses of all escrows created so far, the node returns events page by page
+    async getCreatedEscrows(): Promise<string[]> {
+        const escrows: string[] = [];
+
+        for (let offset = 0; ; offset += EVENTS_PAGE_SIZE) {
+            const events = await this.client.getModuleEventsByEventType({
+                eventType: `${this.fusionAddress}::escrow::EscrowCreatedEvent`,
+                options: {
+                    offset,
+                    limit: EVENTS_PAGE_SIZE,
+                    orderBy: [{ transaction_version: 'asc' }, { event_index: 'asc' }]
+                }
+            });
+
+            escrows.push(
+                ...events
+                    .map(event => event.data.escrow)
+                    .map(escrow => (typeof escrow === 'object' && escrow.inner) ? escrow.inner : escrow)
+            );
+
+            if (events.length < EVENTS_PAGE_SIZE) {
+                return escrows;
+            }
+        }
+    }
+
     // Extract escrow address from transaction events
     private extractEscrowAddressFromEvents(txResult: any): string {
         try {
@@ -1,15 +1,14 @@
 import { Aptos, Account } from '@aptos-labs/ts-sdk'
-import { createAptosClient } from '../setup'
-import { ACCOUNTS } from '../setup'
+import { PACKAGES, getAptosClient } from '../setup'
 
 
 export class FungibleAssetsHelper {
     private client: Aptos
     private usdtAddress: string
 
-    constructor() {
-        this.client = createAptosClient()
-        this.usdtAddress = ACCOUNTS.USDT.address
+    constructor(client: Aptos = getAptosClient()) {
+        this.client = client
+        this.usdtAddress = PACKAGES.usdt
     }
 
     // Get balance using primary_fungible_store view function
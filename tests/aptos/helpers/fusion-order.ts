@@ -1,19 +1,22 @@
 import { Aptos, Account } from '@aptos-labs/ts-sdk'
-import { ACCOUNTS, createAptosClient } from '../setup'
+import { PACKAGES, getAptosClient } from '../setup'
+import { orderHashBytes } from '../../orders/order-hash'
+import { decodeBytes, decodeFusionOrder, FusionOrder } from '../models'
 
 export class FusionOrderHelper {
     private client: Aptos
     private fusionAddress: string
 
-    constructor() {
-        this.client = createAptosClient()
-        this.fusionAddress = ACCOUNTS.FUSION.address
+    constructor(client: Aptos = getAptosClient()) {
+        this.client = client
+        this.fusionAddress = PACKAGES.fusion
     }
 
     // Create a fusion order and return both tx hash and order address
+    // order_hash is the 32 bytes hash of the EVM order the fusion order belongs to
     async createOrder(
         user: Account,
-        order_hash: Uint8Array,
+        order_hash: string,
         hashes: Uint8Array[],
         metadata: string,
         amount: bigint,
@@ -28,7 +31,7 @@ export class FusionOrderHelper {
         try {
 
             const functionArguments = [
-                order_hash,
+                orderHashBytes(order_hash),
                 hashes.map(hash => Array.from(hash)),
                 metadata,
                 amount,
@@ -108,8 +111,8 @@ export class FusionOrderHelper {
         }
     }
 
-    // Get order details
-    async getOrder(orderId: string): Promise<any> {
+    // Get order details, null when the order does not exist
+    async getOrder(orderId: string): Promise<FusionOrder | null> {
         try {
             const response = await this.client.view({
                 payload: {
@@ -118,13 +121,25 @@ export class FusionOrderHelper {
                     functionArguments: [orderId]
                 }
             });
-            return response[0];
+            return decodeFusionOrder(response[0]);
         } catch (error) {
             console.log(`Error getting order: ${error}`);
             return null;
         }
     }
 
+    // Get the order hash the fusion order was created for
+    async getOrderHash(orderId: string): Promise<string> {
+        const response = await this.client.view({
+            payload: {
+                function: `${this.fusionAddress}::fusion_order::get_order_hash`,
+                typeArguments: [],
+                functionArguments: [orderId]
+            }
+        });
+        return decodeBytes(response[0]);
+    }
+
     // Extract order address from transaction events
     private extractOrderAddressFromEvents(txResult: any): string {
         try {
@@ -1,19 +1,19 @@
 import { Aptos } from '@aptos-labs/ts-sdk'
-import { ACCOUNTS, createAptosClient } from '../setup'
+import { PACKAGES, getAptosClient } from '../setup'
 
 export class HashlockHelper {
     private client: Aptos
     private fusionAddress: string
 
-    constructor() {
-        this.client = createAptosClient()
-        this.fusionAddress = ACCOUNTS.FUSION.address
+    constructor(client: Aptos = getAptosClient()) {
+        this.client = client
+        this.fusionAddress = PACKAGES.fusion
     }
 
-    // Create hash from secret for testing
+    // Create hash from secret on chain, `hashSecret` in tests/secrets/hashlock computes the same hash locally
     async createHashFromSecret(
         secret: Uint8Array
-    ): Promise<any> {
+    ): Promise<string | null> {
         try {
             // Convert to bytes if it's a string
             const secretBytes = typeof secret === 'string'
@@ -27,7 +27,7 @@ export class HashlockHelper {
                     functionArguments: [Array.from(secretBytes)]
                 }
             });
-            return response[0];
+            return response[0] as string;
         } catch (error) {
             console.log(`Error creating hash from secret: ${error}`);
             return null;
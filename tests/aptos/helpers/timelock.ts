@@ -1,23 +1,25 @@
 import { Aptos } from '@aptos-labs/ts-sdk'
-import { ACCOUNTS, createAptosClient } from '../setup'
+import { PACKAGES, getAptosClient } from '../setup'
+import { AptosDurations } from '../../timelocks/translator'
+import { decodeDurations, decodeU64, MoveTimelock, Timelock, timelockArg } from '../models'
 
 export class TimelockHelper {
     private client: Aptos
     private fusionAddress: string
 
-    constructor() {
-        this.client = createAptosClient()
-        this.fusionAddress = ACCOUNTS.FUSION.address
+    constructor(client: Aptos = getAptosClient()) {
+        this.client = client
+        this.fusionAddress = PACKAGES.fusion
     }
 
     // Get current phase of a timelock
-    async getPhase(timelock: any): Promise<number> {
+    async getPhase(timelock: MoveTimelock): Promise<number> {
         try {
             const response = await this.client.view({
                 payload: {
                     function: `${this.fusionAddress}::timelock::get_phase`,
                     typeArguments: [],
-                    functionArguments: [timelock]
+                    functionArguments: [timelockArg(timelock)]
                 }
             });
             return response[0] as number;
@@ -28,13 +30,13 @@ export class TimelockHelper {
     }
 
     // Check if timelock is in finality phase
-    async isInFinalityPhase(timelock: any): Promise<boolean> {
+    async isInFinalityPhase(timelock: MoveTimelock): Promise<boolean> {
         try {
             const response = await this.client.view({
                 payload: {
                     function: `${this.fusionAddress}::timelock::is_in_finality_phase`,
                     typeArguments: [],
-                    functionArguments: [timelock]
+                    functionArguments: [timelockArg(timelock)]
                 }
             });
             return response[0] as boolean;
@@ -45,13 +47,13 @@ export class TimelockHelper {
     }
 
     // Check if timelock is in exclusive withdrawal phase
-    async isInExclusiveWithdrawalPhase(timelock: any): Promise<boolean> {
+    async isInExclusiveWithdrawalPhase(timelock: MoveTimelock): Promise<boolean> {
         try {
             const response = await this.client.view({
                 payload: {
                     function: `${this.fusionAddress}::timelock::is_in_exclusive_withdrawal_phase`,
                     typeArguments: [],
-                    functionArguments: [timelock]
+                    functionArguments: [timelockArg(timelock)]
                 }
             });
             return response[0] as boolean;
@@ -62,13 +64,13 @@ export class TimelockHelper {
     }
 
     // Check if timelock is in public withdrawal phase
-    async isInPublicWithdrawalPhase(timelock: any): Promise<boolean> {
+    async isInPublicWithdrawalPhase(timelock: MoveTimelock): Promise<boolean> {
         try {
             const response = await this.client.view({
                 payload: {
                     function: `${this.fusionAddress}::timelock::is_in_public_withdrawal_phase`,
                     typeArguments: [],
-                    functionArguments: [timelock]
+                    functionArguments: [timelockArg(timelock)]
                 }
             });
             return response[0] as boolean;
@@ -79,13 +81,13 @@ export class TimelockHelper {
     }
 
     // Check if timelock is in any withdrawal phase
-    async isInWithdrawalPhase(timelock: any): Promise<boolean> {
+    async isInWithdrawalPhase(timelock: MoveTimelock): Promise<boolean> {
         try {
             const response = await this.client.view({
                 payload: {
                     function: `${this.fusionAddress}::timelock::is_in_withdrawal_phase`,
                     typeArguments: [],
-                    functionArguments: [timelock]
+                    functionArguments: [timelockArg(timelock)]
                 }
             });
             return response[0] as boolean;
@@ -96,13 +98,13 @@ export class TimelockHelper {
     }
 
     // Check if timelock is in private cancellation phase
-    async isInPrivateCancellationPhase(timelock: any): Promise<boolean> {
+    async isInPrivateCancellationPhase(timelock: MoveTimelock): Promise<boolean> {
         try {
             const response = await this.client.view({
                 payload: {
                     function: `${this.fusionAddress}::timelock::is_in_private_cancellation_phase`,
                     typeArguments: [],
-                    functionArguments: [timelock]
+                    functionArguments: [timelockArg(timelock)]
                 }
             });
             return response[0] as boolean;
@@ -113,13 +115,13 @@ export class TimelockHelper {
     }
 
     // Check if timelock is in public cancellation phase
-    async isInPublicCancellationPhase(timelock: any): Promise<boolean> {
+    async isInPublicCancellationPhase(timelock: MoveTimelock): Promise<boolean> {
         try {
             const response = await this.client.view({
                 payload: {
                     function: `${this.fusionAddress}::timelock::is_in_public_cancellation_phase`,
                     typeArguments: [],
-                    functionArguments: [timelock]
+                    functionArguments: [timelockArg(timelock)]
                 }
             });
             return response[0] as boolean;
@@ -130,13 +132,13 @@ export class TimelockHelper {
     }
 
     // Check if timelock is in any cancellation phase
-    async isInCancellationPhase(timelock: any): Promise<boolean> {
+    async isInCancellationPhase(timelock: MoveTimelock): Promise<boolean> {
         try {
             const response = await this.client.view({
                 payload: {
                     function: `${this.fusionAddress}::timelock::is_in_cancellation_phase`,
                     typeArguments: [],
-                    functionArguments: [timelock]
+                    functionArguments: [timelockArg(timelock)]
                 }
             });
             return response[0] as boolean;
@@ -147,13 +149,13 @@ export class TimelockHelper {
     }
 
     // Get remaining time in current phase
-    async getRemainingTime(timelock: any): Promise<bigint> {
+    async getRemainingTime(timelock: MoveTimelock): Promise<bigint> {
         try {
             const response = await this.client.view({
                 payload: {
                     function: `${this.fusionAddress}::timelock::get_remaining_time`,
                     typeArguments: [],
-                    functionArguments: [timelock]
+                    functionArguments: [timelockArg(timelock)]
                 }
             });
             return BigInt(response[0] as string);
@@ -163,41 +165,36 @@ export class TimelockHelper {
         }
     }
 
-    // Get timelock durations (now returns 4 values)
-    async getDurations(timelock: any): Promise<{finality: bigint, exclusive: bigint, public_withdrawal: bigint, private_cancellation: bigint}> {
+    // Get timelock durations, zero when the view fails
+    async getDurations(timelock: MoveTimelock): Promise<AptosDurations> {
         try {
             const response = await this.client.view({
                 payload: {
                     function: `${this.fusionAddress}::timelock::get_durations`,
                     typeArguments: [],
-                    functionArguments: [timelock]
+                    functionArguments: [timelockArg(timelock)]
                 }
             });
-            return {
-                finality: BigInt(response[0] as string),
-                exclusive: BigInt(response[1] as string),
-                public_withdrawal: BigInt(response[2] as string),
-                private_cancellation: BigInt(response[3] as string)
-            };
+            return decodeDurations(response);
         } catch (error) {
             console.log(`Error getting timelock durations: ${error}`);
             return {
                 finality: BigInt(0),
                 exclusive: BigInt(0),
-                public_withdrawal: BigInt(0),
-                private_cancellation: BigInt(0)
+                publicWithdrawal: BigInt(0),
+                privateCancellation: BigInt(0)
             };
         }
     }
 
     // Get total duration
-    async getTotalDuration(timelock: any): Promise<bigint> {
+    async getTotalDuration(timelock: MoveTimelock): Promise<bigint> {
         try {
             const response = await this.client.view({
                 payload: {
                     function: `${this.fusionAddress}::timelock::get_total_duration`,
                     typeArguments: [],
-                    functionArguments: [timelock]
+                    functionArguments: [timelockArg(timelock)]
                 }
             });
             return BigInt(response[0] as string);
@@ -208,13 +205,13 @@ export class TimelockHelper {
     }
 
     // Get expiration time
-    async getExpirationTime(timelock: any): Promise<bigint> {
+    async getExpirationTime(timelock: MoveTimelock): Promise<bigint> {
         try {
             const response = await this.client.view({
                 payload: {
                     function: `${this.fusionAddress}::timelock::get_expiration_time`,
                     typeArguments: [],
-                    functionArguments: [timelock]
+                    functionArguments: [timelockArg(timelock)]
                 }
             });
             return BigInt(response[0] as string);
@@ -225,13 +222,13 @@ export class TimelockHelper {
     }
 
     // Get created at timestamp
-    async getCreatedAt(timelock: any): Promise<bigint> {
+    async getCreatedAt(timelock: MoveTimelock): Promise<bigint> {
         try {
             const response = await this.client.view({
                 payload: {
                     function: `${this.fusionAddress}::timelock::get_created_at`,
                     typeArguments: [],
-                    functionArguments: [timelock]
+                    functionArguments: [timelockArg(timelock)]
                 }
             });
             return BigInt(response[0] as string);
@@ -240,4 +237,25 @@ export class TimelockHelper {
             return BigInt(0);
         }
     }
-}
\ No newline at end of file
+
+    // Get creation time and durations of a timelock, throws when a view fails
+    async getTimelock(timelock: MoveTimelock): Promise<Timelock> {
+        const view = async (name: string) => {
+            const response = await this.client.view({
+                payload: {
+                    function: `${this.fusionAddress}::timelock::${name}`,
+                    typeArguments: [],
+                    functionArguments: [timelockArg(timelock)]
+                }
+            });
+            return response;
+        };
+
+        const [createdAt, durations] = await Promise.all([view('get_created_at'), view('get_durations')]);
+
+        return {
+            createdAt: decodeU64(createdAt[0]),
+            durations: decodeDurations(durations)
+        };
+    }
+}
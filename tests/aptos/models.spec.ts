@@ -0,0 +1,109 @@
+import {expect} from '@jest/globals'
+
+import {decodeAddress, decodeBytes, decodeDurations, decodeFusionOrder, decodeOption, decodeU64} from './models'
+
+// special addresses are the only ones the SDK accepts in the short form
+const LONG_ADDRESS = '0x' + '0'.repeat(63) + 'a'
+
+const ORDER = {
+    hashes: ['0xAA', [1, 2]],
+    metadata: {inner: '0xa'},
+    amount: '100',
+    safety_deposit_amount: 10,
+    finality_duration: '1',
+    exclusive_duration: '2',
+    public_withdrawal_duration: '3',
+    private_cancellation_duration: '4'
+}
+
+describe('Move view decoding', () => {
+    it('should decode integers returned as strings or numbers', () => {
+        expect(decodeU64('18446744073709551615')).toBe(18446744073709551615n)
+        expect(decodeU64(42)).toBe(42n)
+        expect(decodeU64(42n)).toBe(42n)
+        expect(() => decodeU64(undefined)).toThrow('expected an integer, got undefined')
+        expect(() => decodeU64({value: '1'})).toThrow('expected an integer, got {"value":"1"}')
+        expect(() => decodeU64('0xzz')).toThrow()
+    })
+
+    it('should decode addresses and objects to the long form', () => {
+        expect(decodeAddress('0xa')).toBe(LONG_ADDRESS)
+        expect(decodeAddress({inner: '0xA'})).toBe(LONG_ADDRESS)
+        expect(decodeAddress({inner: {inner: '0xa'}})).toBe(LONG_ADDRESS)
+        expect(() => decodeAddress(1)).toThrow('expected an address, got 1')
+        expect(() => decodeAddress({inner: null})).toThrow('expected an address, got null')
+    })
+
+    it('should decode bytes returned as hex or as an array to lower case hex', () => {
+        expect(decodeBytes('0xABCD')).toBe('0xabcd')
+        expect(decodeBytes([0xab, 0xcd])).toBe('0xabcd')
+        expect(decodeBytes(Uint8Array.from([1]))).toBe('0x01')
+        expect(decodeBytes([])).toBe('0x')
+        expect(() => decodeBytes(12)).toThrow('expected bytes, got 12')
+    })
+
+    it('should decode options from their vector', () => {
+        expect(decodeOption({vec: []}, decodeU64)).toBeUndefined()
+        expect(decodeOption({vec: ['7']}, decodeU64)).toBe(7n)
+        expect(() => decodeOption('7', decodeU64)).toThrow('expected an option, got "7"')
+        expect(() => decodeOption({vec: '7'}, decodeU64)).toThrow('expected an option')
+        expect(() => decodeOption(null, decodeU64)).toThrow('expected an option, got null')
+    })
+
+    it('should decode the four durations of a timelock', () => {
+        expect(decodeDurations(['1', 2, '3', '4'])).toEqual({
+            finality: 1n,
+            exclusive: 2n,
+            publicWithdrawal: 3n,
+            privateCancellation: 4n
+        })
+        expect(() => decodeDurations(['1', '2', '3'])).toThrow('expected 4 durations, got 3')
+        expect(() => decodeDurations(['1', '2', '3', '4', '5'])).toThrow('expected 4 durations, got 5')
+        expect(() => decodeDurations(['1', '2', '3', null])).toThrow('expected an integer, got null')
+    })
+
+    describe('decodeFusionOrder', () => {
+        it('should decode the fields every version of the view returns', () => {
+            expect(decodeFusionOrder(ORDER)).toEqual({
+                hashes: ['0xaa', '0x0102'],
+                metadata: LONG_ADDRESS,
+                amount: 100n,
+                safetyDepositAmount: 10n,
+                finalityDuration: 1n,
+                exclusiveDuration: 2n,
+                publicWithdrawalDuration: 3n,
+                privateCancellationDuration: 4n,
+                maker: undefined,
+                orderHash: undefined,
+                resolverWhitelist: undefined,
+                autoCancelAfter: undefined
+            })
+        })
+
+        it('should decode the optional fields when they are returned', () => {
+            expect(
+                decodeFusionOrder({
+                    ...ORDER,
+                    maker: '0xa',
+                    order_hash: '0xABCD',
+                    resolver_whitelist: ['0xa', {inner: '0xa'}],
+                    auto_cancel_after: {vec: ['60']}
+                })
+            ).toMatchObject({
+                maker: LONG_ADDRESS,
+                orderHash: '0xabcd',
+                resolverWhitelist: [LONG_ADDRESS, LONG_ADDRESS],
+                autoCancelAfter: 60n
+            })
+            expect(decodeFusionOrder({...ORDER, auto_cancel_after: {vec: []}}).autoCancelAfter).toBeUndefined()
+        })
+
+        it('should refuse an order which is not a struct or misses a field', () => {
+            expect(() => decodeFusionOrder(null)).toThrow('expected a fusion order, got null')
+            expect(() => decodeFusionOrder('0x1')).toThrow('expected a fusion order, got "0x1"')
+            expect(() => decodeFusionOrder({...ORDER, amount: undefined})).toThrow('expected an integer')
+            expect(() => decodeFusionOrder({...ORDER, hashes: '0xaa'})).toThrow('expected a vector, got "0xaa"')
+            expect(() => decodeFusionOrder({...ORDER, auto_cancel_after: '60'})).toThrow('expected an option')
+        })
+    })
+})
@@ -0,0 +1,180 @@
+import {AccountAddress, SimpleEntryFunctionArgumentTypes} from '@aptos-labs/ts-sdk'
+import {hexlify} from 'ethers'
+import {AptosDurations} from '../timelocks/translator'
+
+/**
+ * `timelock::Timelock` as the views return it, u64 fields as strings. The `timelock` views take it back unchanged,
+ * so it is not decoded.
+ */
+export type MoveTimelock = {
+    created_at: string
+    finality_duration: string
+    exclusive_duration: string
+    public_withdrawal_duration: string
+    private_cancellation_duration: string
+}
+
+export type Timelock = {
+    /**
+     * Creation time of the timelock in seconds
+     */
+    createdAt: bigint
+    durations: AptosDurations
+}
+
+export type FusionOrder = {
+    /**
+     * One hash for a single fill, parts + 1 for a partial fill
+     */
+    hashes: string[]
+    metadata: string
+    amount: bigint
+    safetyDepositAmount: bigint
+    finalityDuration: bigint
+    exclusiveDuration: bigint
+    publicWithdrawalDuration: bigint
+    privateCancellationDuration: bigint
+    /**
+     * Decoded when `get_order` returns them
+     */
+    maker?: string
+    orderHash?: string
+    resolverWhitelist?: string[]
+    autoCancelAfter?: bigint
+}
+
+export type DutchAuction = {
+    orderHash: string
+    hashes: string[]
+    maker: string
+    metadata: string
+    startingAmount: bigint
+    endingAmount: bigint
+    auctionStartTime: bigint
+    auctionEndTime: bigint
+    decayDuration: bigint
+    safetyDepositAmount: bigint
+}
+
+export type Escrow = {
+    orderHash: string
+    /**
+     * Hashlock of the escrow
+     */
+    hash: string
+    maker: string
+    taker: string
+    metadata: string
+    amount: bigint
+    safetyDepositAmount: bigint
+    timelock: MoveTimelock
+}
+
+/**
+ * u64 or u128, returned as a string or a number
+ */
+export function decodeU64(value: unknown): bigint {
+    if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'bigint') {
+        throw new Error(`expected an integer, got ${JSON.stringify(value)}`)
+    }
+
+    return BigInt(value)
+}
+
+/**
+ * `address` or `Object<T>`, the latter is returned as `{inner}`. Addresses are returned in their long form.
+ */
+export function decodeAddress(value: unknown): string {
+    if (typeof value === 'object' && value !== null && 'inner' in value) {
+        return decodeAddress(value.inner)
+    }
+
+    if (typeof value !== 'string') {
+        throw new Error(`expected an address, got ${JSON.stringify(value)}`)
+    }
+
+    return AccountAddress.from(value).toStringLong()
+}
+
+/**
+ * `vector<u8>`, returned as hex or as an array of bytes, to lower case hex
+ */
+export function decodeBytes(value: unknown): string {
+    if (typeof value === 'string') {
+        return value.toLowerCase()
+    }
+
+    if (Array.isArray(value) || value instanceof Uint8Array) {
+        return hexlify(Uint8Array.from(value))
+    }
+
+    throw new Error(`expected bytes, got ${JSON.stringify(value)}`)
+}
+
+export function decodeVector<T>(value: unknown, decode: (item: unknown) => T): T[] {
+    if (!Array.isArray(value)) {
+        throw new Error(`expected a vector, got ${JSON.stringify(value)}`)
+    }
+
+    return value.map(decode)
+}
+
+/**
+ * `Option<T>`, returned as `{vec: []}` or `{vec: [value]}`
+ */
+export function decodeOption<T>(value: unknown, decode: (item: unknown) => T): T | undefined {
+    if (typeof value !== 'object' || value === null || !('vec' in value) || !Array.isArray(value.vec)) {
+        throw new Error(`expected an option, got ${JSON.stringify(value)}`)
+    }
+
+    return value.vec.length === 0 ? undefined : decode(value.vec[0])
+}
+
+/**
+ * Output of `timelock::get_durations`
+ */
+export function decodeDurations(values: unknown[]): AptosDurations {
+    if (values.length !== 4) {
+        throw new Error(`expected 4 durations, got ${values.length}`)
+    }
+
+    const [finality, exclusive, publicWithdrawal, privateCancellation] = values.map(decodeU64)
+
+    return {finality, exclusive, publicWithdrawal, privateCancellation}
+}
+
+/**
+ * Struct returned by `fusion_order::get_order`
+ */
+export function decodeFusionOrder(raw: unknown): FusionOrder {
+    if (typeof raw !== 'object' || raw === null) {
+        throw new Error(`expected a fusion order, got ${JSON.stringify(raw)}`)
+    }
+
+    const order = raw as Record<string, unknown>
+    const optional = <T>(field: string, decode: (value: unknown) => T): T | undefined =>
+        order[field] === undefined ? undefined : decode(order[field])
+
+    return {
+        hashes: decodeVector(order.hashes, decodeBytes),
+        metadata: decodeAddress(order.metadata),
+        amount: decodeU64(order.amount),
+        safetyDepositAmount: decodeU64(order.safety_deposit_amount),
+        finalityDuration: decodeU64(order.finality_duration),
+        exclusiveDuration: decodeU64(order.exclusive_duration),
+        publicWithdrawalDuration: decodeU64(order.public_withdrawal_duration),
+        privateCancellationDuration: decodeU64(order.private_cancellation_duration),
+        maker: optional('maker', decodeAddress),
+        orderHash: optional('order_hash', decodeBytes),
+        resolverWhitelist: optional('resolver_whitelist', (value) => decodeVector(value, decodeAddress)),
+        autoCancelAfter: optional('auto_cancel_after', (value) => decodeOption(value, decodeU64))
+    }
+}
+
+/**
+ * `timelock` argument of the `timelock` views. The SDK argument types do not describe structs, the node takes
+ * the struct as the views returned it.
+ */
+export function timelockArg(timelock: MoveTimelock): SimpleEntryFunctionArgumentTypes {
+    return timelock as unknown as SimpleEntryFunctionArgumentTypes
+}
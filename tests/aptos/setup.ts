@@ -1,26 +1,30 @@
 import { Aptos, Network, AptosConfig, Account, Ed25519PrivateKey, ClientConfig } from '@aptos-labs/ts-sdk'
+import { AptosChainConfig, Config, getConfig } from '../config'
 
-// Account configuration with environment variables for private keys
+type NamedAccount = Config['accounts']['aptos']['user'] & { name: string }
+
+// Accounts and package addresses come from the validated config, read on first access
 export const ACCOUNTS = {
-    FUSION: {
-        address: '0x160df7d8e10750b56b86779cc8f400ad4145fad6cfd1a16dfb532c07302bcf8b',
-        privateKey: process.env.APTOS_FUSION_PRIVATE_KEY || 'ed25519-priv-0xb2ff597cbff60622a6984341f91a732399eb2e08cc9e9a29b4621c36eb537cd8',
-        name: 'Fusion'
+    get FUSION(): NamedAccount {
+        return { ...getConfig().accounts.aptos.fusion, name: 'Fusion' }
     },
-    USDT: {
-        address: '0xa21b820d1b61280cc272d38d55a99df1f440febf7b72709e5927e49afd006b96',
-        privateKey: process.env.APTOS_USDT_PRIVATE_KEY || 'ed25519-priv-0xadf44a11ae912a9a811a784627f709f7b0d31c7328fe8795840140c6595c4536',
-        name: 'USDT'
+    get USDT(): NamedAccount {
+        return { ...getConfig().accounts.aptos.usdt, name: 'USDT' }
     },
-    USER: {
-        address: '0x8a4a02a3a707fdf7f81ee9ece1e02db3aa1888c6283a12f4abf9d81cc8275a60',
-        privateKey: process.env.APTOS_USER_PRIVATE_KEY || 'ed25519-priv-0x13e2b05956b9297849c722bff496bc2a068a709b685fc758234a23a8bddfea95',
-        name: 'User'
+    get USER(): NamedAccount {
+        return { ...getConfig().accounts.aptos.user, name: 'User' }
     },
-    RESOLVER: {
-        address: '0x55bb788452c5b9489c13c39a67e3588b068b4ae69141de7d250aa0c6b1160842',
-        privateKey: process.env.APTOS_RESOLVER_PRIVATE_KEY || 'ed25519-priv-0x141d138b003e1049f285eb2e05ec18f537d8fb61e5bc873263b688b1dd85f10c',
-        name: 'Resolver'
+    get RESOLVER(): NamedAccount {
+        return { ...getConfig().accounts.aptos.resolver, name: 'Resolver' }
+    }
+}
+
+export const PACKAGES = {
+    get fusion(): string {
+        return getConfig().chain.aptos.packages.fusion
+    },
+    get usdt(): string {
+        return getConfig().chain.aptos.packages.usdt
     }
 }
 
@@ -33,11 +37,13 @@ export const LOCAL_NETWORK_CONFIG = {
 export const APTOS_CONFIG = {
     network: Network.TESTNET,
     // Add caching for better performance
-    clientConfig: {
-        API_KEY: process.env.APTOS_API_KEY || 'aptoslabs_K2CVa5cSJ11_AE5Nfy4iAPR8YWq2cviMshnDsD7AQHeE3'
-        // ,
-        // // Add timeout to prevent hanging
-        // timeout: 30000
+    get clientConfig(): ClientConfig {
+        return {
+            API_KEY: getConfig().chain.aptos.apiKey
+            // ,
+            // // Add timeout to prevent hanging
+            // timeout: 30000
+        }
     }
 }
 
@@ -46,20 +52,75 @@ export const MOVEMENT_CONFIG = {
     restUrl: 'https://full.testnet.movementinfra.xyz/v1',
 }
 
-const clientConfig: ClientConfig = {
-    API_KEY: process.env.APTOS_API_KEY || 'aptoslabs_K2CVa5cSJ11_AE5Nfy4iAPR8YWq2cviMshnDsD7AQHeE3'
-  };
+export type AptosNetworkConfig = {
+    name: AptosChainConfig['network']
+    network: Network
+    fullnode?: string
+    faucet?: string
+    clientConfig: ClientConfig
+}
+
+export function resolveAptosNetwork(cnf: AptosChainConfig = getConfig().chain.aptos): AptosNetworkConfig {
+    const fullnode = cnf.nodeUrl
+    const faucet = cnf.faucetUrl
+
+    switch (cnf.network) {
+        case 'testnet':
+        case 'devnet':
+            return {
+                name: cnf.network,
+                network: cnf.network === 'testnet' ? Network.TESTNET : Network.DEVNET,
+                fullnode,
+                faucet,
+                // API key is only accepted by Aptos Labs nodes
+                clientConfig: { API_KEY: cnf.apiKey }
+            }
+        case 'local':
+            return {
+                name: 'local',
+                network: LOCAL_NETWORK_CONFIG.network,
+                fullnode: fullnode ?? `${LOCAL_NETWORK_CONFIG.rpcUrl}/v1`,
+                faucet: faucet ?? LOCAL_NETWORK_CONFIG.faucetUrl,
+                clientConfig: {}
+            }
+        case 'movement':
+            return {
+                name: 'movement',
+                network: MOVEMENT_CONFIG.network,
+                fullnode: fullnode ?? MOVEMENT_CONFIG.restUrl,
+                faucet,
+                clientConfig: {}
+            }
+        case 'custom':
+            return {
+                name: 'custom',
+                network: Network.CUSTOM,
+                fullnode,
+                faucet,
+                clientConfig: cnf.apiKey ? { API_KEY: cnf.apiKey } : {}
+            }
+    }
+}
 
 // Helper to create Aptos client
-export function createAptosClient() {
+export function createAptosClient(networkConfig: AptosNetworkConfig = resolveAptosNetwork()): Aptos {
     const aptosConfig = new AptosConfig({
-        network: APTOS_CONFIG.network,
-        // fullnode: MOVEMENT_CONFIG.restUrl,,
-        clientConfig: clientConfig
+        network: networkConfig.network,
+        fullnode: networkConfig.fullnode,
+        faucet: networkConfig.faucet,
+        clientConfig: networkConfig.clientConfig
     });
     return new Aptos(aptosConfig)
 }
 
+let sharedClient: Aptos | undefined
+
+// Client shared by all helpers, built once from the configured network
+export function getAptosClient(): Aptos {
+    sharedClient ??= createAptosClient()
+    return sharedClient
+}
+
 // Helper to create account from private key
 export function createAccount(privateKey: string): Account {
     const ed25519PrivateKey = new Ed25519PrivateKey(privateKey);
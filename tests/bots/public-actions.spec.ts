@@ -0,0 +1,454 @@
+import {expect} from '@jest/globals'
+import Sdk from '@1inch/cross-chain-sdk'
+import {JsonRpcProvider} from 'ethers'
+import {mkdtemp} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+
+import {PublicActionBot, WatchedEscrow} from './public-actions'
+import {EscrowHelper} from '../aptos/helpers/escrow'
+import {TimelockHelper} from '../aptos/helpers/timelock'
+import {Escrow} from '../aptos/models'
+import {ChainAdapter, ChainKind, EscrowHandle} from '../chains/adapter'
+import {DstDeployEvent, EscrowFactory, SrcDeployEvent} from '../escrow-factory'
+import {AptosEventIndexer, AptosIndexStore, AptosRecord, openAptosIndexStore} from '../indexer/aptos-indexer'
+import {hashSecret} from '../secrets/hashlock'
+import {TimelockState} from '../timelocks/state'
+
+const CREATED_AT = 1_000n
+
+// public withdrawals from 20s, private cancellations from 30s and public ones from 40s after the creation
+const PUBLIC_WITHDRAWAL = CREATED_AT + 20n
+const CANCELLATION = CREATED_AT + 30n
+const PUBLIC_CANCELLATION = CREATED_AT + 40n
+
+const DURATIONS = {finality: 10n, exclusive: 10n, publicWithdrawal: 10n, privateCancellation: 10n}
+
+const SECRET = '0x' + '11'.repeat(32)
+const HASH_LOCK = hashSecret(SECRET)
+const ORDER_HASH = '0x' + 'ab'.repeat(32)
+
+const ESCROW_FACTORY = '0x' + '77'.repeat(20)
+const SRC_IMPL = new Sdk.Address('0x' + '88'.repeat(20))
+
+/**
+ * Adapter recording the public actions of the bot, they revert while `failing` is set
+ */
+class FakeAdapter implements ChainAdapter {
+    public readonly calls: string[] = []
+
+    public failing = false
+
+    public time = CREATED_AT
+
+    constructor(public readonly kind: ChainKind) {}
+
+    public async createEscrow(): Promise<EscrowHandle> {
+        throw new Error('not used by the bot')
+    }
+
+    public async withdraw(): Promise<string> {
+        throw new Error('not used by the bot')
+    }
+
+    public async cancel(): Promise<string> {
+        throw new Error('not used by the bot')
+    }
+
+    public async publicWithdraw(escrow: EscrowHandle, secret: string): Promise<string> {
+        return this.call(`public-withdraw ${escrow.address} ${secret}`)
+    }
+
+    public async publicCancel(escrow: EscrowHandle): Promise<string> {
+        return this.call(`public-cancel ${escrow.address}`)
+    }
+
+    public async getBalance(): Promise<bigint> {
+        return 0n
+    }
+
+    public async now(): Promise<bigint> {
+        return this.time
+    }
+
+    public async waitForFinality(): Promise<void> {}
+
+    private call(call: string): string {
+        this.calls.push(call)
+
+        if (this.failing) {
+            throw new Error('reverted')
+        }
+
+        return `${this.kind}-tx-${this.calls.length}`
+    }
+}
+
+function immutables(hashLock = HASH_LOCK): Sdk.Immutables {
+    return Sdk.Immutables.new({
+        orderHash: ORDER_HASH,
+        hashLock: Sdk.HashLock.fromString(hashLock),
+        maker: new Sdk.Address('0x' + '33'.repeat(20)),
+        taker: new Sdk.Address('0x' + '44'.repeat(20)),
+        token: new Sdk.Address('0x' + '55'.repeat(20)),
+        amount: 100n,
+        safetyDeposit: 7n,
+        timeLocks: Sdk.TimeLocks.new({
+            srcWithdrawal: 10n,
+            srcPublicWithdrawal: 20n,
+            srcCancellation: 30n,
+            srcPublicCancellation: 40n,
+            dstWithdrawal: 10n,
+            dstPublicWithdrawal: 20n,
+            dstCancellation: 30n
+        }).setDeployedAt(CREATED_AT)
+    })
+}
+
+// fixtures of the bot every test runs
+let evm: FakeAdapter
+let aptos: FakeAdapter
+let store: AptosIndexStore
+let escrows: Map<string, Escrow>
+let failingReads: Set<string>
+let balances: Map<string, bigint>
+let latestBlock: number
+let srcEvents: SrcDeployEvent[]
+let dstEvents: (DstDeployEvent & {immutables?: Sdk.Immutables})[]
+let ranges: [number, number | 'latest'][]
+let bot: PublicActionBot
+
+beforeEach(async () => {
+    evm = new FakeAdapter('evm')
+    aptos = new FakeAdapter('aptos')
+    store = await openAptosIndexStore(await mkdtemp(join(tmpdir(), 'public-actions-spec-')))
+    escrows = new Map()
+    failingReads = new Set()
+    balances = new Map()
+    latestBlock = 100
+    srcEvents = []
+    dstEvents = []
+    ranges = []
+
+    const escrow = {
+        getEscrow: async (address: string) => {
+            if (failingReads.has(address)) {
+                throw new Error('rate limited')
+            }
+
+            return escrows.get(address)!
+        }
+    } as unknown as EscrowHelper
+    const timelock = {
+        getTimelock: async () => ({createdAt: CREATED_AT, durations: DURATIONS})
+    } as unknown as TimelockHelper
+    const provider = {
+        getBlockNumber: async () => latestBlock,
+        getBalance: async (address: string) => balances.get(address) ?? 7n
+    } as unknown as JsonRpcProvider
+    const factory = {
+        getSourceImpl: async () => SRC_IMPL,
+        getSrcDeployEvents: async (range: {fromBlock: number; toBlock: number}) => {
+            ranges.push([range.fromBlock, range.toBlock])
+
+            return srcEvents
+        },
+        getDstDeployEvents: async () => dstEvents,
+        getDstImmutables: async (event: DstDeployEvent & {immutables?: Sdk.Immutables}) => event.immutables
+    } as unknown as EscrowFactory
+
+    bot = new PublicActionBot(
+        {
+            evm: {provider, factory, escrowFactory: ESCROW_FACTORY, adapter: evm},
+            aptos: {
+                indexer: {sync: async () => 0, store} as unknown as AptosEventIndexer,
+                escrow,
+                timelock,
+                adapter: aptos
+            }
+        },
+        50
+    )
+})
+
+function aptosEscrow(address: string, safetyDeposit = 5n): WatchedEscrow {
+    return {
+        handle: {chain: 'aptos', side: 'dst', address, txHash: ''},
+        hashLock: HASH_LOCK,
+        safetyDeposit,
+        state: TimelockState.fromAptosDurations(CREATED_AT, DURATIONS)
+    }
+}
+
+async function indexEscrow(address: string, overrides: Partial<AptosRecord> = {}): Promise<void> {
+    await store.save({
+        kind: 'escrow',
+        address,
+        status: 'created',
+        orderHash: ORDER_HASH,
+        hashLock: HASH_LOCK,
+        createdVersion: '1',
+        ...overrides
+    })
+    escrows.set(address, {
+        orderHash: ORDER_HASH,
+        hash: HASH_LOCK,
+        safetyDepositAmount: 5n,
+        timelock: {}
+    } as unknown as Escrow)
+}
+
+describe('PublicActionBot.tick', () => {
+    it('should withdraw publicly once the phase opens and the secret is known', async () => {
+        bot.watch(aptosEscrow('0xa'))
+
+        aptos.time = PUBLIC_WITHDRAWAL - 1n
+        expect(await bot.tick()).toEqual([])
+
+        // the public withdrawal needs the secret
+        aptos.time = PUBLIC_WITHDRAWAL
+        expect(await bot.tick()).toEqual([])
+
+        bot.addSecret(SECRET)
+
+        expect(await bot.tick()).toEqual([
+            {
+                chain: 'aptos',
+                escrow: '0xa',
+                action: 'public-withdraw',
+                txHash: 'aptos-tx-1',
+                safetyDeposit: 5n,
+                at: PUBLIC_WITHDRAWAL
+            }
+        ])
+        expect(aptos.calls).toEqual([`public-withdraw 0xa ${SECRET}`])
+        expect(bot.watched).toEqual([])
+    })
+
+    it('should not act in the private cancellation phase', async () => {
+        bot.watch(aptosEscrow('0xa'))
+        bot.addSecret(SECRET)
+        aptos.time = CANCELLATION
+
+        expect(await bot.tick()).toEqual([])
+        expect(aptos.calls).toEqual([])
+    })
+
+    it('should cancel publicly once the phase opens, with or without the secret', async () => {
+        bot.watch(aptosEscrow('0xa'))
+        aptos.time = PUBLIC_CANCELLATION
+
+        expect(await bot.tick()).toEqual([expect.objectContaining({action: 'public-cancel', escrow: '0xa'})])
+        expect(aptos.calls).toEqual(['public-cancel 0xa'])
+    })
+
+    it('should keep watching an escrow whose action failed', async () => {
+        bot.watch(aptosEscrow('0xa'))
+        aptos.time = PUBLIC_CANCELLATION
+        aptos.failing = true
+
+        expect(await bot.tick()).toEqual([])
+        expect(bot.watched).toHaveLength(1)
+
+        aptos.failing = false
+
+        expect(await bot.tick()).toHaveLength(1)
+        expect(aptos.calls).toEqual(['public-cancel 0xa', 'public-cancel 0xa'])
+    })
+
+    it('should drop escrows closed by someone else', async () => {
+        await indexEscrow('0xa', {status: 'withdrawn'})
+        bot.watch(aptosEscrow('0xa'))
+        bot.watch({
+            handle: {chain: 'evm', side: 'src', address: '0xb', txHash: '0xdeploy', immutables: immutables()},
+            hashLock: HASH_LOCK,
+            safetyDeposit: 7n,
+            state: TimelockState.fromEvm(immutables().timeLocks, 'src')
+        })
+        // the safety deposit of a closed EVM escrow is gone
+        balances.set('0xb', 0n)
+        aptos.time = PUBLIC_CANCELLATION
+        evm.time = PUBLIC_CANCELLATION
+
+        expect(await bot.tick()).toEqual([])
+        expect(bot.watched).toEqual([])
+
+        // a closed escrow is not watched again
+        bot.watch(aptosEscrow('0xa'))
+        expect(bot.watched).toEqual([])
+    })
+
+    it('should sum the safety deposits earned per chain', async () => {
+        bot.watch(aptosEscrow('0xa', 5n))
+        bot.watch(aptosEscrow('0xb', 6n))
+        bot.watch({
+            handle: {chain: 'evm', side: 'src', address: '0xc', txHash: '0xdeploy', immutables: immutables()},
+            hashLock: HASH_LOCK,
+            safetyDeposit: 7n,
+            state: TimelockState.fromEvm(immutables().timeLocks, 'src')
+        })
+        aptos.time = PUBLIC_CANCELLATION
+        evm.time = PUBLIC_CANCELLATION
+
+        await bot.tick()
+
+        expect(bot.earned('aptos')).toBe(11n)
+        expect(bot.earned('evm')).toBe(7n)
+        expect(bot.earnings).toHaveLength(3)
+    })
+})
+
+describe('PublicActionBot.scan', () => {
+    it('should watch the indexed Aptos escrows on the side of their order object', async () => {
+        await store.save({
+            kind: 'auction',
+            address: '0xauction',
+            status: 'created',
+            orderHash: ORDER_HASH,
+            createdVersion: '1'
+        })
+        await indexEscrow('0xa')
+        await indexEscrow('0xb', {orderHash: '0x' + 'cd'.repeat(32)})
+
+        await bot.scan()
+
+        expect(bot.watched).toEqual([
+            expect.objectContaining({
+                handle: {chain: 'aptos', side: 'dst', address: '0xa', txHash: ''},
+                hashLock: HASH_LOCK,
+                safetyDeposit: 5n
+            })
+        ])
+
+        // the fusion order of the second escrow is indexed later
+        await store.save({
+            kind: 'fusion-order',
+            address: '0xorder',
+            status: 'created',
+            orderHash: '0x' + 'cd'.repeat(32),
+            createdVersion: '2'
+        })
+        await bot.scan()
+
+        expect(bot.watched.map((w) => w.handle)).toContainEqual({
+            chain: 'aptos',
+            side: 'src',
+            address: '0xb',
+            txHash: ''
+        })
+    })
+
+    it('should read an Aptos escrow again after a failed read', async () => {
+        await store.save({
+            kind: 'auction',
+            address: '0xauction',
+            status: 'created',
+            orderHash: ORDER_HASH,
+            createdVersion: '1'
+        })
+        await indexEscrow('0xa')
+        failingReads.add('0xa')
+
+        await bot.scan()
+        expect(bot.watched).toEqual([])
+
+        failingReads.clear()
+        await bot.scan()
+        expect(bot.watched).toHaveLength(1)
+    })
+
+    it('should stop watching Aptos escrows once the index saw them close', async () => {
+        await store.save({
+            kind: 'auction',
+            address: '0xauction',
+            status: 'created',
+            orderHash: ORDER_HASH,
+            createdVersion: '1'
+        })
+        await indexEscrow('0xa')
+        await bot.scan()
+
+        await indexEscrow('0xa', {status: 'cancelled', closedVersion: '3'})
+        await bot.scan()
+
+        expect(bot.watched).toEqual([])
+    })
+
+    it('should watch EVM escrows of both sides from the start block on', async () => {
+        const src = immutables()
+        const dst = immutables('0x' + 'ee'.repeat(32))
+        const position = {blockNumber: 60, blockHash: '0xblock', logIndex: 0}
+
+        srcEvents = [{...position, txHash: '0xsrc', immutables: src, complement: {} as Sdk.DstImmutablesComplement}]
+        dstEvents = [
+            {
+                ...position,
+                txHash: '0xdst',
+                escrow: new Sdk.Address('0x' + 'dd'.repeat(20)),
+                hashLock: dst.hashLock,
+                taker: dst.taker,
+                deployedAt: CREATED_AT,
+                immutables: dst
+            },
+            // deployed through another contract, its immutables are unknown
+            {
+                ...position,
+                txHash: '0xother',
+                escrow: new Sdk.Address('0x' + 'ff'.repeat(20)),
+                hashLock: dst.hashLock,
+                taker: dst.taker,
+                deployedAt: CREATED_AT
+            }
+        ]
+
+        await bot.scan()
+
+        expect(ranges).toEqual([[50, 100]])
+        expect(bot.watched.map((w) => w.handle)).toEqual([
+            {
+                chain: 'evm',
+                side: 'src',
+                address: new Sdk.EscrowFactory(new Sdk.Address(ESCROW_FACTORY))
+                    .getSrcEscrowAddress(src, SRC_IMPL)
+                    .toString(),
+                txHash: '0xsrc',
+                immutables: src
+            },
+            {chain: 'evm', side: 'dst', address: '0x' + 'dd'.repeat(20), txHash: '0xdst', immutables: dst}
+        ])
+
+        srcEvents = []
+        dstEvents = []
+        await bot.scan()
+        latestBlock = 120
+        await bot.scan()
+
+        expect(ranges).toEqual([
+            [50, 100],
+            [101, 120]
+        ])
+    })
+
+    it('should never cancel an EVM destination escrow publicly', async () => {
+        const dst = immutables()
+
+        dstEvents = [
+            {
+                blockNumber: 60,
+                blockHash: '0xblock',
+                logIndex: 0,
+                txHash: '0xdst',
+                escrow: new Sdk.Address('0x' + 'dd'.repeat(20)),
+                hashLock: dst.hashLock,
+                taker: dst.taker,
+                deployedAt: CREATED_AT,
+                immutables: dst
+            }
+        ]
+        await bot.scan()
+        evm.time = CREATED_AT + 10_000n
+
+        expect(await bot.tick()).toEqual([])
+        expect(evm.calls).toEqual([])
+    })
+})
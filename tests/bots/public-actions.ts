@@ -0,0 +1,339 @@
+import Sdk from '@1inch/cross-chain-sdk'
+import {JsonRpcProvider} from 'ethers'
+import {EscrowFactory} from '../escrow-factory'
+import {EscrowHelper} from '../aptos/helpers/escrow'
+import {TimelockHelper} from '../aptos/helpers/timelock'
+import {ChainAdapter, ChainKind, EscrowHandle, EscrowSide} from '../chains/adapter'
+import {AptosEventIndexer, AptosRecord} from '../indexer/aptos-indexer'
+import {hashSecret} from '../secrets/hashlock'
+import {TimelockPhase, TimelockState} from '../timelocks/state'
+
+export type PublicActionBotContext = {
+    evm: {
+        provider: JsonRpcProvider
+        factory: EscrowFactory
+        escrowFactory: string
+        /**
+         * Adapter acting with the bot's own wallet and resolver contract
+         */
+        adapter: ChainAdapter
+    }
+    aptos: {
+        /**
+         * Index of the fusion package, escrows are discovered from it and closed once it saw them close
+         */
+        indexer: AptosEventIndexer
+        escrow: EscrowHelper
+        timelock: TimelockHelper
+        /**
+         * Adapter acting with the bot's own account
+         */
+        adapter: ChainAdapter
+    }
+}
+
+/**
+ * Escrow the bot watches, whoever took it
+ */
+export type WatchedEscrow = {
+    handle: EscrowHandle
+    hashLock: string
+    safetyDeposit: bigint
+    state: TimelockState
+}
+
+export type PublicAction = 'public-withdraw' | 'public-cancel'
+
+export type Earning = {
+    chain: ChainKind
+    escrow: string
+    action: PublicAction
+    txHash: string
+    /**
+     * Safety deposit paid to the bot, in the native token of the chain
+     */
+    safetyDeposit: bigint
+    /**
+     * Chain time of the action
+     */
+    at: bigint
+}
+
+/**
+ * Third party bot finishing escrows their taker abandoned.
+ *
+ * It discovers Aptos escrows from the Aptos index and EVM escrows from the `SrcEscrowCreated` and
+ * `DstEscrowCreated` logs from the start block on, more escrows can be added with `watch`. Once the public
+ * withdrawal phase opens and the secret is known it withdraws to the maker, once the public cancellation phase opens
+ * it cancels. Either way the caller gets the safety deposit, every one collected is recorded in `earnings`.
+ */
+export class PublicActionBot {
+    public readonly earnings: Earning[] = []
+
+    private readonly escrows = new Map<string, WatchedEscrow>()
+
+    private readonly closed = new Set<string>()
+
+    private readonly secrets = new Map<string, string>()
+
+    private nextBlock: number
+
+    constructor(
+        private readonly ctx: PublicActionBotContext,
+        /**
+         * EVM block to discover escrows from, usually the block the escrow factory was deployed at
+         */
+        fromBlock: number
+    ) {
+        this.nextBlock = fromBlock
+    }
+
+    get watched(): WatchedEscrow[] {
+        return [...this.escrows.values()]
+    }
+
+    /**
+     * Secret revealed by a maker, lets the bot withdraw the escrows locked with its hash
+     */
+    public addSecret(secret: string): void {
+        this.secrets.set(hashSecret(secret), secret)
+    }
+
+    public watch(escrow: WatchedEscrow): void {
+        const key = keyOf(escrow.handle)
+
+        if (!this.closed.has(key)) {
+            this.escrows.set(key, escrow)
+        }
+    }
+
+    /**
+     * Safety deposits collected on the chain so far
+     */
+    public earned(chain: ChainKind): bigint {
+        return this.earnings.filter((e) => e.chain === chain).reduce((sum, e) => sum + e.safetyDeposit, 0n)
+    }
+
+    /**
+     * Look for escrows created since the last scan
+     */
+    public async scan(): Promise<void> {
+        await this.scanAptos()
+        await this.scanEvm()
+    }
+
+    /**
+     * Execute every public action that is open, returns the earnings of this tick
+     */
+    public async tick(): Promise<Earning[]> {
+        const earned: Earning[] = []
+        const now = {
+            evm: await this.ctx.evm.adapter.now(),
+            aptos: await this.ctx.aptos.adapter.now()
+        }
+
+        for (const escrow of this.watched) {
+            const time = now[escrow.handle.chain]
+            const action = this.actionOf(escrow, time)
+
+            if (!action) {
+                continue
+            }
+
+            if (!(await this.isOpen(escrow))) {
+                this.close(escrow)
+                continue
+            }
+
+            try {
+                const txHash = await this.execute(escrow, action)
+                const earning: Earning = {
+                    chain: escrow.handle.chain,
+                    escrow: escrow.handle.address,
+                    action,
+                    txHash,
+                    safetyDeposit: escrow.safetyDeposit,
+                    at: time
+                }
+
+                console.log(
+                    `[${escrow.handle.chain}]`,
+                    `${action} of escrow ${escrow.handle.address} in tx ${txHash}, earned ${escrow.safetyDeposit}`
+                )
+                this.earnings.push(earning)
+                earned.push(earning)
+                this.close(escrow)
+            } catch (error) {
+                // another bot may have been faster, the next tick finds the escrow closed
+                console.log(`[${escrow.handle.chain}]`, `${action} of escrow ${escrow.handle.address} failed: ${error}`)
+            }
+        }
+
+        return earned
+    }
+
+    /**
+     * Scan and tick until the timeout
+     */
+    public async run(pollIntervalMs = 5000, timeoutMs = 10 * 60 * 1000): Promise<void> {
+        const deadline = Date.now() + timeoutMs
+
+        while (Date.now() < deadline) {
+            await this.scan()
+            await this.tick()
+            await new Promise((resolve) => setTimeout(resolve, pollIntervalMs))
+        }
+    }
+
+    private actionOf(escrow: WatchedEscrow, time: bigint): PublicAction | undefined {
+        switch (escrow.state.phaseAt(time)) {
+            case TimelockPhase.PublicWithdrawal:
+                return this.secrets.has(escrow.hashLock.toLowerCase()) ? 'public-withdraw' : undefined
+            case TimelockPhase.PublicCancellation:
+                return 'public-cancel'
+            default:
+                return undefined
+        }
+    }
+
+    private execute({handle, hashLock}: WatchedEscrow, action: PublicAction): Promise<string> {
+        const adapter = this.ctx[handle.chain].adapter
+
+        if (action === 'public-cancel') {
+            return adapter.publicCancel(handle)
+        }
+
+        const secret = this.secrets.get(hashLock.toLowerCase())
+
+        if (secret === undefined) {
+            throw new Error(`secret of escrow ${handle.address} is unknown`)
+        }
+
+        return adapter.publicWithdraw(handle, secret)
+    }
+
+    /**
+     * Aptos escrows are open until the index saw them close, EVM escrows until they hand out their safety deposit
+     */
+    private async isOpen({handle, safetyDeposit}: WatchedEscrow): Promise<boolean> {
+        if (handle.chain === 'aptos') {
+            const status = this.aptosRecordOf(handle.address)?.status
+
+            return status === undefined || status === 'created'
+        }
+
+        return (await this.ctx.evm.provider.getBalance(handle.address)) >= safetyDeposit
+    }
+
+    private async scanAptos(): Promise<void> {
+        const {indexer, escrow: helper, timelock} = this.ctx.aptos
+
+        await indexer.sync()
+
+        for (const record of indexer.store.find({kind: 'escrow'})) {
+            const key = keyOf({chain: 'aptos', address: record.address})
+
+            if (record.status !== 'created') {
+                this.escrows.delete(key)
+                this.closed.add(key)
+                continue
+            }
+
+            const side = this.aptosSideOf(record)
+
+            // the order object of the escrow is not indexed yet
+            if (this.escrows.has(key) || this.closed.has(key) || !side) {
+                continue
+            }
+
+            try {
+                const escrow = await helper.getEscrow(record.address)
+
+                this.watch({
+                    handle: {chain: 'aptos', side, address: record.address, txHash: ''},
+                    hashLock: escrow.hash,
+                    safetyDeposit: escrow.safetyDepositAmount,
+                    state: await TimelockState.fromAptos(timelock, escrow.timelock)
+                })
+            } catch (error) {
+                // read again on the next scan, the escrow is only closed once the index saw it close
+                console.log(`[aptos]`, `cannot read escrow ${record.address}: ${error}`)
+            }
+        }
+    }
+
+    private async scanEvm(): Promise<void> {
+        const {provider, factory, escrowFactory} = this.ctx.evm
+        const latest = await provider.getBlockNumber()
+        const fromBlock = this.nextBlock
+
+        if (fromBlock > latest) {
+            return
+        }
+
+        const sdkFactory = new Sdk.EscrowFactory(new Sdk.Address(escrowFactory))
+        const srcImpl = await factory.getSourceImpl()
+
+        for (const {immutables, txHash} of await factory.getSrcDeployEvents({fromBlock, toBlock: latest})) {
+            const address = sdkFactory.getSrcEscrowAddress(immutables, srcImpl).toString()
+
+            this.watch({
+                handle: {chain: 'evm', side: 'src', address, txHash, immutables},
+                hashLock: immutables.hashLock.toString(),
+                safetyDeposit: immutables.safetyDeposit,
+                state: TimelockState.fromEvm(immutables.timeLocks, 'src')
+            })
+        }
+
+        for (const event of await factory.getDstDeployEvents(fromBlock, latest)) {
+            const address = event.escrow.toString()
+            const immutables = await factory.getDstImmutables(event)
+
+            if (!immutables) {
+                console.log(`[evm]`, `cannot watch escrow ${address} without its immutables`)
+                continue
+            }
+
+            this.watch({
+                handle: {chain: 'evm', side: 'dst', address, txHash: event.txHash, immutables},
+                hashLock: immutables.hashLock.toString(),
+                safetyDeposit: immutables.safetyDeposit,
+                state: TimelockState.fromEvm(immutables.timeLocks, 'dst')
+            })
+        }
+
+        this.nextBlock = latest + 1
+    }
+
+    /**
+     * Escrows filling a fusion order are source escrows, the ones filling a Dutch auction destination escrows
+     */
+    private aptosSideOf(record: AptosRecord): EscrowSide | undefined {
+        const {store} = this.ctx.aptos.indexer
+
+        if (!record.orderHash) {
+            return undefined
+        }
+
+        if (store.find({kind: 'fusion-order', orderHash: record.orderHash}).length > 0) {
+            return 'src'
+        }
+
+        return store.find({kind: 'auction', orderHash: record.orderHash}).length > 0 ? 'dst' : undefined
+    }
+
+    private aptosRecordOf(address: string): AptosRecord | undefined {
+        return this.ctx.aptos.indexer.store.find({kind: 'escrow', address}).at(0)
+    }
+
+    private close(escrow: WatchedEscrow): void {
+        const key = keyOf(escrow.handle)
+
+        this.escrows.delete(key)
+        this.closed.add(key)
+    }
+}
+
+function keyOf(escrow: Pick<EscrowHandle, 'chain' | 'address'>): string {
+    return `${escrow.chain}:${escrow.address.toLowerCase()}`
+}
@@ -0,0 +1,54 @@
+import Sdk from '@1inch/cross-chain-sdk'
+
+export type ChainKind = 'evm' | 'aptos'
+
+export type EscrowSide = 'src' | 'dst'
+
+/**
+ * Escrow deployed by one of the adapters, EVM escrows also carry the immutables needed to withdraw or cancel
+ */
+export type EscrowHandle = {
+    chain: ChainKind
+    side: EscrowSide
+    address: string
+    txHash: string
+    immutables?: Sdk.Immutables
+}
+
+/**
+ * Operations a swap needs from either leg, whatever chain it lives on.
+ * `P` describes how the chain creates an escrow for each side.
+ */
+export interface ChainAdapter<P = unknown> {
+    readonly kind: ChainKind
+
+    createEscrow(params: P): Promise<EscrowHandle>
+
+    withdraw(escrow: EscrowHandle, secret: string): Promise<string>
+
+    cancel(escrow: EscrowHandle): Promise<string>
+
+    /**
+     * Withdraw to the maker in the public withdrawal phase, anyone holding the access token may call it
+     */
+    publicWithdraw(escrow: EscrowHandle, secret: string): Promise<string>
+
+    /**
+     * Return the funds to their owner in the public cancellation phase, source escrows only on EVM
+     */
+    publicCancel(escrow: EscrowHandle): Promise<string>
+
+    getBalance(owner: string, token: string): Promise<bigint>
+
+    /**
+     * Current chain time in seconds, the clock timelocks are measured against
+     */
+    now(): Promise<bigint>
+
+    waitForFinality(txHash: string): Promise<void>
+}
+
+export type ChainPair<S = unknown, D = unknown> = {
+    src: ChainAdapter<S>
+    dst: ChainAdapter<D>
+}
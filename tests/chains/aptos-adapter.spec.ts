@@ -0,0 +1,114 @@
+import {expect} from '@jest/globals'
+import {Account, Aptos} from '@aptos-labs/ts-sdk'
+
+import {EscrowHandle} from './adapter'
+import {AptosAdapter} from './aptos-adapter'
+import {EscrowHelper} from '../aptos/helpers/escrow'
+import {FungibleAssetsHelper} from '../aptos/helpers/fungible-assets'
+
+const DURATIONS = {finality: 10n, exclusive: 20n, publicWithdrawal: 30n, privateCancellation: 40n}
+
+describe('AptosAdapter', () => {
+    const resolver = {accountAddress: '0xresolver'} as unknown as Account
+
+    let calls: unknown[][]
+    let adapter: AptosAdapter
+
+    beforeEach(() => {
+        calls = []
+
+        // every helper call is recorded with its arguments and answers the name of the entry function
+        const record =
+            (name: string) =>
+            async (...args: unknown[]): Promise<unknown> => {
+                calls.push([name, ...args])
+
+                return name.startsWith('create') ? {txHash: `${name}-tx`, escrowAddress: '0xescrow'} : `${name}-tx`
+            }
+
+        const escrow = {
+            createEscrowFromOrderSingleFill: record('createEscrowFromOrderSingleFill'),
+            createEscrowFromOrderPartialFill: record('createEscrowFromOrderPartialFill'),
+            createEscrowFromAuctionSingleFill: record('createEscrowFromAuctionSingleFill'),
+            createEscrowFromAuctionPartialFill: record('createEscrowFromAuctionPartialFill'),
+            withdrawFromEscrow: record('withdrawFromEscrow'),
+            cancelEscrow: record('cancelEscrow')
+        } as unknown as EscrowHelper
+        const client = {
+            getLedgerInfo: async () => ({ledger_timestamp: '1234567890'})
+        } as unknown as Aptos
+        const fungibleAssets = {getBalance: async () => 42n} as unknown as FungibleAssetsHelper
+
+        adapter = new AptosAdapter(client, resolver, escrow, fungibleAssets)
+    })
+
+    it('should fill a fusion order with a source escrow', async () => {
+        await expect(adapter.createEscrow({side: 'src', fusionOrder: '0xorder'})).resolves.toEqual({
+            chain: 'aptos',
+            side: 'src',
+            address: '0xescrow',
+            txHash: 'createEscrowFromOrderSingleFill-tx'
+        })
+        await adapter.createEscrow({side: 'src', fusionOrder: '0xorder', segment: 2})
+
+        expect(calls).toEqual([
+            ['createEscrowFromOrderSingleFill', resolver, '0xorder'],
+            ['createEscrowFromOrderPartialFill', resolver, '0xorder', 2]
+        ])
+    })
+
+    it('should fill an auction with a destination escrow and its durations', async () => {
+        const {finality, exclusive, publicWithdrawal, privateCancellation} = DURATIONS
+
+        await expect(adapter.createEscrow({side: 'dst', auction: '0xauction', durations: DURATIONS})).resolves.toEqual({
+            chain: 'aptos',
+            side: 'dst',
+            address: '0xescrow',
+            txHash: 'createEscrowFromAuctionSingleFill-tx'
+        })
+        await adapter.createEscrow({side: 'dst', auction: '0xauction', durations: DURATIONS, segment: 0})
+
+        expect(calls).toEqual([
+            [
+                'createEscrowFromAuctionSingleFill',
+                resolver,
+                '0xauction',
+                finality,
+                exclusive,
+                publicWithdrawal,
+                privateCancellation
+            ],
+            [
+                'createEscrowFromAuctionPartialFill',
+                resolver,
+                '0xauction',
+                0,
+                finality,
+                exclusive,
+                publicWithdrawal,
+                privateCancellation
+            ]
+        ])
+    })
+
+    it('should settle the escrow with the same entry functions in every phase', async () => {
+        const escrow: EscrowHandle = {chain: 'aptos', side: 'dst', address: '0xescrow', txHash: '0xdeploy'}
+
+        await expect(adapter.withdraw(escrow, '0xsecret')).resolves.toBe('withdrawFromEscrow-tx')
+        await expect(adapter.publicWithdraw(escrow, '0xsecret')).resolves.toBe('withdrawFromEscrow-tx')
+        await expect(adapter.cancel(escrow)).resolves.toBe('cancelEscrow-tx')
+        await expect(adapter.publicCancel(escrow)).resolves.toBe('cancelEscrow-tx')
+
+        expect(calls).toEqual([
+            ['withdrawFromEscrow', resolver, '0xescrow', '0xsecret'],
+            ['withdrawFromEscrow', resolver, '0xescrow', '0xsecret'],
+            ['cancelEscrow', resolver, '0xescrow'],
+            ['cancelEscrow', resolver, '0xescrow']
+        ])
+    })
+
+    it('should read the ledger time in seconds and the balances', async () => {
+        await expect(adapter.now()).resolves.toBe(1234n)
+        await expect(adapter.getBalance('0xowner', '0xmetadata')).resolves.toBe(42n)
+    })
+})
@@ -0,0 +1,101 @@
+import {Account, Aptos} from '@aptos-labs/ts-sdk'
+import {ChainAdapter, EscrowHandle} from './adapter'
+import {EscrowHelper} from '../aptos/helpers/escrow'
+import {FungibleAssetsHelper} from '../aptos/helpers/fungible-assets'
+import {AptosDurations} from '../timelocks/translator'
+
+export type AptosEscrowParams =
+    | {
+          side: 'src'
+          fusionOrder: string
+          segment?: number
+      }
+    | {
+          side: 'dst'
+          auction: string
+          durations: AptosDurations
+          segment?: number
+      }
+
+export class AptosAdapter implements ChainAdapter<AptosEscrowParams> {
+    public readonly kind = 'aptos'
+
+    constructor(
+        private readonly client: Aptos,
+        private readonly resolver: Account,
+        private readonly escrow: EscrowHelper,
+        private readonly fungibleAssets: FungibleAssetsHelper
+    ) {}
+
+    public async createEscrow(params: AptosEscrowParams): Promise<EscrowHandle> {
+        const {txHash, escrowAddress} = await this.deploy(params)
+
+        return {chain: this.kind, side: params.side, address: escrowAddress, txHash}
+    }
+
+    public async withdraw(escrow: EscrowHandle, secret: string): Promise<string> {
+        return this.escrow.withdrawFromEscrow(this.resolver, escrow.address, secret)
+    }
+
+    public async cancel(escrow: EscrowHandle): Promise<string> {
+        return this.escrow.cancelEscrow(this.resolver, escrow.address)
+    }
+
+    /**
+     * `router::escrow_withdraw` checks the caller against the phase, any account may call it in the public phase
+     */
+    public async publicWithdraw(escrow: EscrowHandle, secret: string): Promise<string> {
+        return this.escrow.withdrawFromEscrow(this.resolver, escrow.address, secret)
+    }
+
+    /**
+     * `router::escrow_recovery` checks the caller against the phase, any account may call it in the public phase
+     */
+    public async publicCancel(escrow: EscrowHandle): Promise<string> {
+        return this.escrow.cancelEscrow(this.resolver, escrow.address)
+    }
+
+    public async getBalance(owner: string, token: string): Promise<bigint> {
+        return this.fungibleAssets.getBalance(owner, token)
+    }
+
+    public async now(): Promise<bigint> {
+        const {ledger_timestamp} = await this.client.getLedgerInfo()
+
+        return BigInt(ledger_timestamp) / 1_000_000n // microseconds
+    }
+
+    public async waitForFinality(txHash: string): Promise<void> {
+        // Aptos transactions are final once committed
+        await this.client.waitForTransaction({transactionHash: txHash})
+    }
+
+    private deploy(params: AptosEscrowParams): Promise<{txHash: string; escrowAddress: string}> {
+        if (params.side === 'src') {
+            return params.segment === undefined
+                ? this.escrow.createEscrowFromOrderSingleFill(this.resolver, params.fusionOrder)
+                : this.escrow.createEscrowFromOrderPartialFill(this.resolver, params.fusionOrder, params.segment)
+        }
+
+        const {finality, exclusive, publicWithdrawal, privateCancellation} = params.durations
+
+        return params.segment === undefined
+            ? this.escrow.createEscrowFromAuctionSingleFill(
+                  this.resolver,
+                  params.auction,
+                  finality,
+                  exclusive,
+                  publicWithdrawal,
+                  privateCancellation
+              )
+            : this.escrow.createEscrowFromAuctionPartialFill(
+                  this.resolver,
+                  params.auction,
+                  params.segment,
+                  finality,
+                  exclusive,
+                  publicWithdrawal,
+                  privateCancellation
+              )
+    }
+}
@@ -0,0 +1,157 @@
+import {expect} from '@jest/globals'
+import Sdk from '@1inch/cross-chain-sdk'
+import {TransactionRequest} from 'ethers'
+
+import {EscrowHandle} from './adapter'
+import {EvmAdapter} from './evm-adapter'
+import {Wallet} from '../wallet'
+import {Resolver} from '../resolver'
+import {EscrowFactory} from '../escrow-factory'
+
+const CHAIN_ID = 1
+const ESCROW_FACTORY = '0x' + '77'.repeat(20)
+const SRC_IMPL = new Sdk.Address('0x' + '88'.repeat(20))
+const DST_IMPL = new Sdk.Address('0x' + '99'.repeat(20))
+const DEPLOYED_AT = 5_000n
+const ESCROW = '0x' + 'aa'.repeat(20)
+
+const immutables = Sdk.Immutables.new({
+    orderHash: '0x' + '11'.repeat(32),
+    hashLock: Sdk.HashLock.forSingleFill('0x' + '22'.repeat(32)),
+    maker: new Sdk.Address('0x' + '33'.repeat(20)),
+    taker: new Sdk.Address('0x' + '44'.repeat(20)),
+    token: new Sdk.Address('0x' + '55'.repeat(20)),
+    amount: 100n,
+    safetyDeposit: 10n,
+    timeLocks: Sdk.TimeLocks.new({
+        srcWithdrawal: 10n,
+        srcPublicWithdrawal: 20n,
+        srcCancellation: 30n,
+        srcPublicCancellation: 40n,
+        dstWithdrawal: 10n,
+        dstPublicWithdrawal: 20n,
+        dstCancellation: 30n
+    })
+})
+
+/**
+ * Resolver describing the call in the transaction data, so the test can read what was sent
+ */
+const resolverContract = {
+    deploySrc: (chainId: number, order: unknown, signature: string) => ({data: `deploySrc ${chainId} ${signature}`}),
+    deployDst: (dst: Sdk.Immutables) => ({data: `deployDst ${dst.hash()}`}),
+    withdraw: (side: string, escrow: Sdk.Address, secret: string) => ({data: `withdraw ${side} ${escrow} ${secret}`}),
+    cancel: (side: string, escrow: Sdk.Address) => ({data: `cancel ${side} ${escrow}`}),
+    publicWithdraw: (side: string, escrow: Sdk.Address, secret: string) => ({
+        data: `publicWithdraw ${side} ${escrow} ${secret}`
+    }),
+    publicCancel: (side: string, escrow: Sdk.Address) => ({data: `publicCancel ${side} ${escrow}`})
+} as unknown as Resolver
+
+describe('EvmAdapter', () => {
+    let sent: string[]
+    let verified: [string, Sdk.Address, Sdk.HashLock][]
+    let adapter: EvmAdapter
+
+    beforeEach(() => {
+        sent = []
+        verified = []
+
+        const resolver = {
+            send: async (tx: TransactionRequest) => {
+                sent.push(tx.data as string)
+
+                return {txHash: `0xtx${sent.length}`, blockHash: '0xblock', blockTimestamp: DEPLOYED_AT}
+            },
+            tokenBalanceOf: async () => 7n,
+            provider: {
+                getBalance: async () => 3n,
+                getBlock: async () => ({timestamp: 1_234})
+            }
+        } as unknown as Wallet
+
+        const factory = {
+            getSourceImpl: async () => SRC_IMPL,
+            getDestinationImpl: async () => DST_IMPL,
+            getSrcDeployEvent: async () => ({immutables}),
+            verifyDstEscrow: async (blockHash: string, escrow: Sdk.Address, hashLock: Sdk.HashLock) => {
+                verified.push([blockHash, escrow, hashLock])
+            }
+        } as unknown as EscrowFactory
+
+        adapter = new EvmAdapter(CHAIN_ID, resolver, resolverContract, factory, ESCROW_FACTORY)
+    })
+
+    it('should derive the source escrow from the deploy event of the order', async () => {
+        const order = {getOrderHash: () => immutables.orderHash} as unknown as Sdk.CrossChainOrder
+
+        const escrow = await adapter.createEscrow({
+            side: 'src',
+            order,
+            signature: '0xsig',
+            takerTraits: Sdk.TakerTraits.default(),
+            amount: 100n
+        })
+
+        expect(sent).toEqual([`deploySrc ${CHAIN_ID} 0xsig`])
+        expect(escrow).toEqual({
+            chain: 'evm',
+            side: 'src',
+            address: new Sdk.EscrowFactory(new Sdk.Address(ESCROW_FACTORY))
+                .getSrcEscrowAddress(immutables, SRC_IMPL)
+                .toString(),
+            txHash: '0xtx1',
+            immutables
+        })
+    })
+
+    it('should deploy the destination escrow at the block time and verify it', async () => {
+        const escrow = await adapter.createEscrow({side: 'dst', immutables})
+        const deployed = immutables.withDeployedAt(DEPLOYED_AT)
+        const address = new Sdk.EscrowFactory(new Sdk.Address(ESCROW_FACTORY)).getEscrowAddress(
+            deployed.hash(),
+            DST_IMPL
+        )
+
+        expect(escrow).toMatchObject({chain: 'evm', side: 'dst', address: address.toString(), txHash: '0xtx1'})
+        expect(escrow.immutables?.hash()).toBe(deployed.hash())
+        expect(verified).toEqual([['0xblock', address, immutables.hashLock]])
+    })
+
+    it('should settle the escrow on the side it was deployed on', async () => {
+        const escrow: EscrowHandle = {chain: 'evm', side: 'src', address: ESCROW, txHash: '0xdeploy', immutables}
+
+        await expect(adapter.withdraw(escrow, '0xsecret')).resolves.toBe('0xtx1')
+        await expect(adapter.cancel(escrow)).resolves.toBe('0xtx2')
+        await expect(adapter.publicWithdraw(escrow, '0xsecret')).resolves.toBe('0xtx3')
+        await expect(adapter.publicCancel(escrow)).resolves.toBe('0xtx4')
+
+        expect(sent).toEqual([
+            `withdraw src ${escrow.address} 0xsecret`,
+            `cancel src ${escrow.address}`,
+            `publicWithdraw src ${escrow.address} 0xsecret`,
+            `publicCancel src ${escrow.address}`
+        ])
+    })
+
+    it('should refuse to publicly cancel a destination escrow', async () => {
+        const escrow: EscrowHandle = {chain: 'evm', side: 'dst', address: ESCROW, txHash: '0xdeploy', immutables}
+
+        await expect(adapter.publicCancel(escrow)).rejects.toThrow('has no public cancellation')
+        expect(sent).toEqual([])
+    })
+
+    it('should not send a transaction without the immutables of the escrow', async () => {
+        const escrow: EscrowHandle = {chain: 'evm', side: 'src', address: ESCROW, txHash: '0xdeploy'}
+
+        await expect(adapter.withdraw(escrow, '0xsecret')).rejects.toThrow('immutables of escrow')
+        await expect(adapter.cancel(escrow)).rejects.toThrow('immutables of escrow')
+        expect(sent).toEqual([])
+    })
+
+    it('should read native and token balances and the block time', async () => {
+        await expect(adapter.getBalance('0xowner', '0x' + '00'.repeat(20))).resolves.toBe(3n)
+        await expect(adapter.getBalance('0xowner', '0x' + '55'.repeat(20))).resolves.toBe(7n)
+        await expect(adapter.now()).resolves.toBe(1_234n)
+    })
+})
@@ -0,0 +1,136 @@
+import Sdk from '@1inch/cross-chain-sdk'
+import {ChainAdapter, EscrowHandle} from './adapter'
+import {Wallet} from '../wallet'
+import {Resolver} from '../resolver'
+import {EscrowFactory} from '../escrow-factory'
+
+const {Address} = Sdk
+
+export type EvmEscrowParams =
+    | {
+          side: 'src'
+          order: Sdk.CrossChainOrder
+          signature: string
+          takerTraits: Sdk.TakerTraits
+          amount: bigint
+          hashLock?: Sdk.HashLock
+      }
+    | {
+          side: 'dst'
+          /**
+           * Immutables from SrcEscrowCreated event with complement applied
+           */
+          immutables: Sdk.Immutables
+      }
+
+export class EvmAdapter implements ChainAdapter<EvmEscrowParams> {
+    public readonly kind = 'evm'
+
+    constructor(
+        public readonly chainId: number,
+        private readonly resolver: Wallet,
+        private readonly resolverContract: Resolver,
+        private readonly factory: EscrowFactory,
+        private readonly escrowFactory: string,
+        private readonly confirmations = 1
+    ) {}
+
+    public async createEscrow(params: EvmEscrowParams): Promise<EscrowHandle> {
+        const sdkFactory = new Sdk.EscrowFactory(new Address(this.escrowFactory))
+
+        if (params.side === 'src') {
+            const {txHash, blockHash} = await this.resolver.send(
+                this.resolverContract.deploySrc(
+                    this.chainId,
+                    params.order,
+                    params.signature,
+                    params.takerTraits,
+                    params.amount,
+                    params.hashLock
+                )
+            )
+            const {immutables} = await this.factory.getSrcDeployEvent(
+                blockHash,
+                params.order.getOrderHash(this.chainId),
+                params.hashLock
+            )
+            const address = sdkFactory.getSrcEscrowAddress(immutables, await this.factory.getSourceImpl())
+
+            return {chain: this.kind, side: 'src', address: address.toString(), txHash, immutables}
+        }
+
+        const {txHash, blockHash, blockTimestamp} = await this.resolver.send(
+            this.resolverContract.deployDst(params.immutables)
+        )
+        const immutables = params.immutables.withDeployedAt(blockTimestamp)
+        const address = sdkFactory.getEscrowAddress(immutables.hash(), await this.factory.getDestinationImpl())
+        await this.factory.verifyDstEscrow(blockHash, address, immutables.hashLock)
+
+        return {chain: this.kind, side: 'dst', address: address.toString(), txHash, immutables}
+    }
+
+    public async withdraw(escrow: EscrowHandle, secret: string): Promise<string> {
+        const {txHash} = await this.resolver.send(
+            this.resolverContract.withdraw(escrow.side, new Address(escrow.address), secret, this.immutablesOf(escrow))
+        )
+
+        return txHash
+    }
+
+    public async cancel(escrow: EscrowHandle): Promise<string> {
+        const {txHash} = await this.resolver.send(
+            this.resolverContract.cancel(escrow.side, new Address(escrow.address), this.immutablesOf(escrow))
+        )
+
+        return txHash
+    }
+
+    public async publicWithdraw(escrow: EscrowHandle, secret: string): Promise<string> {
+        const {txHash} = await this.resolver.send(
+            this.resolverContract.publicWithdraw(
+                escrow.side,
+                new Address(escrow.address),
+                secret,
+                this.immutablesOf(escrow)
+            )
+        )
+
+        return txHash
+    }
+
+    public async publicCancel(escrow: EscrowHandle): Promise<string> {
+        if (escrow.side !== 'src') {
+            throw new Error(`destination escrow ${escrow.address} has no public cancellation`)
+        }
+
+        const {txHash} = await this.resolver.send(
+            this.resolverContract.publicCancel(escrow.side, new Address(escrow.address), this.immutablesOf(escrow))
+        )
+
+        return txHash
+    }
+
+    public async getBalance(owner: string, token: string): Promise<bigint> {
+        if (BigInt(token) === 0n) {
+            return this.resolver.provider.getBalance(owner)
+        }
+
+        return this.resolver.tokenBalanceOf(token, owner)
+    }
+
+    public async now(): Promise<bigint> {
+        return BigInt((await this.resolver.provider.getBlock('latest'))!.timestamp)
+    }
+
+    public async waitForFinality(txHash: string): Promise<void> {
+        await this.resolver.provider.waitForTransaction(txHash, this.confirmations)
+    }
+
+    private immutablesOf(escrow: EscrowHandle): Sdk.Immutables {
+        if (!escrow.immutables) {
+            throw new Error(`immutables of escrow ${escrow.address} are unknown`)
+        }
+
+        return escrow.immutables
+    }
+}
@@ -1,38 +1,572 @@
 import {z} from 'zod'
 import Sdk from '@1inch/cross-chain-sdk'
 import * as process from 'node:process'
+import {readFileSync} from 'node:fs'
+
+type Env = Record<string, string | undefined>
+
+const evmAddress = z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'expected a 20 bytes hex address')
+
+const aptosAddress = z.string().regex(/^0x[0-9a-fA-F]{1,64}$/, 'expected an Aptos account address')
 
 const bool = z
     .string()
     .transform((v) => v.toLowerCase() === 'true')
     .pipe(z.boolean())
 
-const ConfigSchema = z.object({
-    SRC_CHAIN_RPC: z.string().url(),
-    DST_CHAIN_RPC: z.string().url(),
-    SRC_CHAIN_CREATE_FORK: bool.default('true'),
-    DST_CHAIN_CREATE_FORK: bool.default('true')
+/**
+ * Private key given inline or read from an environment variable, `default` is used when the variable is not set
+ */
+const KeySourceSchema = z.union([
+    z.object({privateKey: z.string().min(1)}).strict(),
+    z.object({env: z.string().min(1), default: z.string().min(1).optional()}).strict()
+])
+
+type KeySource = z.infer<typeof KeySourceSchema>
+
+const EvmChainSchema = z.object({
+    chainId: z.number().int().positive(),
+    url: z.string().url(),
+    createFork: z.boolean(),
+    limitOrderProtocol: evmAddress,
+    wrappedNative: evmAddress,
+    owner: KeySourceSchema,
+    /**
+     * Already deployed contracts, deployed on start when omitted
+     */
+    escrowFactory: evmAddress.optional(),
+    resolver: evmAddress.optional(),
+    tokens: z.record(
+        z.object({
+            address: evmAddress,
+            /**
+             * Holder the test accounts are topped up from
+             */
+            donor: evmAddress.optional()
+        })
+    )
+})
+
+const AptosChainSchema = z
+    .object({
+        network: z.enum(['testnet', 'devnet', 'local', 'movement', 'custom']),
+        /**
+         * REST endpoint of the fullnode, required for `custom`, overrides the default of the other networks
+         */
+        nodeUrl: z.string().url().optional(),
+        faucetUrl: z.string().url().optional(),
+        apiKey: z.string().optional(),
+        /**
+         * Chain id used in cross chain orders, derived from the network unless it is `custom`
+         */
+        chainId: z.number().int().positive().optional(),
+        packages: z.object({
+            fusion: aptosAddress,
+            usdt: aptosAddress
+        })
+    })
+    .refine((aptos) => aptos.network !== 'custom' || aptos.nodeUrl !== undefined, {
+        message: 'nodeUrl is required when network is custom',
+        path: ['nodeUrl']
+    })
+
+const AptosAccountSchema = z.object({
+    address: aptosAddress,
+    key: KeySourceSchema
 })
 
-const fromEnv = ConfigSchema.parse(process.env)
+const TokenMappingSchema = z.object({
+    symbol: z.string().min(1),
+    evm: z.object({
+        chainId: z.number().int().positive(),
+        address: evmAddress,
+        decimals: z.number().int().min(0)
+    }),
+    aptos: z.object({
+        symbol: z.string().min(1),
+        decimals: z.number().int().min(0),
+        /**
+         * Fungible asset metadata object, resolved from the deployed package when omitted
+         */
+        metadata: aptosAddress.optional()
+    })
+})
+
+const ProfileSchema = z.enum(['local', 'testnet', 'mainnet-fork'])
+
+export const ConfigSchema = z.object({
+    profile: ProfileSchema,
+    chain: z.object({
+        evm: z
+            .record(EvmChainSchema)
+            .refine((chains) => Object.keys(chains).length > 0, 'at least one EVM chain is required')
+            .superRefine((chains, ctx) => {
+                const seen = new Map<number, string>()
+
+                for (const [name, chain] of Object.entries(chains)) {
+                    const other = seen.get(chain.chainId)
+
+                    if (other) {
+                        ctx.addIssue({
+                            code: z.ZodIssueCode.custom,
+                            message: `chain id ${chain.chainId} is already used by ${other}`,
+                            path: [name, 'chainId']
+                        })
+                    }
+
+                    seen.set(chain.chainId, name)
+                }
+            }),
+        aptos: AptosChainSchema
+    }),
+    accounts: z.object({
+        evm: z.object({
+            user: KeySourceSchema,
+            resolver: KeySourceSchema
+        }),
+        aptos: z.object({
+            fusion: AptosAccountSchema,
+            usdt: AptosAccountSchema,
+            user: AptosAccountSchema,
+            resolver: AptosAccountSchema
+        })
+    }),
+    tokens: z.array(TokenMappingSchema)
+})
+
+export type Profile = z.infer<typeof ProfileSchema>
+
+type AptosAccountConfig = {
+    address: string
+    privateKey: string
+}
+
+/**
+ * Validated config with every key source resolved to its private key
+ */
+export type Config = {
+    profile: Profile
+    chain: {
+        evm: Record<string, Omit<z.infer<typeof EvmChainSchema>, 'owner'> & {name: string; ownerPrivateKey: string}>
+        aptos: z.infer<typeof AptosChainSchema>
+    }
+    accounts: {
+        evm: {
+            user: string
+            resolver: string
+        }
+        aptos: Record<keyof z.infer<typeof ConfigSchema>['accounts']['aptos'], AptosAccountConfig>
+    }
+    tokens: z.infer<typeof TokenMappingSchema>[]
+}
+
+type EnvOverrides = Record<string, {path: string; parse?: z.ZodType}>
+
+/**
+ * Environment variables overriding a single config field, `<NAME>_CHAIN_RPC` and `<NAME>_CHAIN_CREATE_FORK`
+ * exist for every configured EVM chain, e.g. `ETHEREUM_CHAIN_RPC`
+ */
+function envOverrides(evmChains: string[]): EnvOverrides {
+    const overrides: EnvOverrides = {
+        APTOS_NETWORK: {path: 'chain.aptos.network'},
+        APTOS_NODE_URL: {path: 'chain.aptos.nodeUrl'},
+        APTOS_FAUCET_URL: {path: 'chain.aptos.faucetUrl'},
+        APTOS_API_KEY: {path: 'chain.aptos.apiKey'},
+        APTOS_FUSION_PACKAGE: {path: 'chain.aptos.packages.fusion'},
+        APTOS_USDT_PACKAGE: {path: 'chain.aptos.packages.usdt'}
+    }
+
+    for (const name of evmChains) {
+        const prefix = name.toUpperCase().replace(/[^A-Z0-9]/g, '_')
+
+        overrides[`${prefix}_CHAIN_RPC`] = {path: `chain.evm.${name}.url`}
+        overrides[`${prefix}_CHAIN_CREATE_FORK`] = {path: `chain.evm.${name}.createFork`, parse: bool}
+    }
+
+    return overrides
+}
+
+const SEPOLIA_CHAIN_ID = 11155111 // not one of the SDK networks
+
+const EVM_DEFAULTS = {
+    createFork: true,
+    owner: {privateKey: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80'}
+}
+
+/**
+ * Known EVM chains, selected with `EVM_CHAINS` (comma separated names).
+ *
+ * The arbitrum, base and polygon presets have no USDC donor, forks of them need `tokens.USDC.donor` in the config
+ * file to fund the test accounts. Sepolia has no 1inch deployment, `limitOrderProtocol` must be configured.
+ */
+const EVM_PRESETS: Record<string, object> = {
+    ethereum: {
+        chainId: Sdk.NetworkEnum.ETHEREUM,
+        limitOrderProtocol: '0x111111125421ca6dc452d289314280a0f8842a65',
+        wrappedNative: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2',
+        tokens: {
+            USDC: {
+                address: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+                donor: '0xd54F23BE482D9A58676590fCa79c8E43087f92fB'
+            }
+        }
+    },
+    bsc: {
+        chainId: Sdk.NetworkEnum.BINANCE,
+        limitOrderProtocol: '0x111111125421ca6dc452d289314280a0f8842a65',
+        wrappedNative: '0xbb4cdb9cbd36b01bd1cbaebf2de08d9173bc095c',
+        tokens: {
+            USDC: {
+                address: '0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d',
+                donor: '0x4188663a85C92EEa35b5AD3AA5cA7CeB237C6fe9'
+            }
+        }
+    },
+    arbitrum: {
+        chainId: Sdk.NetworkEnum.ARBITRUM,
+        limitOrderProtocol: '0x111111125421ca6dc452d289314280a0f8842a65',
+        wrappedNative: '0x82af49447d8a07e3bd95bd0d56f35241523fbab1',
+        tokens: {
+            USDC: {address: '0xaf88d065e77c8cc2239327c5edb3a432268e5831'}
+        }
+    },
+    base: {
+        chainId: Sdk.NetworkEnum.COINBASE,
+        limitOrderProtocol: '0x111111125421ca6dc452d289314280a0f8842a65',
+        wrappedNative: '0x4200000000000000000000000000000000000006',
+        tokens: {
+            USDC: {address: '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913'}
+        }
+    },
+    polygon: {
+        chainId: Sdk.NetworkEnum.POLYGON,
+        limitOrderProtocol: '0x111111125421ca6dc452d289314280a0f8842a65',
+        wrappedNative: '0x0d500b1d8e8ef31e21c99d1db9a6444d3adf1270',
+        tokens: {
+            USDC: {address: '0x3c499c542cef5e3811e1192ce70d8cc03d5c3359'}
+        }
+    },
+    sepolia: {
+        chainId: SEPOLIA_CHAIN_ID,
+        url: 'https://ethereum-sepolia-rpc.publicnode.com',
+        createFork: false,
+        wrappedNative: '0xfff9976782d46cc05630d1f6ebab18b2324d6b14',
+        tokens: {
+            USDC: {address: '0x1c7d4b196cb0c7b01d743fbc6116a902379c7238'}
+        }
+    }
+}
+
+const FUSION_ADDRESS = '0x160df7d8e10750b56b86779cc8f400ad4145fad6cfd1a16dfb532c07302bcf8b'
+const USDT_ADDRESS = '0xa21b820d1b61280cc272d38d55a99df1f440febf7b72709e5927e49afd006b96'
 
-export const config = {
+const base = {
     chain: {
+        aptos: {
+            network: 'testnet',
+            apiKey: 'aptoslabs_K2CVa5cSJ11_AE5Nfy4iAPR8YWq2cviMshnDsD7AQHeE3',
+            packages: {fusion: FUSION_ADDRESS, usdt: USDT_ADDRESS}
+        }
+    },
+    accounts: {
         evm: {
-            chainId: Sdk.NetworkEnum.ETHEREUM,
-            url: fromEnv.SRC_CHAIN_RPC,
-            createFork: fromEnv.SRC_CHAIN_CREATE_FORK,
-            limitOrderProtocol: '0x111111125421ca6dc452d289314280a0f8842a65',
-            wrappedNative: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2',
-            ownerPrivateKey: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
-            tokens: {
-                USDC: {
-                    address: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
-                    donor: '0xd54F23BE482D9A58676590fCa79c8E43087f92fB'
+            user: {
+                env: 'EVM_USER_PRIVATE_KEY',
+                default: '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d'
+            },
+            resolver: {
+                env: 'EVM_RESOLVER_PRIVATE_KEY',
+                default: '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a'
+            }
+        },
+        aptos: {
+            fusion: {
+                address: FUSION_ADDRESS,
+                key: {
+                    env: 'APTOS_FUSION_PRIVATE_KEY',
+                    default: 'ed25519-priv-0xb2ff597cbff60622a6984341f91a732399eb2e08cc9e9a29b4621c36eb537cd8'
+                }
+            },
+            usdt: {
+                address: USDT_ADDRESS,
+                key: {
+                    env: 'APTOS_USDT_PRIVATE_KEY',
+                    default: 'ed25519-priv-0xadf44a11ae912a9a811a784627f709f7b0d31c7328fe8795840140c6595c4536'
+                }
+            },
+            user: {
+                address: '0x8a4a02a3a707fdf7f81ee9ece1e02db3aa1888c6283a12f4abf9d81cc8275a60',
+                key: {
+                    env: 'APTOS_USER_PRIVATE_KEY',
+                    default: 'ed25519-priv-0x13e2b05956b9297849c722bff496bc2a068a709b685fc758234a23a8bddfea95'
+                }
+            },
+            resolver: {
+                address: '0x55bb788452c5b9489c13c39a67e3588b068b4ae69141de7d250aa0c6b1160842',
+                key: {
+                    env: 'APTOS_RESOLVER_PRIVATE_KEY',
+                    default: 'ed25519-priv-0x141d138b003e1049f285eb2e05ec18f537d8fb61e5bc873263b688b1dd85f10c'
                 }
             }
         }
+    },
+    tokens: [
+        {
+            symbol: 'USDC',
+            evm: {
+                chainId: Sdk.NetworkEnum.ETHEREUM,
+                address: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+                decimals: 6
+            },
+            aptos: {symbol: 'USDT', decimals: 6}
+        }
+    ]
+}
+
+type ProfileDefaults = {
+    /**
+     * EVM chains used when `EVM_CHAINS` is not set, patches applied on top of the preset of the same name
+     */
+    evm: Record<string, object>
+    overrides?: object
+}
+
+/**
+ * Defaults of each profile, the config file and the environment are applied on top
+ *
+ * - `mainnet-fork`: EVM mainnet forked with anvil, Aptos testnet
+ * - `local`: anvil fork on localhost:8545 and an Aptos local node, both started by the user
+ * - `testnet`: Sepolia and Aptos testnet, the limit order protocol and funded accounts must be configured
+ */
+const PROFILES: Record<Profile, ProfileDefaults> = {
+    'mainnet-fork': {evm: {ethereum: {}}},
+    local: {
+        evm: {ethereum: {url: 'http://127.0.0.1:8545', createFork: false}},
+        overrides: {chain: {aptos: {network: 'local'}}}
+    },
+    testnet: {
+        evm: {sepolia: {}},
+        overrides: {
+            tokens: [
+                {
+                    symbol: 'USDC',
+                    evm: {
+                        chainId: SEPOLIA_CHAIN_ID,
+                        address: '0x1c7d4b196cb0c7b01d743fbc6116a902379c7238',
+                        decimals: 6
+                    },
+                    aptos: {symbol: 'USDT', decimals: 6}
+                }
+            ]
+        }
+    }
+}
+
+/**
+ * Build the config from the selected profile, the optional `CONFIG_FILE` (JSON) and the environment, in that order
+ */
+export function loadConfig(env: Env = process.env): Config {
+    const file = env.CONFIG_FILE ? readConfigFile(env.CONFIG_FILE) : {}
+    const profile = ProfileSchema.safeParse(env.CONFIG_PROFILE ?? file.profile ?? 'mainnet-fork')
+
+    if (!profile.success) {
+        throw new Error(
+            `Invalid configuration: unknown profile "${env.CONFIG_PROFILE ?? file.profile}", expected one of ${ProfileSchema.options.join(', ')}`
+        )
+    }
+
+    const defaults = PROFILES[profile.data]
+    const selected = env.EVM_CHAINS
+        ? env.EVM_CHAINS.split(',').map((name) => name.trim().toLowerCase())
+        : Object.keys(defaults.evm)
+
+    const fileChains = isObject(file.chain) && isObject(file.chain.evm) ? file.chain.evm : {}
+
+    const evm = Object.fromEntries(
+        selected.map((name) => {
+            const preset = EVM_PRESETS[name]
+
+            if (!preset && !defaults.evm[name] && !fileChains[name]) {
+                throw new Error(
+                    `Invalid configuration: unknown EVM chain "${name}", expected one of ${Object.keys(EVM_PRESETS).join(', ')} or a chain defined in CONFIG_FILE`
+                )
+            }
+
+            return [name, merge(preset ? {...EVM_DEFAULTS, ...preset} : {}, defaults.evm[name] ?? {})]
+        })
+    )
+
+    const withChains = merge(base, defaults.overrides ?? {}, {chain: {evm}}, file)
+    const overrides = envOverrides(Object.keys((withChains.chain as {evm: object}).evm))
+    const raw = merge(withChains, fromEnv(env, overrides), {profile: profile.data})
+    const parsed = ConfigSchema.safeParse(raw)
+
+    if (!parsed.success) {
+        throw new Error(
+            `Invalid configuration for profile "${profile.data}"${env.CONFIG_FILE ? ` (${env.CONFIG_FILE})` : ''}:\n` +
+                formatIssues(parsed.error, overrides)
+        )
+    }
+
+    return resolveKeys(parsed.data, env)
+}
+
+let loaded: Config | undefined
+
+/**
+ * Config of the process environment, loaded on first use so modules not reading it work without one
+ */
+export function getConfig(): Config {
+    loaded ??= loadConfig()
+
+    return loaded
+}
+
+export type ChainConfig = Config['chain']['evm'][string]
+
+/**
+ * Configuration of the EVM chain with the given id
+ */
+export function getEvmChain(chainId: number, cnf: Config = getConfig()): ChainConfig {
+    const chain = Object.values(cnf.chain.evm).find((c) => c.chainId === chainId)
+
+    if (!chain) {
+        throw new Error(`EVM chain ${chainId} is not configured, configured chains: ${Object.keys(cnf.chain.evm)}`)
+    }
+
+    return chain
+}
+
+export type AptosChainConfig = Config['chain']['aptos']
+
+export type TokenMapping = Config['tokens'][number]
+
+function readConfigFile(path: string): Record<string, unknown> {
+    let content: string
+
+    try {
+        content = readFileSync(path, 'utf8')
+    } catch (error) {
+        throw new Error(`Invalid configuration: cannot read config file ${path}: ${error}`)
+    }
+
+    try {
+        return JSON.parse(content)
+    } catch (error) {
+        throw new Error(`Invalid configuration: config file ${path} is not valid JSON: ${error}`)
+    }
+}
+
+function fromEnv(env: Env, overrides: EnvOverrides): object {
+    const result = {}
+
+    for (const [name, {path, parse}] of Object.entries(overrides)) {
+        const value = env[name]
+
+        if (value === undefined || value === '') {
+            continue
+        }
+
+        const parsed = parse ? parse.safeParse(value) : {success: true as const, data: value}
+
+        if (!parsed.success) {
+            throw new Error(`Invalid configuration: ${name}=${value} is not a valid value for ${path}`)
+        }
+
+        setPath(result, path, parsed.data)
+    }
+
+    return result
+}
+
+function resolveKeys(cnf: z.infer<typeof ConfigSchema>, env: Env): Config {
+    const key = (source: KeySource, path: string): string => {
+        if ('privateKey' in source) {
+            return source.privateKey
+        }
+
+        const value = env[source.env] || source.default
+
+        if (!value) {
+            throw new Error(`Invalid configuration: ${path} is read from ${source.env} which is not set`)
+        }
+
+        return value
+    }
+
+    const aptosAccount = (name: keyof typeof cnf.accounts.aptos): AptosAccountConfig => ({
+        address: cnf.accounts.aptos[name].address,
+        privateKey: key(cnf.accounts.aptos[name].key, `accounts.aptos.${name}.key`)
+    })
+
+    const evm = Object.fromEntries(
+        Object.entries(cnf.chain.evm).map(([name, {owner, ...chain}]) => [
+            name,
+            {...chain, name, ownerPrivateKey: key(owner, `chain.evm.${name}.owner`)}
+        ])
+    )
+
+    return {
+        profile: cnf.profile,
+        chain: {
+            evm,
+            aptos: cnf.chain.aptos
+        },
+        accounts: {
+            evm: {
+                user: key(cnf.accounts.evm.user, 'accounts.evm.user'),
+                resolver: key(cnf.accounts.evm.resolver, 'accounts.evm.resolver')
+            },
+            aptos: {
+                fusion: aptosAccount('fusion'),
+                usdt: aptosAccount('usdt'),
+                user: aptosAccount('user'),
+                resolver: aptosAccount('resolver')
+            }
+        },
+        tokens: cnf.tokens
+    }
+}
+
+function formatIssues(error: z.ZodError, overrides: EnvOverrides): string {
+    return error.issues
+        .map((issue) => {
+            const path = issue.path.join('.')
+            const envName = Object.keys(overrides).find((name) => overrides[name].path === path)
+            const hint = envName ? ` (set ${envName})` : issue.message === 'Required' ? ' (set it in CONFIG_FILE)' : ''
+
+            return `  ${path}: ${issue.message}${hint}`
+        })
+        .join('\n')
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Deep merge of plain objects, arrays and other values are replaced
+ */
+function merge(...sources: object[]): Record<string, unknown> {
+    const result: Record<string, unknown> = {}
+
+    for (const source of sources) {
+        for (const [key, value] of Object.entries(source)) {
+            result[key] = isObject(value) && isObject(result[key]) ? merge(result[key] as object, value) : value
+        }
+    }
+
+    return result
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+    const keys = path.split('.')
+    let node = target
+
+    for (const key of keys.slice(0, -1)) {
+        node[key] = isObject(node[key]) ? node[key] : {}
+        node = node[key] as Record<string, unknown>
     }
-} as const
 
-export type ChainConfig = (typeof config.chain)['evm']
+    node[keys.at(-1)!] = value
+}
@@ -0,0 +1,205 @@
+import {expect} from '@jest/globals'
+import Sdk from '@1inch/cross-chain-sdk'
+import {Interface, JsonRpcProvider, Log} from 'ethers'
+
+import {EscrowFactory} from './escrow-factory'
+import {IMMUTABLES, Resolver} from './resolver'
+
+const FACTORY = '0x' + '77'.repeat(20)
+const RESOLVER = '0x' + '66'.repeat(20)
+
+// the resolver deploys with the immutables of the source escrow, the factory sets the time of the block
+const SRC_DEPLOYED_AT = 900n
+const DEPLOYED_AT = 1_000n
+
+const factoryIface = new Interface([
+    'event DstEscrowCreated(address escrow, bytes32 hashlock, uint256 taker)',
+    `function createDstEscrow(${IMMUTABLES} dstImmutables, uint256 srcCancellationTimestamp)`,
+    // takes the arguments of the deploy calls under another selector
+    `function rescueDst(${IMMUTABLES} dstImmutables, uint256 amount)`
+])
+
+function immutables(orderHash: string, hashLock: string): Sdk.Immutables {
+    return Sdk.Immutables.new({
+        orderHash,
+        hashLock: Sdk.HashLock.fromString(hashLock),
+        maker: new Sdk.Address('0x' + '33'.repeat(20)),
+        taker: new Sdk.Address('0x' + '44'.repeat(20)),
+        token: new Sdk.Address('0x' + '55'.repeat(20)),
+        amount: 100n,
+        safetyDeposit: 7n,
+        timeLocks: Sdk.TimeLocks.new({
+            srcWithdrawal: 10n,
+            srcPublicWithdrawal: 20n,
+            srcCancellation: 30n,
+            srcPublicCancellation: 40n,
+            dstWithdrawal: 10n,
+            dstPublicWithdrawal: 20n,
+            dstCancellation: 30n
+        }).setDeployedAt(SRC_DEPLOYED_AT)
+    })
+}
+
+/**
+ * Destination escrows deployed through the factory: their `DstEscrowCreated` logs and deploy transactions
+ */
+class FakeChain {
+    public readonly logs: Log[] = []
+
+    public readonly txs = new Map<string, string>()
+
+    public readonly provider = {
+        getLogs: async (filter: {fromBlock?: number; toBlock?: number | 'latest'; blockHash?: string}) =>
+            this.logs.filter((l) =>
+                filter.blockHash !== undefined
+                    ? l.blockHash === filter.blockHash
+                    : l.blockNumber >= filter.fromBlock! &&
+                      (filter.toBlock === 'latest' || l.blockNumber <= filter.toBlock!)
+            ),
+        getBlock: async () => ({timestamp: Number(DEPLOYED_AT)}),
+        getTransaction: async (hash: string) => (this.txs.has(hash) ? {data: this.txs.get(hash)} : null)
+    } as unknown as JsonRpcProvider
+
+    public deploy(blockNumber: number, escrow: string, deployed: Sdk.Immutables, data: string): void {
+        const txHash = `0x${blockNumber.toString(16)}${this.logs.length}`
+        const {topics, data: logData} = factoryIface.encodeEventLog('DstEscrowCreated', [
+            escrow,
+            deployed.hashLock.toString(),
+            BigInt(deployed.taker.toString())
+        ])
+
+        this.txs.set(txHash, data)
+        this.logs.push({
+            blockNumber,
+            blockHash: `0xblock${blockNumber}`,
+            transactionHash: txHash,
+            index: this.logs.length,
+            topics,
+            data: logData
+        } as unknown as Log)
+    }
+}
+
+function createDstEscrow(deployed: Sdk.Immutables): string {
+    return factoryIface.encodeFunctionData('createDstEscrow', [deployed.build(), 0n])
+}
+
+function deployDst(deployed: Sdk.Immutables): string {
+    return new Resolver(RESOLVER, RESOLVER).deployDst(deployed).data as string
+}
+
+describe('EscrowFactory', () => {
+    const orderHash = '0x' + 'ab'.repeat(32)
+    const otherOrderHash = '0x' + 'cd'.repeat(32)
+    const hashLock = '0x' + '11'.repeat(32)
+    const otherHashLock = '0x' + '22'.repeat(32)
+    const escrow = '0x' + 'e1'.repeat(20)
+    const otherEscrow = '0x' + 'e2'.repeat(20)
+
+    let chain: FakeChain
+    let factory: EscrowFactory
+
+    beforeEach(() => {
+        chain = new FakeChain()
+        factory = new EscrowFactory(chain.provider, FACTORY)
+    })
+
+    describe('findDstEscrow', () => {
+        it('should find the escrow of an order from the calldata of the factory or the resolver', async () => {
+            chain.deploy(10, escrow, immutables(orderHash, hashLock), createDstEscrow(immutables(orderHash, hashLock)))
+            chain.deploy(
+                11,
+                otherEscrow,
+                immutables(otherOrderHash, otherHashLock),
+                deployDst(immutables(otherOrderHash, otherHashLock))
+            )
+
+            expect(
+                await factory.findDstEscrow({orderHash: orderHash.toUpperCase().replace('0X', '0x')}, 0)
+            ).toMatchObject({
+                escrow: new Sdk.Address(escrow),
+                orderHash,
+                deployedAt: DEPLOYED_AT
+            })
+            expect(await factory.findDstEscrow({orderHash: otherOrderHash}, 0)).toMatchObject({
+                escrow: new Sdk.Address(otherEscrow),
+                orderHash: otherOrderHash
+            })
+        })
+
+        it('should find the latest escrow locking the hashlock without reading the calldata', async () => {
+            chain.deploy(10, escrow, immutables(orderHash, hashLock), '0x')
+            chain.deploy(11, otherEscrow, immutables(orderHash, hashLock), '0x')
+
+            expect((await factory.findDstEscrow({hashLock}, 0))?.escrow).toEqual(new Sdk.Address(otherEscrow))
+            expect(await factory.findDstEscrow({hashLock: otherHashLock}, 0)).toBeUndefined()
+        })
+
+        it('should only scan the blocks from the given one', async () => {
+            chain.deploy(10, escrow, immutables(orderHash, hashLock), createDstEscrow(immutables(orderHash, hashLock)))
+
+            expect(await factory.findDstEscrow({orderHash}, 11)).toBeUndefined()
+            expect(await factory.findDstEscrow({hashLock}, 0, 9)).toBeUndefined()
+        })
+
+        it('should not trust calldata of other calls taking the same arguments', async () => {
+            const deployed = immutables(orderHash, hashLock)
+
+            chain.deploy(10, escrow, deployed, factoryIface.encodeFunctionData('rescueDst', [deployed.build(), 0n]))
+
+            expect(await factory.findDstEscrow({orderHash}, 0)).toBeUndefined()
+        })
+
+        it('should not take the order hash of another escrow deployed by the transaction', async () => {
+            chain.deploy(
+                10,
+                escrow,
+                immutables(orderHash, otherHashLock),
+                createDstEscrow(immutables(orderHash, hashLock))
+            )
+
+            expect(await factory.findDstEscrow({orderHash}, 0)).toBeUndefined()
+        })
+    })
+
+    it('should read the immutables of the escrow with the deployment time of its block', async () => {
+        const deployed = immutables(orderHash, hashLock)
+        chain.deploy(10, escrow, deployed, deployDst(deployed))
+
+        const [event] = await factory.getDstDeployEvents(0, 'latest')
+
+        expect((await factory.getDstImmutables(event))?.toJSON()).toEqual(deployed.withDeployedAt(DEPLOYED_AT).toJSON())
+    })
+
+    describe('verifyDstEscrow', () => {
+        beforeEach(() => {
+            chain.deploy(10, escrow, immutables(orderHash, hashLock), '0x')
+            chain.deploy(10, otherEscrow, immutables(orderHash, otherHashLock), '0x')
+        })
+
+        it('should return the event of the escrow deployed at the expected address', async () => {
+            expect(
+                await factory.verifyDstEscrow('0xblock10', new Sdk.Address(otherEscrow), otherHashLock)
+            ).toMatchObject({
+                escrow: new Sdk.Address(otherEscrow),
+                blockNumber: 10,
+                deployedAt: DEPLOYED_AT
+            })
+        })
+
+        it('should throw when the escrow of the hashlock is elsewhere', async () => {
+            await expect(factory.verifyDstEscrow('0xblock10', new Sdk.Address(otherEscrow), hashLock)).rejects.toThrow(
+                `escrow for hashlock ${hashLock} was deployed at ${escrow}, not at ${otherEscrow}`
+            )
+        })
+
+        it('should throw when no escrow of the block locks the hashlock', async () => {
+            await expect(
+                factory.verifyDstEscrow('0xblock10', new Sdk.Address(escrow), '0x' + '33'.repeat(32))
+            ).rejects.toThrow('no DstEscrowCreated event for hashlock')
+            await expect(factory.verifyDstEscrow('0xblock11', new Sdk.Address(escrow), hashLock)).rejects.toThrow(
+                'in block 0xblock11'
+            )
+        })
+    })
+})
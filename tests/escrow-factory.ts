@@ -1,10 +1,58 @@
-import {id, Interface, JsonRpcProvider} from 'ethers'
+import {id, Interface, JsonRpcProvider, Log, Result} from 'ethers'
 import Sdk from '@1inch/cross-chain-sdk'
+import {IMMUTABLES} from './resolver'
 import EscrowFactoryContract from '../dist/contracts/EscrowFactory.sol/EscrowFactory.json'
 
+/**
+ * Position of a decoded log on chain
+ */
+export type LogPosition = {
+    blockNumber: number
+    blockHash: string
+    txHash: string
+    logIndex: number
+}
+
+export type SrcDeployEvent = LogPosition & {
+    immutables: Sdk.Immutables
+    complement: Sdk.DstImmutablesComplement
+}
+
+export type DstDeployEvent = LogPosition & {
+    escrow: Sdk.Address
+    hashLock: Sdk.HashLock
+    taker: Sdk.Address
+    /**
+     * Timestamp of the deployment block, the `deployedAt` of the escrow timelocks
+     */
+    deployedAt: bigint
+}
+
+/**
+ * Destination escrow found in the factory logs, the order hash is only known when looked up by it
+ */
+export type DstEscrowRecord = DstDeployEvent & {
+    orderHash?: string
+}
+
+export type DstEscrowLookup = {orderHash: string} | {hashLock: string}
+
+/**
+ * Blocks to read the logs of, a range or a single block
+ */
+export type BlockFilter = {fromBlock: number; toBlock: number | 'latest'} | {blockHash: string}
+
 export class EscrowFactory {
     private iface = new Interface(EscrowFactoryContract.abi)
 
+    /**
+     * Calls deploying a destination escrow, both take the `(Immutables, uint256)` arguments
+     */
+    private readonly dstDeployCalls = new Interface([
+        `function createDstEscrow(${IMMUTABLES} dstImmutables, uint256 srcCancellationTimestamp)`,
+        `function deployDst(${IMMUTABLES} dstImmutables, uint256 srcCancellationTimestamp)`
+    ])
+
     constructor(
         private readonly provider: JsonRpcProvider,
         private readonly address: string
@@ -32,36 +80,225 @@ export class EscrowFactory {
         )
     }
 
-    public async getSrcDeployEvent(blockHash: string): Promise<[Sdk.Immutables, Sdk.DstImmutablesComplement]> {
-        const event = this.iface.getEvent('SrcEscrowCreated')!
+    /**
+     * SrcEscrowCreated event of the order in the block, the one locking `hashLock` when several fills of the order
+     * were deployed in it
+     */
+    public async getSrcDeployEvent(
+        blockHash: string,
+        orderHash: string,
+        hashLock?: Sdk.HashLock | string
+    ): Promise<SrcDeployEvent> {
+        const event = (await this.getSrcDeployEvents({blockHash})).find(
+            ({immutables}) =>
+                immutables.orderHash.toLowerCase() === orderHash.toLowerCase() &&
+                (hashLock === undefined ||
+                    immutables.hashLock.toString().toLowerCase() === hashLock.toString().toLowerCase())
+        )
+
+        if (!event) {
+            throw new Error(
+                `no SrcEscrowCreated event for order ${orderHash}${hashLock ? ` and hashlock ${hashLock}` : ''} in block ${blockHash}`
+            )
+        }
+
+        return event
+    }
+
+    /**
+     * Every SrcEscrowCreated event of the blocks, in chain order
+     */
+    public async getSrcDeployEvents(blocks: BlockFilter): Promise<SrcDeployEvent[]> {
+        const logs = await this.provider.getLogs({
+            ...blocks,
+            address: this.address,
+            topics: [this.iface.getEvent('SrcEscrowCreated')!.topicHash]
+        })
+
+        return logs.map((l) => this.decodeSrcDeploy(l))
+    }
+
+    /**
+     * Every DstEscrowCreated event in the block range, in chain order
+     */
+    public async getDstDeployEvents(fromBlock: number, toBlock: number | 'latest'): Promise<DstDeployEvent[]> {
+        const logs = await this.provider.getLogs({
+            fromBlock,
+            toBlock,
+            address: this.address,
+            topics: [this.iface.getEvent('DstEscrowCreated')!.topicHash]
+        })
+
+        return this.decodeDstDeploys(logs)
+    }
+
+    /**
+     * DstEscrowCreated event of the block, the one locking `hashLock` when several escrows were deployed in it
+     */
+    public async getDstDeployEvent(blockHash: string, hashLock?: Sdk.HashLock | string): Promise<DstDeployEvent> {
         const logs = await this.provider.getLogs({
             blockHash,
             address: this.address,
-            topics: [event.topicHash]
+            topics: [this.iface.getEvent('DstEscrowCreated')!.topicHash]
         })
+        const events = await this.decodeDstDeploys(logs)
+        const event =
+            hashLock === undefined
+                ? events.at(0)
+                : events.find((e) => e.hashLock.toString().toLowerCase() === hashLock.toString().toLowerCase())
+
+        if (!event) {
+            throw new Error(
+                `no DstEscrowCreated event${hashLock ? ` for hashlock ${hashLock}` : ''} in block ${blockHash}`
+            )
+        }
+
+        return event
+    }
+
+    /**
+     * Throw unless the escrow deployed in the block for the hashlock is at the locally computed address
+     */
+    public async verifyDstEscrow(
+        blockHash: string,
+        expected: Sdk.Address,
+        hashLock: Sdk.HashLock | string
+    ): Promise<DstDeployEvent> {
+        const event = await this.getDstDeployEvent(blockHash, hashLock)
+
+        if (event.escrow.toString().toLowerCase() !== expected.toString().toLowerCase()) {
+            throw new Error(`escrow for hashlock ${hashLock} was deployed at ${event.escrow}, not at ${expected}`)
+        }
+
+        return event
+    }
+
+    /**
+     * Latest destination escrow deployed for the order or locking the hashlock.
+     *
+     * `DstEscrowCreated` does not carry the order hash, it is read from the immutables in the calldata of the
+     * deploy transaction, which the factory's `createDstEscrow` and the resolver's `deployDst` encode the same way.
+     * `fromBlock` bounds the scan, usually the block the order was signed or its source escrow deployed at.
+     */
+    public async findDstEscrow(
+        lookup: DstEscrowLookup,
+        fromBlock: number,
+        toBlock: number | 'latest' = 'latest'
+    ): Promise<DstEscrowRecord | undefined> {
+        const events = (await this.getDstDeployEvents(fromBlock, toBlock)).reverse()
+
+        if ('hashLock' in lookup) {
+            return events.find((e) => e.hashLock.toString().toLowerCase() === lookup.hashLock.toLowerCase())
+        }
+
+        for (const event of events) {
+            const orderHash = await this.getDstOrderHash(event)
+
+            if (orderHash === lookup.orderHash.toLowerCase()) {
+                return {...event, orderHash}
+            }
+        }
+
+        return undefined
+    }
+
+    /**
+     * Immutables of a destination escrow as deployed, read from the calldata of its deploy transaction like its
+     * order hash. Undefined when the transaction is not a `createDstEscrow` or `deployDst` call for the escrow.
+     */
+    public async getDstImmutables(event: DstDeployEvent): Promise<Sdk.Immutables | undefined> {
+        const tx = await this.provider.getTransaction(event.txHash)
+
+        if (!tx) {
+            return undefined
+        }
+
+        try {
+            // other calls may take the same arguments, only trust the calldata of a known deploy call
+            const call = this.dstDeployCalls.parseTransaction({data: tx.data})
+
+            if (!call) {
+                return undefined
+            }
+
+            const [immutables] = call.args
 
-        const [data] = logs.map((l) => this.iface.decodeEventLog(event, l.data))
+            // the calldata may deploy other escrows, only trust it for the one of the event
+            if (immutables[1].toLowerCase() !== event.hashLock.toString().toLowerCase()) {
+                return undefined
+            }
+
+            // the factory deploys the escrow with the block timestamp, not the one of the calldata
+            return decodeImmutables(immutables).withDeployedAt(event.deployedAt)
+        } catch {
+            // calldata of a deploy call that does not decode
+            return undefined
+        }
+    }
+
+    private async getDstOrderHash(event: DstDeployEvent): Promise<string | undefined> {
+        return (await this.getDstImmutables(event))?.orderHash.toLowerCase()
+    }
+
+    private async decodeDstDeploys(logs: Log[]): Promise<DstDeployEvent[]> {
+        const event = this.iface.getEvent('DstEscrowCreated')!
+        const timestamps = new Map<string, bigint>()
+        const events: DstDeployEvent[] = []
+
+        for (const log of logs) {
+            const [escrow, hashLock, taker] = this.iface.decodeEventLog(event, log.data, log.topics)
+
+            if (!timestamps.has(log.blockHash)) {
+                timestamps.set(log.blockHash, BigInt((await this.provider.getBlock(log.blockHash))!.timestamp))
+            }
+
+            events.push({
+                ...positionOf(log),
+                escrow: new Sdk.Address(escrow),
+                hashLock: Sdk.HashLock.fromString(hashLock),
+                taker: Sdk.Address.fromBigInt(taker),
+                deployedAt: timestamps.get(log.blockHash)!
+            })
+        }
+
+        return events
+    }
+
+    private decodeSrcDeploy(log: Log): SrcDeployEvent {
+        const data = this.iface.decodeEventLog(this.iface.getEvent('SrcEscrowCreated')!, log.data)
 
         const immutables = data.at(0)
         const complement = data.at(1)
 
-        return [
-            Sdk.Immutables.new({
-                orderHash: immutables[0],
-                hashLock: Sdk.HashLock.fromString(immutables[1]),
-                maker: Sdk.Address.fromBigInt(immutables[2]),
-                taker: Sdk.Address.fromBigInt(immutables[3]),
-                token: Sdk.Address.fromBigInt(immutables[4]),
-                amount: immutables[5],
-                safetyDeposit: immutables[6],
-                timeLocks: Sdk.TimeLocks.fromBigInt(immutables[7])
-            }),
-            Sdk.DstImmutablesComplement.new({
+        return {
+            ...positionOf(log),
+            immutables: decodeImmutables(immutables),
+            complement: Sdk.DstImmutablesComplement.new({
                 maker: Sdk.Address.fromBigInt(complement[0]),
                 amount: complement[1],
                 token: Sdk.Address.fromBigInt(complement[2]),
                 safetyDeposit: complement[3]
             })
-        ]
+        }
     }
 }
+
+/**
+ * Immutables as encoded in the events and calldata of the factory
+ */
+function decodeImmutables(immutables: Result): Sdk.Immutables {
+    return Sdk.Immutables.new({
+        orderHash: immutables[0],
+        hashLock: Sdk.HashLock.fromString(immutables[1]),
+        maker: Sdk.Address.fromBigInt(immutables[2]),
+        taker: Sdk.Address.fromBigInt(immutables[3]),
+        token: Sdk.Address.fromBigInt(immutables[4]),
+        amount: immutables[5],
+        safetyDeposit: immutables[6],
+        timeLocks: Sdk.TimeLocks.fromBigInt(immutables[7])
+    })
+}
+
+function positionOf(log: Log): LogPosition {
+    return {blockNumber: log.blockNumber, blockHash: log.blockHash, txHash: log.transactionHash, logIndex: log.index}
+}
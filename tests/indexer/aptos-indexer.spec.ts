@@ -0,0 +1,217 @@
+import {expect} from '@jest/globals'
+import {Aptos, GetEventsResponse} from '@aptos-labs/ts-sdk'
+import {mkdtemp} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+
+import {AptosEventIndexer, AptosIndexStore, openAptosIndexStore} from './aptos-indexer'
+import {EscrowHelper} from '../aptos/helpers/escrow'
+import {Escrow} from '../aptos/models'
+
+const FUSION = '0xf'
+
+const ORDER_HASH = '0x' + 'AB'.repeat(32)
+const HASH_LOCK = '0x' + 'CD'.repeat(32)
+
+type EventData = Record<string, unknown>
+
+/**
+ * Module events of the fusion package as the client pages them
+ */
+class FakeClient {
+    public readonly events = new Map<string, EventData[]>()
+
+    public readonly requests: {eventType: string; offset: number}[] = []
+
+    private version = 0
+
+    public emit(name: string, data: EventData): void {
+        const eventType = `${FUSION}::${name}`
+
+        this.events.set(eventType, [...(this.events.get(eventType) ?? []), {...data, version: ++this.version}])
+    }
+
+    public async getModuleEventsByEventType(args: {
+        eventType: string
+        options: {offset: number; limit: number}
+    }): Promise<GetEventsResponse> {
+        const {eventType, options} = args
+        this.requests.push({eventType, offset: options.offset})
+
+        const page = (this.events.get(eventType) ?? []).slice(options.offset, options.offset + options.limit)
+
+        return page.map(({version, ...data}) => ({
+            transaction_version: version,
+            type: eventType,
+            data
+        })) as unknown as GetEventsResponse
+    }
+}
+
+describe('AptosEventIndexer', () => {
+    let dir: string
+    let client: FakeClient
+    let store: AptosIndexStore
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'aptos-indexer-spec-'))
+        client = new FakeClient()
+        store = await openAptosIndexStore(dir)
+    })
+
+    function indexer(escrow?: EscrowHelper): AptosEventIndexer {
+        return new AptosEventIndexer(client as unknown as Aptos, FUSION, store, escrow)
+    }
+
+    it('should index the objects of every kind and the closing of escrows', async () => {
+        client.emit('fusion_order::FusionOrderCreatedEvent', {
+            fusion_order: {inner: '0xA'},
+            order_hash: ORDER_HASH,
+            maker: '0xM'
+        })
+        client.emit('dutch_auction::DutchAuctionCreatedEvent', {auction: {inner: '0xB'}, order_hash: ORDER_HASH})
+        client.emit('escrow::EscrowCreatedEvent', {
+            escrow: {inner: '0xC'},
+            order_hash: ORDER_HASH,
+            maker: '0xM',
+            taker: '0xT',
+            hash: HASH_LOCK
+        })
+        client.emit('escrow::EscrowCreatedEvent', {
+            escrow: {inner: '0xD'},
+            order_hash: ORDER_HASH,
+            maker: '0xM',
+            taker: '0xT',
+            hashlock: HASH_LOCK
+        })
+        client.emit('escrow::EscrowWithdrawnEvent', {escrow: {inner: '0xC'}})
+        client.emit('escrow::EscrowRecoveredEvent', {escrow: '0xD'})
+
+        expect(await indexer().sync()).toBe(6)
+
+        expect(store.find({kind: 'fusion-order'})).toEqual([
+            {
+                kind: 'fusion-order',
+                address: '0xa',
+                status: 'created',
+                orderHash: ORDER_HASH.toLowerCase(),
+                maker: '0xm',
+                createdVersion: '1'
+            }
+        ])
+        expect(store.find({kind: 'auction', orderHash: ORDER_HASH})).toHaveLength(1)
+        expect(store.find({kind: 'escrow'})).toEqual([
+            {
+                kind: 'escrow',
+                address: '0xc',
+                status: 'withdrawn',
+                orderHash: ORDER_HASH.toLowerCase(),
+                maker: '0xm',
+                taker: '0xt',
+                hashLock: HASH_LOCK.toLowerCase(),
+                createdVersion: '3',
+                closedVersion: '5'
+            },
+            expect.objectContaining({address: '0xd', status: 'cancelled', hashLock: HASH_LOCK.toLowerCase()})
+        ])
+    })
+
+    it('should page through the events and keep a cursor per event type', async () => {
+        for (let i = 0; i < 150; i++) {
+            client.emit('dutch_auction::DutchAuctionCreatedEvent', {auction: {inner: `0x${i.toString(16)}`}})
+        }
+
+        client.emit('escrow::EscrowCreatedEvent', {escrow: {inner: '0xe'}, hash: HASH_LOCK})
+
+        expect(await indexer().sync()).toBe(151)
+        expect(store.find({kind: 'auction'})).toHaveLength(150)
+        expect(store.cursor).toEqual({
+            [`${FUSION}::fusion_order::FusionOrderCreatedEvent`]: 0,
+            [`${FUSION}::dutch_auction::DutchAuctionCreatedEvent`]: 150,
+            [`${FUSION}::escrow::EscrowCreatedEvent`]: 1,
+            [`${FUSION}::escrow::EscrowWithdrawnEvent`]: 0,
+            [`${FUSION}::escrow::EscrowRecoveredEvent`]: 0
+        })
+        expect(
+            client.requests.filter((r) => r.eventType.endsWith('DutchAuctionCreatedEvent')).map((r) => r.offset)
+        ).toEqual([0, 100])
+    })
+
+    it('should resume after a restart from the persisted cursor', async () => {
+        client.emit('escrow::EscrowCreatedEvent', {escrow: {inner: '0xc'}, hash: HASH_LOCK})
+        await indexer().sync()
+
+        client.emit('escrow::EscrowWithdrawnEvent', {escrow: {inner: '0xc'}})
+        client.requests.length = 0
+
+        store = await openAptosIndexStore(dir)
+
+        expect(await indexer().sync()).toBe(1)
+        expect(client.requests).toContainEqual({eventType: `${FUSION}::escrow::EscrowCreatedEvent`, offset: 1})
+        expect(store.get('escrow:0xc')).toMatchObject({status: 'withdrawn', hashLock: HASH_LOCK.toLowerCase()})
+    })
+
+    it('should not duplicate nor reopen the objects of replayed events', async () => {
+        client.emit('escrow::EscrowCreatedEvent', {escrow: {inner: '0xc'}, hash: HASH_LOCK})
+        client.emit('escrow::EscrowWithdrawnEvent', {escrow: {inner: '0xc'}})
+        await indexer().sync()
+
+        // records were saved but the process died before advancing the cursor
+        await store.advance({})
+        await indexer().sync()
+
+        const reopened = await openAptosIndexStore(dir)
+
+        expect(reopened.find()).toEqual([
+            expect.objectContaining({address: '0xc', status: 'withdrawn', createdVersion: '1', closedVersion: '2'})
+        ])
+    })
+
+    it('should read the fields missing from a creation event from the escrow views', async () => {
+        const escrow = {
+            getEscrow: async (address: string) => {
+                if (address === '0xd') {
+                    throw new Error('escrow does not exist')
+                }
+
+                return {
+                    orderHash: ORDER_HASH,
+                    maker: '0xM',
+                    taker: {inner: '0xT'},
+                    hash: HASH_LOCK
+                } as unknown as Escrow
+            }
+        } as unknown as EscrowHelper
+
+        client.emit('escrow::EscrowCreatedEvent', {escrow: {inner: '0xc'}, maker: '0xOther'})
+        client.emit('escrow::EscrowCreatedEvent', {escrow: {inner: '0xd'}})
+        await indexer(escrow).sync()
+
+        expect(store.get('escrow:0xc')).toMatchObject({
+            orderHash: ORDER_HASH.toLowerCase(),
+            maker: '0xother',
+            taker: '0xt',
+            hashLock: HASH_LOCK.toLowerCase()
+        })
+        // already closed, its closing event tells how
+        expect(store.get('escrow:0xd')).toEqual({
+            kind: 'escrow',
+            address: '0xd',
+            status: 'created',
+            createdVersion: '2'
+        })
+    })
+
+    it('should close an escrow whose creation it has not seen', async () => {
+        client.emit('escrow::EscrowRecoveredEvent', {escrow: {inner: '0xc'}})
+        await indexer().sync()
+
+        expect(store.get('escrow:0xc')).toEqual({
+            kind: 'escrow',
+            address: '0xc',
+            status: 'cancelled',
+            createdVersion: '1',
+            closedVersion: '1'
+        })
+    })
+})
@@ -0,0 +1,208 @@
+import {Aptos, GetEventsResponse} from '@aptos-labs/ts-sdk'
+import {IndexStore} from './store'
+import {EscrowHelper} from '../aptos/helpers/escrow'
+
+export type AptosObjectKind = 'fusion-order' | 'auction' | 'escrow'
+
+export type AptosRecordStatus = 'created' | 'withdrawn' | 'cancelled'
+
+/**
+ * Object created by the fusion package, whoever created it
+ */
+export type AptosRecord = {
+    kind: AptosObjectKind
+    address: string
+    status: AptosRecordStatus
+    orderHash?: string
+    maker?: string
+    taker?: string
+    hashLock?: string
+    /**
+     * Transaction versions, Aptos events are not indexed with their transaction hash
+     */
+    createdVersion: string
+    closedVersion?: string
+}
+
+/**
+ * Events consumed so far, per event type
+ */
+export type AptosCursor = Record<string, number>
+
+type IndexedEvent = GetEventsResponse[number]
+
+type EventHandler = (event: IndexedEvent) => Promise<void>
+
+const PAGE_SIZE = 100
+
+export type AptosIndexStore = IndexStore<AptosRecord, AptosCursor>
+
+export function openAptosIndexStore(dir: string): Promise<AptosIndexStore> {
+    return IndexStore.open<AptosRecord, AptosCursor>(dir, 'aptos', (r) => keyOf(r.kind, r.address), {})
+}
+
+/**
+ * Indexes the fusion orders, Dutch auctions and escrows of the fusion package from its module events, including
+ * the ones created by other parties, and follows escrows until they are withdrawn or cancelled.
+ *
+ * Event types are paged in order, creations before closings, so an escrow is known before it closes. Fields
+ * missing from a creation event are read from the escrow views while the escrow still exists.
+ */
+export class AptosEventIndexer {
+    private readonly handlers: [string, EventHandler][]
+
+    constructor(
+        private readonly client: Aptos,
+        private readonly fusionAddress: string,
+        public readonly store: AptosIndexStore,
+        private readonly escrow?: EscrowHelper
+    ) {
+        this.handlers = [
+            [
+                'fusion_order::FusionOrderCreatedEvent',
+                (e): Promise<void> => this.onCreated('fusion-order', e, e.data.fusion_order)
+            ],
+            [
+                'dutch_auction::DutchAuctionCreatedEvent',
+                (e): Promise<void> => this.onCreated('auction', e, e.data.auction)
+            ],
+            ['escrow::EscrowCreatedEvent', (e): Promise<void> => this.onCreated('escrow', e, e.data.escrow)],
+            // emitted by `router::escrow_withdraw` and `router::escrow_recovery`
+            ['escrow::EscrowWithdrawnEvent', (e): Promise<void> => this.onClosed('withdrawn', e)],
+            ['escrow::EscrowRecoveredEvent', (e): Promise<void> => this.onClosed('cancelled', e)]
+        ]
+    }
+
+    /**
+     * Index every event emitted since the last sync, returns how many were indexed
+     */
+    public async sync(): Promise<number> {
+        let indexed = 0
+
+        for (const [name, handler] of this.handlers) {
+            const eventType = `${this.fusionAddress}::${name}` as `${string}::${string}::${string}`
+
+            for (;;) {
+                const offset = this.store.cursor[eventType] ?? 0
+                const events = await this.client.getModuleEventsByEventType({
+                    eventType,
+                    options: {
+                        offset,
+                        limit: PAGE_SIZE,
+                        orderBy: [{transaction_version: 'asc'}, {event_index: 'asc'}]
+                    }
+                })
+
+                for (const event of events) {
+                    await handler(event)
+                }
+
+                await this.store.advance({...this.store.cursor, [eventType]: offset + events.length})
+                indexed += events.length
+
+                if (events.length < PAGE_SIZE) {
+                    break
+                }
+            }
+        }
+
+        return indexed
+    }
+
+    /**
+     * Sync until the timeout
+     */
+    public async run(pollIntervalMs = 5000, timeoutMs = 10 * 60 * 1000): Promise<void> {
+        const deadline = Date.now() + timeoutMs
+
+        while (Date.now() < deadline) {
+            await this.sync()
+            await new Promise((resolve) => setTimeout(resolve, pollIntervalMs))
+        }
+    }
+
+    private async onCreated(kind: AptosObjectKind, event: IndexedEvent, object: unknown): Promise<void> {
+        const address = addressOf(object)
+
+        if (!address) {
+            console.log(`[APT]`, `${kind} created in version ${event.transaction_version} without an address`)
+
+            return
+        }
+
+        // replayed after a crash between saving the record and advancing the cursor
+        if (this.store.get(keyOf(kind, address))) {
+            return
+        }
+
+        const {data} = event
+        const record: AptosRecord = {
+            kind,
+            address,
+            status: 'created',
+            orderHash: hexOf(data.order_hash),
+            maker: addressOf(data.maker),
+            taker: addressOf(data.taker),
+            hashLock: hexOf(data.hash ?? data.hashlock),
+            createdVersion: String(event.transaction_version)
+        }
+
+        await this.store.save(kind === 'escrow' ? await this.withEscrowViews(record) : record)
+    }
+
+    private async onClosed(status: AptosRecordStatus, event: IndexedEvent): Promise<void> {
+        const address = addressOf(event.data.escrow)
+
+        if (!address) {
+            return
+        }
+
+        const known = this.store.get(keyOf('escrow', address))
+
+        await this.store.save({
+            ...(known ?? {kind: 'escrow', address, createdVersion: String(event.transaction_version)}),
+            status,
+            closedVersion: String(event.transaction_version)
+        })
+    }
+
+    private async withEscrowViews(record: AptosRecord): Promise<AptosRecord> {
+        if (!this.escrow || (record.orderHash && record.maker && record.taker && record.hashLock)) {
+            return record
+        }
+
+        try {
+            const escrow = await this.escrow.getEscrow(record.address)
+
+            return {
+                ...record,
+                orderHash: record.orderHash ?? hexOf(escrow.orderHash),
+                maker: record.maker ?? addressOf(escrow.maker),
+                taker: record.taker ?? addressOf(escrow.taker),
+                hashLock: record.hashLock ?? hexOf(escrow.hash)
+            }
+        } catch {
+            // the escrow is already closed, its closing event follows
+            return record
+        }
+    }
+}
+
+/**
+ * Address of an `Object<T>` or plain address field
+ */
+function addressOf(value: unknown): string | undefined {
+    if (typeof value === 'object' && value !== null && 'inner' in value) {
+        return addressOf(value.inner)
+    }
+
+    return typeof value === 'string' ? value.toLowerCase() : undefined
+}
+
+function hexOf(value: unknown): string | undefined {
+    return typeof value === 'string' ? value.toLowerCase() : undefined
+}
+
+function keyOf(kind: AptosObjectKind, address: string): string {
+    return `${kind}:${address.toLowerCase()}`
+}
@@ -0,0 +1,252 @@
+import {expect} from '@jest/globals'
+import Sdk from '@1inch/cross-chain-sdk'
+import {Interface, JsonRpcProvider, Log} from 'ethers'
+import {mkdtemp} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+
+import {EvmIndexStore, EvmLogIndexer, EvmLogIndexerOptions, openEvmIndexStore} from './evm-indexer'
+import {DstDeployEvent, EscrowFactory, SrcDeployEvent} from '../escrow-factory'
+
+const ESCROW_FACTORY = '0x' + '77'.repeat(20)
+const SRC_IMPL = new Sdk.Address('0x' + '88'.repeat(20))
+
+const SECRET = '0x' + '11'.repeat(32)
+
+const escrowIface = new Interface(['event Withdrawal(bytes32 secret)', 'event EscrowCancelled()'])
+
+function immutables(salt: number): Sdk.Immutables {
+    return Sdk.Immutables.new({
+        orderHash: '0x' + salt.toString(16).padStart(64, '0'),
+        hashLock: Sdk.HashLock.fromString('0x' + 'cd'.repeat(32)),
+        maker: new Sdk.Address('0x' + '33'.repeat(20)),
+        taker: new Sdk.Address('0x' + '44'.repeat(20)),
+        token: new Sdk.Address('0x' + '55'.repeat(20)),
+        amount: 100n,
+        safetyDeposit: 7n,
+        timeLocks: Sdk.TimeLocks.new({
+            srcWithdrawal: 10n,
+            srcPublicWithdrawal: 20n,
+            srcCancellation: 30n,
+            srcPublicCancellation: 40n,
+            dstWithdrawal: 10n,
+            dstPublicWithdrawal: 20n,
+            dstCancellation: 30n
+        })
+    })
+}
+
+function srcAddress(immutables: Sdk.Immutables): string {
+    return new Sdk.EscrowFactory(new Sdk.Address(ESCROW_FACTORY))
+        .getSrcEscrowAddress(immutables, SRC_IMPL)
+        .toString()
+        .toLowerCase()
+}
+
+/**
+ * Chain of the factory: its deploy events and the logs of its escrows, by block
+ */
+class FakeChain {
+    public head = 0
+
+    public srcEvents: SrcDeployEvent[] = []
+
+    public dstEvents: DstDeployEvent[] = []
+
+    public logs: Log[] = []
+
+    public readonly ranges: [number, number][] = []
+
+    public readonly provider = {
+        getBlockNumber: async () => this.head,
+        getLogs: async (filter: {fromBlock: number; toBlock: number}) =>
+            this.logs.filter((l) => this.inRange(l.blockNumber, filter.fromBlock, filter.toBlock))
+    } as unknown as JsonRpcProvider
+
+    public readonly factory = {
+        getSourceImpl: async () => SRC_IMPL,
+        getSrcDeployEvents: async (range: {fromBlock: number; toBlock: number}) => {
+            this.ranges.push([range.fromBlock, range.toBlock])
+
+            return this.srcEvents.filter((e) => this.inRange(e.blockNumber, range.fromBlock, range.toBlock))
+        },
+        getDstDeployEvents: async (fromBlock: number, toBlock: number) =>
+            this.dstEvents.filter((e) => this.inRange(e.blockNumber, fromBlock, toBlock))
+    } as unknown as EscrowFactory
+
+    public deploySrc(blockNumber: number, salt: number): string {
+        const deployed = immutables(salt)
+        this.srcEvents.push({
+            blockNumber,
+            blockHash: '0xblock',
+            logIndex: this.srcEvents.length,
+            txHash: `0xsrc${salt}`,
+            immutables: deployed,
+            complement: {} as Sdk.DstImmutablesComplement
+        })
+
+        return srcAddress(deployed)
+    }
+
+    public deployDst(blockNumber: number, escrow: string): void {
+        const deployed = immutables(0)
+        this.dstEvents.push({
+            blockNumber,
+            blockHash: '0xblock',
+            logIndex: this.dstEvents.length,
+            txHash: `0xdst${blockNumber}`,
+            escrow: new Sdk.Address(escrow),
+            hashLock: deployed.hashLock,
+            taker: deployed.taker,
+            deployedAt: 1_000n
+        })
+    }
+
+    public close(blockNumber: number, escrow: string, event: 'Withdrawal' | 'EscrowCancelled'): void {
+        const {data, topics} = escrowIface.encodeEventLog(event, event === 'Withdrawal' ? [SECRET] : [])
+        this.logs.push({
+            blockNumber,
+            address: escrow,
+            data,
+            topics,
+            transactionHash: `0x${event}${blockNumber}`
+        } as unknown as Log)
+    }
+
+    private inRange(block: number, fromBlock: number, toBlock: number): boolean {
+        return block >= fromBlock && block <= toBlock
+    }
+}
+
+describe('EvmLogIndexer', () => {
+    let dir: string
+    let chain: FakeChain
+    let store: EvmIndexStore
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'evm-indexer-spec-'))
+        chain = new FakeChain()
+        store = await openEvmIndexStore(dir, 5)
+    })
+
+    function indexer(options?: EvmLogIndexerOptions): EvmLogIndexer {
+        return new EvmLogIndexer(chain.provider, chain.factory, ESCROW_FACTORY, store, options)
+    }
+
+    it('should index every escrow of the block ranges from the start block', async () => {
+        const first = chain.deploySrc(12, 1)
+        const second = chain.deploySrc(12, 2)
+        chain.deploySrc(4, 3)
+        chain.deployDst(20, '0x' + 'dd'.repeat(20))
+        chain.head = 25
+
+        expect(await indexer({batchSize: 10}).sync()).toBe(3)
+
+        expect(chain.ranges).toEqual([
+            [5, 14],
+            [15, 24],
+            [25, 25]
+        ])
+        expect(store.cursor).toEqual({nextBlock: 26})
+        expect(store.find({side: 'src'}).map((r) => r.address)).toEqual([first, second])
+        expect(store.get(first)).toMatchObject({
+            status: 'created',
+            orderHash: immutables(1).orderHash,
+            hashLock: '0x' + 'cd'.repeat(32),
+            taker: '0x' + '44'.repeat(20),
+            deployTx: '0xsrc1',
+            deployBlock: 12
+        })
+        expect(store.get('0x' + 'dd'.repeat(20))).toMatchObject({side: 'dst', status: 'created', deployBlock: 20})
+    })
+
+    it('should close the indexed escrows from their own logs', async () => {
+        const withdrawn = chain.deploySrc(6, 1)
+        const cancelled = chain.deploySrc(6, 2)
+        chain.close(7, withdrawn, 'Withdrawal')
+        chain.close(8, cancelled, 'EscrowCancelled')
+        // not an escrow of the factory
+        chain.close(8, '0x' + 'ee'.repeat(20), 'EscrowCancelled')
+        // an escrow is closed only once
+        chain.close(9, withdrawn, 'EscrowCancelled')
+        chain.head = 10
+
+        expect(await indexer().sync()).toBe(4)
+
+        expect(store.get(withdrawn)).toMatchObject({status: 'withdrawn', secret: SECRET, closedTx: '0xWithdrawal7'})
+        expect(store.get(cancelled)).toMatchObject({status: 'cancelled', closedTx: '0xEscrowCancelled8'})
+        expect(store.get('0x' + 'ee'.repeat(20))).toBeUndefined()
+    })
+
+    it('should index the creation and closing of an escrow in the same block', async () => {
+        const escrow = chain.deploySrc(6, 1)
+        chain.close(6, escrow, 'Withdrawal')
+        chain.head = 6
+
+        await indexer().sync()
+
+        expect(store.get(escrow)).toMatchObject({status: 'withdrawn', secret: SECRET})
+    })
+
+    it('should stay behind the head by the confirmations so reorged logs are not indexed', async () => {
+        const kept = chain.deploySrc(18, 1)
+        // mined in a block the chain reorgs before it is confirmed
+        chain.deploySrc(22, 2)
+        chain.head = 25
+
+        await indexer({confirmations: 5}).sync()
+
+        expect(store.cursor).toEqual({nextBlock: 21})
+        expect(store.find().map((r) => r.address)).toEqual([kept])
+
+        chain.srcEvents = chain.srcEvents.filter((e) => e.blockNumber !== 22)
+        chain.head = 30
+        await indexer({confirmations: 5}).sync()
+
+        expect(store.cursor).toEqual({nextBlock: 26})
+        expect(store.find().map((r) => r.address)).toEqual([kept])
+    })
+
+    it('should do nothing until the head passes the cursor', async () => {
+        chain.head = 4
+
+        expect(await indexer().sync()).toBe(0)
+        expect(chain.ranges).toEqual([])
+        expect(store.cursor).toEqual({nextBlock: 5})
+    })
+
+    it('should resume after a restart from the persisted cursor', async () => {
+        const first = chain.deploySrc(6, 1)
+        chain.head = 10
+        await indexer().sync()
+
+        const second = chain.deploySrc(12, 2)
+        chain.close(13, first, 'Withdrawal')
+        chain.head = 15
+
+        store = await openEvmIndexStore(dir, 5)
+
+        expect(await indexer().sync()).toBe(2)
+        expect(chain.ranges).toEqual([
+            [5, 10],
+            [11, 15]
+        ])
+        expect(store.get(first)?.status).toBe('withdrawn')
+        expect(store.get(second)?.status).toBe('created')
+    })
+
+    it('should not duplicate nor reopen the escrows of a replayed range', async () => {
+        const escrow = chain.deploySrc(6, 1)
+        chain.close(7, escrow, 'Withdrawal')
+        chain.head = 10
+        await indexer().sync()
+
+        // records were saved but the process died before advancing the cursor
+        await store.advance({nextBlock: 5})
+
+        expect(await indexer().sync()).toBe(0)
+        expect((await openEvmIndexStore(dir, 5)).find()).toEqual([
+            expect.objectContaining({address: escrow, status: 'withdrawn'})
+        ])
+    })
+})
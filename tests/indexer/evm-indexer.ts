@@ -0,0 +1,217 @@
+import Sdk from '@1inch/cross-chain-sdk'
+import {Interface, JsonRpcProvider} from 'ethers'
+import {AptosIndexStore, AptosRecord} from './aptos-indexer'
+import {IndexStore} from './store'
+import {EscrowFactory} from '../escrow-factory'
+import {SerializedImmutables, serializeImmutables} from '../swap/journal'
+
+export type EvmRecordStatus = 'created' | 'withdrawn' | 'cancelled'
+
+/**
+ * Escrow deployed by the factory, whoever deployed it
+ */
+export type EvmRecord = {
+    side: 'src' | 'dst'
+    address: string
+    status: EvmRecordStatus
+    hashLock: string
+    taker: string
+    /**
+     * Source escrows only, `DstEscrowCreated` carries neither the order hash nor the immutables
+     */
+    orderHash?: string
+    maker?: string
+    immutables?: SerializedImmutables
+    deployTx: string
+    deployBlock: number
+    closedTx?: string
+    /**
+     * Secret revealed by the withdrawal
+     */
+    secret?: string
+}
+
+export type EvmCursor = {
+    nextBlock: number
+}
+
+export type EvmIndexStore = IndexStore<EvmRecord, EvmCursor>
+
+export type EvmLogIndexerOptions = {
+    /**
+     * Blocks per `eth_getLogs` call, 1000 by default
+     */
+    batchSize?: number
+    /**
+     * Blocks to stay behind the head so reorged logs are not indexed, 0 by default
+     */
+    confirmations?: number
+}
+
+export function openEvmIndexStore(dir: string, fromBlock = 0): Promise<EvmIndexStore> {
+    return IndexStore.open<EvmRecord, EvmCursor>(dir, 'evm', (r) => r.address.toLowerCase(), {nextBlock: fromBlock})
+}
+
+/**
+ * Indexes the escrows of the factory over block ranges, from their deployment until they are withdrawn or
+ * cancelled. Every escrow of a block is indexed, not only the first one.
+ *
+ * Escrow events are emitted by the escrow clones themselves, so they are read for the whole range and kept
+ * when their emitter is an indexed escrow. Creations of a range are indexed before its closings.
+ */
+export class EvmLogIndexer {
+    private readonly escrowIface = new Interface(['event Withdrawal(bytes32 secret)', 'event EscrowCancelled()'])
+
+    private readonly batchSize: number
+
+    private readonly confirmations: number
+
+    private srcImpl?: Sdk.Address
+
+    constructor(
+        private readonly provider: JsonRpcProvider,
+        private readonly factory: EscrowFactory,
+        private readonly escrowFactory: string,
+        public readonly store: EvmIndexStore,
+        options: EvmLogIndexerOptions = {}
+    ) {
+        this.batchSize = options.batchSize ?? 1000
+        this.confirmations = options.confirmations ?? 0
+    }
+
+    /**
+     * Index every block up to the head, returns how many records were saved
+     */
+    public async sync(): Promise<number> {
+        const head = (await this.provider.getBlockNumber()) - this.confirmations
+        let saved = 0
+
+        while (this.store.cursor.nextBlock <= head) {
+            const fromBlock = this.store.cursor.nextBlock
+            const toBlock = Math.min(fromBlock + this.batchSize - 1, head)
+
+            saved += await this.indexCreations(fromBlock, toBlock)
+            saved += await this.indexClosings(fromBlock, toBlock)
+
+            await this.store.advance({nextBlock: toBlock + 1})
+        }
+
+        return saved
+    }
+
+    /**
+     * Sync until the timeout
+     */
+    public async run(pollIntervalMs = 5000, timeoutMs = 10 * 60 * 1000): Promise<void> {
+        const deadline = Date.now() + timeoutMs
+
+        while (Date.now() < deadline) {
+            await this.sync()
+            await new Promise((resolve) => setTimeout(resolve, pollIntervalMs))
+        }
+    }
+
+    private async indexCreations(fromBlock: number, toBlock: number): Promise<number> {
+        const records: EvmRecord[] = []
+
+        for (const event of await this.factory.getSrcDeployEvents({fromBlock, toBlock})) {
+            const {immutables} = event
+            const address = new Sdk.EscrowFactory(new Sdk.Address(this.escrowFactory))
+                .getSrcEscrowAddress(immutables, await this.getSrcImpl())
+                .toString()
+
+            records.push({
+                side: 'src',
+                address: address.toLowerCase(),
+                status: 'created',
+                hashLock: immutables.hashLock.toString().toLowerCase(),
+                taker: immutables.taker.toString().toLowerCase(),
+                orderHash: immutables.orderHash.toLowerCase(),
+                maker: immutables.maker.toString().toLowerCase(),
+                immutables: serializeImmutables(immutables),
+                deployTx: event.txHash,
+                deployBlock: event.blockNumber
+            })
+        }
+
+        for (const event of await this.factory.getDstDeployEvents(fromBlock, toBlock)) {
+            records.push({
+                side: 'dst',
+                address: event.escrow.toString().toLowerCase(),
+                status: 'created',
+                hashLock: event.hashLock.toString().toLowerCase(),
+                taker: event.taker.toString().toLowerCase(),
+                deployTx: event.txHash,
+                deployBlock: event.blockNumber
+            })
+        }
+
+        const fresh = records.filter((r) => !this.store.get(r.address))
+
+        for (const record of fresh) {
+            await this.store.save(record)
+        }
+
+        return fresh.length
+    }
+
+    private async indexClosings(fromBlock: number, toBlock: number): Promise<number> {
+        const withdrawal = this.escrowIface.getEvent('Withdrawal')!
+        const cancelled = this.escrowIface.getEvent('EscrowCancelled')!
+        const logs = await this.provider.getLogs({
+            fromBlock,
+            toBlock,
+            topics: [[withdrawal.topicHash, cancelled.topicHash]]
+        })
+        let saved = 0
+
+        for (const log of logs) {
+            const record = this.store.get(log.address.toLowerCase())
+
+            if (!record || record.status !== 'created') {
+                continue
+            }
+
+            await this.store.save(
+                log.topics[0] === withdrawal.topicHash
+                    ? {
+                          ...record,
+                          status: 'withdrawn',
+                          closedTx: log.transactionHash,
+                          secret: this.escrowIface.decodeEventLog(withdrawal, log.data, log.topics)[0]
+                      }
+                    : {...record, status: 'cancelled', closedTx: log.transactionHash}
+            )
+            saved++
+        }
+
+        return saved
+    }
+
+    private async getSrcImpl(): Promise<Sdk.Address> {
+        this.srcImpl ??= await this.factory.getSourceImpl()
+
+        return this.srcImpl
+    }
+}
+
+/**
+ * Aptos records of the same swap as the EVM escrow: the fusion order or auction by order hash, the escrow by
+ * order hash and hashlock. A destination escrow only knows its hashlock, it is matched to the Aptos escrow by it.
+ */
+export function aptosCounterparts(record: EvmRecord, aptos: AptosIndexStore): AptosRecord[] {
+    const byOrder = record.orderHash ? aptos.find({orderHash: record.orderHash}) : []
+    const byHashLock = aptos.find({kind: 'escrow', hashLock: record.hashLock})
+    const matches = new Map<string, AptosRecord>()
+
+    for (const match of [...byOrder, ...byHashLock]) {
+        // escrows of other fills of the same order lock another hashlock
+        if (match.kind === 'escrow' && match.hashLock !== undefined && match.hashLock !== record.hashLock) {
+            continue
+        }
+
+        matches.set(`${match.kind}:${match.address}`, match)
+    }
+
+    return [...matches.values()]
+}
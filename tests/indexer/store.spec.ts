@@ -0,0 +1,80 @@
+import {expect} from '@jest/globals'
+import {appendFile, mkdtemp, readdir} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+
+import {IndexStore} from './store'
+
+type TestRecord = {
+    id: string
+    owner?: string
+    status: string
+}
+
+type TestCursor = {
+    nextBlock: number
+}
+
+describe('IndexStore', () => {
+    let dir: string
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'index-store-spec-'))
+    })
+
+    function open(): Promise<IndexStore<TestRecord, TestCursor>> {
+        return IndexStore.open<TestRecord, TestCursor>(dir, 'test', (r) => r.id, {nextBlock: 7})
+    }
+
+    it('should start from the initial cursor without any file', async () => {
+        const store = await open()
+
+        expect(store.cursor).toEqual({nextBlock: 7})
+        expect(store.find()).toEqual([])
+    })
+
+    it('should keep the last record of a key across a restart', async () => {
+        const store = await open()
+
+        await store.save({id: 'a', status: 'created'})
+        await store.save({id: 'b', status: 'created'})
+        await store.save({id: 'a', status: 'withdrawn'})
+
+        const reopened = await open()
+
+        expect(reopened.get('a')).toEqual({id: 'a', status: 'withdrawn'})
+        expect(reopened.find()).toHaveLength(2)
+    })
+
+    it('should persist the cursor, replacing its file atomically', async () => {
+        const store = await open()
+
+        await store.advance({nextBlock: 42})
+
+        expect(store.cursor).toEqual({nextBlock: 42})
+        expect((await open()).cursor).toEqual({nextBlock: 42})
+        expect(await readdir(dir)).toEqual(['test-cursor.json'])
+    })
+
+    it('should ignore a torn last line', async () => {
+        const store = await open()
+
+        await store.save({id: 'a', status: 'created'})
+        await appendFile(join(dir, 'test-records.jsonl'), '{"id": "b", "sta')
+
+        expect((await open()).find()).toEqual([{id: 'a', status: 'created'}])
+    })
+
+    it('should find records by every given field case insensitively', async () => {
+        const store = await open()
+
+        await store.save({id: 'a', owner: '0xABC', status: 'created'})
+        await store.save({id: 'b', owner: '0xabc', status: 'withdrawn'})
+        await store.save({id: 'c', status: 'created'})
+
+        expect(store.find({owner: '0xabc'}).map((r) => r.id)).toEqual(['a', 'b'])
+        expect(store.find({owner: '0xAbC', status: 'created'}).map((r) => r.id)).toEqual(['a'])
+        // a record without the field never matches it
+        expect(store.find({owner: ''})).toEqual([])
+    })
+})
@@ -0,0 +1,108 @@
+import {mkdir, open, readFile, rename, writeFile} from 'node:fs/promises'
+import {join} from 'node:path'
+
+/**
+ * Records and cursor of an indexer.
+ *
+ * Records are appended to `<name>-records.jsonl` where the last line of a key wins, the cursor is rewritten in
+ * `<name>-cursor.json`. Indexers save the records of a batch before advancing the cursor past it, so a crash
+ * only replays events.
+ */
+export class IndexStore<R extends object, C> {
+    private readonly records = new Map<string, R>()
+
+    private constructor(
+        private readonly dir: string,
+        private readonly name: string,
+        private readonly keyOf: (record: R) => string,
+        private current: C
+    ) {}
+
+    get cursor(): C {
+        return this.current
+    }
+
+    private get recordsFile(): string {
+        return join(this.dir, `${this.name}-records.jsonl`)
+    }
+
+    private get cursorFile(): string {
+        return join(this.dir, `${this.name}-cursor.json`)
+    }
+
+    public static async open<R extends object, C>(
+        dir: string,
+        name: string,
+        keyOf: (record: R) => string,
+        initialCursor: C
+    ): Promise<IndexStore<R, C>> {
+        const store = new IndexStore<R, C>(dir, name, keyOf, initialCursor)
+        const content = await readFile(store.recordsFile, 'utf8').catch(() => '')
+
+        for (const line of content.split('\n').filter((l) => l.trim() !== '')) {
+            try {
+                const record = JSON.parse(line) as R
+                store.records.set(keyOf(record), record)
+            } catch {
+                // last line can be torn if the process died while writing it
+            }
+        }
+
+        const cursor = await readFile(store.cursorFile, 'utf8').catch(() => undefined)
+
+        if (cursor !== undefined) {
+            store.current = JSON.parse(cursor)
+        }
+
+        return store
+    }
+
+    public get(key: string): R | undefined {
+        return this.records.get(key)
+    }
+
+    /**
+     * Records matching every given field, values are compared case insensitively
+     */
+    public find(query: Partial<Record<keyof R, string>> = {}): R[] {
+        const fields = Object.entries(query).filter(([, value]) => value !== undefined) as [keyof R, string][]
+
+        return [...this.records.values()].filter((record) =>
+            fields.every(([field, value]) => {
+                const actual = record[field]
+
+                return actual !== undefined && String(actual).toLowerCase() === value.toLowerCase()
+            })
+        )
+    }
+
+    public async save(record: R): Promise<void> {
+        await mkdir(this.dir, {recursive: true})
+
+        const file = await open(this.recordsFile, 'a')
+
+        try {
+            await file.appendFile(JSON.stringify(record) + '\n')
+            await file.sync()
+        } finally {
+            await file.close()
+        }
+
+        this.records.set(this.keyOf(record), record)
+    }
+
+    /**
+     * Move the cursor, only once the records of the events before it are saved
+     */
+    public async advance(cursor: C): Promise<void> {
+        await mkdir(this.dir, {recursive: true})
+
+        const tmp = `${this.cursorFile}.tmp`
+
+        // rename is atomic, a crash leaves either the old or the new cursor
+        await writeFile(tmp, JSON.stringify(cursor))
+        await rename(tmp, this.cursorFile)
+
+        this.current = cursor
+    }
+}
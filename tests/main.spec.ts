@@ -1,55 +1,71 @@
 import 'dotenv/config'
-import { expect, jest } from '@jest/globals'
-import { Aptos, Account } from '@aptos-labs/ts-sdk'
+import {expect, jest} from '@jest/globals'
+import {Aptos, Account} from '@aptos-labs/ts-sdk'
 
-import { createServer, CreateServerReturnType } from 'prool'
-import { anvil } from 'prool/instances'
+import {createServer, CreateServerReturnType} from 'prool'
+import {anvil} from 'prool/instances'
 
 import Sdk from '@1inch/cross-chain-sdk'
 import {
     computeAddress,
-    Contract,
     ContractFactory,
     JsonRpcProvider,
     MaxUint256,
     parseEther,
     parseUnits,
-    randomBytes,
     Wallet as SignerWallet
 } from 'ethers'
-import { uint8ArrayToHex, UINT_40_MAX } from '@1inch/byte-utils'
+import {UINT_40_MAX} from '@1inch/byte-utils'
 import assert from 'node:assert'
-import { ChainConfig, config } from './config'
-import { Wallet } from './wallet'
-import { Resolver } from './resolver'
-import { EscrowFactory } from './escrow-factory'
-import factoryContract from '../dist/contracts/TestEscrowFactory.sol/TestEscrowFactory.json'
-import resolverContract from '../dist/contracts/Resolver.sol/Resolver.json'
+import {mkdtemp} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import {ChainConfig, getConfig} from './config'
+import {Wallet} from './wallet'
+import {Resolver} from './resolver'
+import {EscrowFactory} from './escrow-factory'
 
 // Aptos imports
-import { ACCOUNTS as APTOS_ACCOUNTS, createAptosClient, createAccount } from './aptos/setup'
-import { FungibleAssetsHelper } from './aptos/helpers/fungible-assets'
-import { EscrowHelper } from './aptos/helpers/escrow'
-import { HashlockHelper } from './aptos/helpers/hashlock'
-import { FusionOrderHelper } from './aptos/helpers/fusion-order'
-import { DutchAuctionHelper } from './aptos/helpers/dutch-auction'
-import { TimelockHelper } from './aptos/helpers/timelock'
-import { DeploymentHelper } from './aptos/helpers/deployment'
+import {ACCOUNTS as APTOS_ACCOUNTS, getAptosClient, createAccount} from './aptos/setup'
+import {FungibleAssetsHelper} from './aptos/helpers/fungible-assets'
+import {EscrowHelper} from './aptos/helpers/escrow'
+import {FusionOrderHelper} from './aptos/helpers/fusion-order'
+import {DutchAuctionHelper} from './aptos/helpers/dutch-auction'
+import {DeploymentHelper} from './aptos/helpers/deployment'
+import {
+    EthToAptosSwap,
+    EthToAptosSwapContext,
+    EthToAptosSwapParams,
+    EthToAptosSwapState,
+    SwapPhases
+} from './swap/eth-to-aptos'
+import {AptosToEthSwap, AptosToEthSwapState} from './swap/aptos-to-eth'
+import {TokenRegistry} from './tokens/registry'
+import {AptosLeg, aptosChainIdOf, newAptosOrder} from './orders/aptos-order'
+import {SecretVault} from './secrets/vault'
+import {TimelockTranslator} from './timelocks/translator'
+import {SwapJournal} from './swap/journal'
+import {AptosAdapter} from './chains/aptos-adapter'
+import {EvmAdapter} from './chains/evm-adapter'
+import resolverContract from '../dist/contracts/Resolver.sol/Resolver.json'
+import factoryContract from '../dist/contracts/TestEscrowFactory.sol/TestEscrowFactory.json'
 
-const { Address } = Sdk
+const {Address} = Sdk
 
 jest.setTimeout(1000 * 160) // 1 minute
 
-const userPk = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d'
-const resolverPk = '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a'
-
-
+const config = getConfig()
+const userPk = config.accounts.evm.user
+const resolverPk = config.accounts.evm.resolver
 
 // eslint-disable-next-line max-lines-per-function
 describe('Resolving example', () => {
-    const srcChainId = config.chain.evm.chainId
-    const dstChainId = config.chain.evm.chainId
-    const aptosChainId = Sdk.NetworkEnum.GNOSIS // Dummy field
+    // EVM counterparty of the swaps, the first of the configured chains (see `EVM_CHAINS`)
+    const evmConfig = Object.values(config.chain.evm)[0]
+    const usdc = evmConfig.tokens.USDC
+    const srcChainId = evmConfig.chainId
+    const dstChainId = evmConfig.chainId
+    const aptosChainId = aptosChainIdOf(config.chain.aptos)
 
     type Chain = {
         node?: CreateServerReturnType | undefined
@@ -58,6 +74,7 @@ describe('Resolving example', () => {
         resolver: string
     }
 
+    let evmChains: Map<number, Chain>
     let evm: Chain
 
     let evmChainUser: Wallet
@@ -74,65 +91,62 @@ describe('Resolving example', () => {
     let aptosResolverAccount: Account
     let fungibleHelper: FungibleAssetsHelper
     let escrowHelper: EscrowHelper
-    let hashlockHelper: HashlockHelper
     let fusionOrderHelper: FusionOrderHelper
     let dutchAuctionHelper: DutchAuctionHelper
-    let timelockHelper: TimelockHelper
     let usdtMetadata: string
+    let tokenRegistry: TokenRegistry
+    let journal: SwapJournal
+    let vault: SecretVault
 
     async function increaseTime(t: number): Promise<void> {
         // await Promise.all([src, dst].map((chain) => chain.provider.send('evm_increaseTime', [t])))
         // For Aptos, we need to actually wait since we can't modify time
         console.log(`🕒 Increasing time by ${t} seconds`)
-        await new Promise(resolve => setTimeout(resolve, t * 1000))
+        await new Promise((resolve) => setTimeout(resolve, t * 1000))
     }
 
     beforeAll(async () => {
+        assert(usdc?.donor, `USDC with a donor is not configured on chain ${evmConfig.chainId}`)
 
-        const startTime = Date.now()
-
-
-        evm = await initChain(config.chain.evm)
+        evmChains = await initChains(Object.values(config.chain.evm))
+        evm = evmChains.get(evmConfig.chainId)!
 
         evmChainUser = new Wallet(userPk, evm.provider)
         evmChainResolver = new Wallet(resolverPk, evm.provider)
         evmFactory = new EscrowFactory(evm.provider, evm.escrowFactory)
 
-        await evmChainUser.topUpFromDonor(
-            config.chain.evm.tokens.USDC.address,
-            config.chain.evm.tokens.USDC.donor,
-            parseUnits('1000', 6)
-        )
+        await evmChainUser.topUpFromDonor(usdc.address, usdc.donor, parseUnits('1000', 6))
 
-        await evmChainUser.approveToken(
-            config.chain.evm.tokens.USDC.address,
-            config.chain.evm.limitOrderProtocol,
-            MaxUint256
-        )
+        await evmChainUser.approveToken(usdc.address, evmConfig.limitOrderProtocol, MaxUint256)
         evmResolverContract = await Wallet.fromAddress(evm.resolver, evm.provider)
-        await evmResolverContract.topUpFromDonor(
-            config.chain.evm.tokens.USDC.address,
-            config.chain.evm.tokens.USDC.donor,
-            parseUnits('2000', 6)
-        )
+        await evmResolverContract.topUpFromDonor(usdc.address, usdc.donor, parseUnits('2000', 6))
         await evmChainResolver.transfer(evm.resolver, parseEther('1'))
-        await evmResolverContract.unlimitedApprove(config.chain.evm.tokens.USDC.address, evm.escrowFactory)
+        await evmResolverContract.unlimitedApprove(usdc.address, evm.escrowFactory)
 
         srcTimestamp = BigInt((await evm.provider.getBlock('latest'))!.timestamp)
 
-        aptosClient = createAptosClient()
+        // every swap is journaled, as a resolver restarting mid-swap would need it
+        journal = new SwapJournal(await mkdtemp(join(tmpdir(), 'swap-journal-')))
+        // maker's secrets, generated and kept encrypted by the vault
+        vault = await SecretVault.open(await mkdtemp(join(tmpdir(), 'secret-vault-')), 'main-spec')
+
+        aptosClient = getAptosClient()
 
         const deploymentHelper = new DeploymentHelper()
         await deploymentHelper.ensureContractsDeployed()
 
         fungibleHelper = new FungibleAssetsHelper()
         escrowHelper = new EscrowHelper()
-        hashlockHelper = new HashlockHelper()
         fusionOrderHelper = new FusionOrderHelper()
         dutchAuctionHelper = new DutchAuctionHelper()
-        timelockHelper = new TimelockHelper()
-        usdtMetadata = await fungibleHelper.getUsdtMetadata()
+        tokenRegistry = await TokenRegistry.fromConfig(config.tokens, async (symbol) => {
+            if (symbol !== 'USDT') {
+                throw new Error(`metadata of Aptos asset ${symbol} must be configured`)
+            }
 
+            return fungibleHelper.getUsdtMetadata()
+        })
+        usdtMetadata = tokenRegistry.byEvm(evmConfig.chainId, usdc.address).aptos.metadata
 
         aptosUserAccount = createAccount(APTOS_ACCOUNTS.USER.privateKey)
         aptosResolverAccount = createAccount(APTOS_ACCOUNTS.RESOLVER.privateKey)
@@ -146,11 +160,11 @@ describe('Resolving example', () => {
             await aptosClient.faucet.fundAccount({
                 accountAddress: aptosUserAccount.accountAddress.toString(),
                 amount: 100_000_000 // 1 APT
-            });
+            })
             await aptosClient.faucet.fundAccount({
                 accountAddress: aptosResolverAccount.accountAddress.toString(),
                 amount: 100_000_000 // 1 APT
-            });
+            })
             console.log(`✅ APT fauceted in ${Date.now() - faucetStartTime}ms`)
         }
 
@@ -163,21 +177,16 @@ describe('Resolving example', () => {
             usdtAccount,
             APTOS_ACCOUNTS.RESOLVER.address,
             BigInt(2000_000_000) // 1000 USDT
-        );
+        )
 
         await fungibleHelper.faucetToAddress(
             usdtAccount,
             APTOS_ACCOUNTS.USER.address,
             BigInt(100_000_000) // 1000 USDT
-        );
-
-        // console.log(`🎉 beforeAll completed in ${Date.now() - startTime}ms`)
+        )
     })
 
-    async function getBalances(
-        evmToken: string,
-        dstToken: string
-    ): Promise<{ evm: { user: bigint; resolver: bigint } }> {
+    async function getBalances(evmToken: string): Promise<{evm: {user: bigint; resolver: bigint}}> {
         return {
             evm: {
                 user: await evmChainUser.tokenBalance(evmToken),
@@ -186,937 +195,362 @@ describe('Resolving example', () => {
         }
     }
 
+    function evmAdapter(chainId: number): EvmAdapter {
+        return new EvmAdapter(
+            chainId,
+            evmChainResolver,
+            new Resolver(evm.resolver, evm.resolver),
+            evmFactory,
+            evm.escrowFactory
+        )
+    }
 
+    function aptosAdapter(): AptosAdapter {
+        return new AptosAdapter(aptosClient, aptosResolverAccount, escrowHelper, fungibleHelper)
+    }
+
+    function ethToAptosContext(): EthToAptosSwapContext {
+        return {
+            evm: {
+                chainId: srcChainId,
+                escrowFactory: evm.escrowFactory,
+                maker: evmChainUser,
+                resolverContract: new Resolver(evm.resolver, evm.resolver)
+            },
+            aptos: {
+                chainId: aptosChainId,
+                maker: aptosUserAccount,
+                dutchAuction: dutchAuctionHelper
+            },
+            chains: {src: evmAdapter(srcChainId), dst: aptosAdapter()},
+            vault,
+            journal
+        }
+    }
+
+    function ethToAptosParams(params: {
+        secretSet: string
+        makingAmount: bigint
+        takingAmount: bigint
+        endingAmount?: bigint
+        decayDuration?: bigint
+        phases?: SwapPhases
+        fill?: EthToAptosSwapParams['fill']
+    }): EthToAptosSwapParams {
+        const auctionStartTime = BigInt(Math.floor(Date.now() / 1000)) // Current time
+        const decayDuration = params.decayDuration ?? 120n // 2 minutes decay
+
+        return {
+            makerAsset: usdc.address,
+            makingAmount: params.makingAmount,
+            takingAmount: params.takingAmount,
+            aptosAsset: usdtMetadata,
+            secretSet: params.secretSet,
+            phases: params.phases ?? {
+                withdrawal: 10n,
+                publicWithdrawal: 100n,
+                privateCancellation: 101n,
+                publicCancellation: 102n
+            },
+            srcSafetyDeposit: parseEther('0.001'),
+            dstSafetyDeposit: parseEther('0.001'),
+            evmAuction: {
+                startTime: srcTimestamp,
+                duration: 120n
+            },
+            auction: {
+                startTime: auctionStartTime,
+                endTime: auctionStartTime + decayDuration + 60n, // End time after decay duration
+                decayDuration,
+                startingAmount: params.takingAmount,
+                endingAmount: params.endingAmount ?? params.takingAmount / 2n,
+                safetyDeposit: 10_000n, // 0.0001 APT (8 decimals)
+                resolverWhitelist: [APTOS_ACCOUNTS.RESOLVER.address]
+            },
+            fill: params.fill
+        }
+    }
 
     afterAll(async () => {
-        evm.provider.destroy()
-        await Promise.all([evm.node?.stop()])
+        const chains = [...evmChains.values()]
+        chains.forEach((chain) => chain.provider.destroy())
+        await Promise.all(chains.map((chain) => chain.node?.stop()))
     })
 
-    // eslint-disable-next-line max-lines-per-function
     describe('ETH -> APT Fill', () => {
         it('should swap Ethereum USDC -> Aptos USDT. Single fill only', async () => {
-            const initialBalances = await getBalances(
-                config.chain.evm.tokens.USDC.address,
-                config.chain.evm.tokens.USDC.address
-            )
+            const initialBalances = await getBalances(usdc.address)
 
             // Get initial Aptos balances
-            const initialAptosUserBalance = await fungibleHelper.getBalance(aptosUserAccount.accountAddress.toString(), usdtMetadata)
-            const initialAptosResolverBalance = await fungibleHelper.getBalance(aptosResolverAccount.accountAddress.toString(), usdtMetadata)
-
-            // Create secret for cross-chain swap
-            const secret = uint8ArrayToHex(randomBytes(32)) // note: use crypto secure random number in real world
-            const secretBytes = new Uint8Array(Buffer.from(secret.startsWith('0x') ? secret.slice(2) : secret, 'hex'))
-
-            // Create hash from secret for Aptos
-            const secretHash = await hashlockHelper.createHashFromSecret(secretBytes)
-            const secretHashBytes = new Uint8Array(Buffer.from(secretHash.startsWith('0x') ? secretHash.slice(2) : secretHash, 'hex'))
-
-            let withdrawalPhase = 10n
-            let publicWithdrawalPhase = 100n
-            let privateCancellationPhase = 101n
-            let publicCancellationPhase = 102n
-
-            let makingAmount = parseUnits('100', 6)
-            let takingAmount = parseUnits('99', 6)
-
-            // Create SDK order for ETH side with real source chain values and dummy destination values
-            const sdkOrder = Sdk.CrossChainOrder.new(
-                new Address(evm.escrowFactory), // Real ETH escrow factory
+            const initialAptosUserBalance = await fungibleHelper.getBalance(
+                aptosUserAccount.accountAddress.toString(),
+                usdtMetadata
+            )
+            const initialAptosResolverBalance = await fungibleHelper.getBalance(
+                aptosResolverAccount.accountAddress.toString(),
+                usdtMetadata
+            )
+
+            const swap = await EthToAptosSwap.create(
+                ethToAptosContext(),
+                ethToAptosParams({
+                    secretSet: (await vault.generate()).id,
+                    makingAmount: parseUnits('100', 6), // 100 USDC (6 decimals)
+                    takingAmount: parseUnits('99', 6) // 99 USDT (6 decimals)
+                }),
                 {
-                    salt: Sdk.randBigInt(1000n),
-                    maker: new Address(await evmChainUser.getAddress()), // Real ETH maker
-                    makingAmount: makingAmount, // 100 USDC (6 decimals)
-                    takingAmount: takingAmount, // 99 USDT (6 decimals)
-                    makerAsset: new Address(config.chain.evm.tokens.USDC.address), // Real ETH USDC
-                    takerAsset: new Address('0x0000000000000000000000000000000000000000') // Dummy APT USDT
-                },
-                {
-                    hashLock: Sdk.HashLock.forSingleFill(secret),
-                    timeLocks: Sdk.TimeLocks.new({
-                        srcWithdrawal: withdrawalPhase,
-                        srcPublicWithdrawal: publicWithdrawalPhase,
-                        srcCancellation: privateCancellationPhase,
-                        srcPublicCancellation: publicCancellationPhase,
-                        dstWithdrawal: withdrawalPhase,
-                        dstPublicWithdrawal: publicWithdrawalPhase,
-                        dstCancellation: privateCancellationPhase
-                    }),
-                    srcChainId, // Real ETH chain ID
-                    dstChainId: aptosChainId, // Dummy APT chain ID
-                    srcSafetyDeposit: parseEther('0.001'), // Real ETH safety deposit
-                    dstSafetyDeposit: parseEther('0.001') // Dummy APT safety deposit
-                },
-                {
-                    auction: new Sdk.AuctionDetails({
-                        initialRateBump: 0,
-                        points: [],
-                        duration: 120n,
-                        startTime: srcTimestamp
-                    }),
-                    whitelist: [
-                        {
-                            address: new Address(evm.resolver), // Real ETH resolver
-                            allowFrom: 0n
-                        }
-                    ],
-                    resolvingStartTime: 0n
-                },
-                {
-                    nonce: Sdk.randBigInt(UINT_40_MAX),
-                    allowPartialFills: false,
-                    allowMultipleFills: false
+                    // Wait for the escrow to be processed (10 seconds to match finality_duration)
+                    [EthToAptosSwapState.SrcEscrowDeployed]: () => increaseTime(11)
                 }
             )
 
-            // Create signature for SDK order
-            const signature = await evmChainUser.signOrder(srcChainId, sdkOrder)
-            const orderHash = sdkOrder.getOrderHash(srcChainId)
-
-            // Create Dutch auction on Aptos (destination chain) - USER creates this
-            console.log('📝 Creating Dutch auction on Aptos...')
-            const order_hash = new Uint8Array(Buffer.from('order_hash_123', 'utf8'))
-            const hashes = [secretHashBytes] // Single hash for full fill
-            const makerAsset = usdtMetadata // USDT metadata address
-            const safety_deposit_amount = BigInt(10_000) // 0.0001 APT (8 decimals)
-            const finality_duration = withdrawalPhase
-            const exclusive_duration = withdrawalPhase - finality_duration
-            const public_withdrawal_duration = publicWithdrawalPhase - exclusive_duration
-            const private_cancellation_duration = privateCancellationPhase - public_withdrawal_duration
-            const starting_amount = takingAmount
-            const ending_amount = takingAmount / 2n
-            const auction_start_time = BigInt(Math.floor(Date.now() / 1000)) // Current time
-            const decay_duration = BigInt(120) // 2 minutes decay
-            const auction_end_time = auction_start_time + decay_duration + BigInt(60) // End time after decay duration
-
-            const auctionResult = await dutchAuctionHelper.createAuction(
-                aptosUserAccount, // USER creates the auction
-                order_hash,
-                hashes,
-                makerAsset, // metadata
-                starting_amount,
-                ending_amount,
-                auction_start_time,
-                auction_end_time,
-                decay_duration,
-                safety_deposit_amount,
-                [APTOS_ACCOUNTS.RESOLVER.address] // resolver whitelist
-            );
-
-            console.log(`[APT]`, `Dutch auction created in tx ${auctionResult.auctionAddress}`)
-            expect(auctionResult.auctionAddress).toBeDefined()
-            expect(auctionResult.auctionAddress).not.toBe('')
-
-            // RESOLVER fills the Dutch auction
-            console.log('🔒 Creating escrow from Dutch auction...')
-            console.log(`   - Resolver paying: ${Number(ending_amount) / 1_000_000} USDT`)
-            const escrowResult = await escrowHelper.createEscrowFromAuctionSingleFill(
-                aptosResolverAccount, // RESOLVER fills the auction
-                auctionResult.auctionAddress,
-                finality_duration,
-                exclusive_duration,
-                public_withdrawal_duration,
-                private_cancellation_duration
-            );
-
-            console.log(`✅ Escrow created! Escrow address: ${escrowResult.escrowAddress}`)
-            expect(escrowResult.escrowAddress).toBeDefined()
-            expect(escrowResult.escrowAddress).not.toBe('')
-
-
-            // Resolver fills order on source chain (ETH)
-            const resolverContract = new Resolver(evm.resolver, evm.resolver)
-
-            console.log(`[ETH]`, `Creating escrow from order ${orderHash} for ${Number(sdkOrder.makingAmount) / 1_000_000} USDC`)
-            console.log(`   - User paying: ${Number(sdkOrder.makingAmount) / 1_000_000} USDC`)
-
-            const fillAmount = sdkOrder.makingAmount
-            const { txHash: orderFillHash, blockHash: srcDeployBlock } = await evmChainResolver.send(
-                resolverContract.deploySrc(
-                    srcChainId,
-                    sdkOrder,
-                    signature,
-                    Sdk.TakerTraits.default()
-                        .setExtension(sdkOrder.extension)
-                        .setAmountMode(Sdk.AmountMode.maker)
-                        .setAmountThreshold(sdkOrder.takingAmount),
-                    fillAmount
-                )
-            )
-
-            console.log(`[ETH]`, `Escrow created in tx ${orderFillHash}`)
-
-            const srcEscrowEvent = await evmFactory.getSrcDeployEvent(srcDeployBlock)
-
-            const dstImmutables = srcEscrowEvent[0]
-                .withComplement(srcEscrowEvent[1])
-                .withTaker(new Address(resolverContract.dstAddress))
-
-            const ESCROW_SRC_IMPLEMENTATION = await evmFactory.getSourceImpl()
-
-            const srcEscrowAddress = new Sdk.EscrowFactory(new Address(evm.escrowFactory)).getSrcEscrowAddress(
-                srcEscrowEvent[0],
-                ESCROW_SRC_IMPLEMENTATION
-            )
+            await swap.run()
 
-            // Wait for the escrow to be processed (10 seconds to match finality_duration)
-            await increaseTime(11)
+            expect(swap.state).toBe(EthToAptosSwapState.Completed)
+            expect(swap.auction?.auctionAddress).toBeTruthy()
+            expect(swap.dstEscrow?.address).toBeTruthy()
+            expect(swap.dstWithdrawTx).toBeDefined()
+            expect(await journal.unfinished()).not.toContainEqual(expect.objectContaining({id: swap.orderHash}))
 
-            // Withdraw from Aptos escrow using the secret
-            console.log(`[APT]`, `Withdrawing ${Number(sdkOrder.takingAmount) / 1_000_000} USDT from Aptos escrow`)
-            const aptosWithdrawTxHash = await escrowHelper.withdrawFromEscrow(
-                aptosResolverAccount,
-                escrowResult.escrowAddress,
-                secret
-            );
-
-            console.log(`[APT]`, `Withdrawal successful in tx ${aptosWithdrawTxHash}`)
-            expect(aptosWithdrawTxHash).toBeDefined()
-
-            // Withdraw from ETH escrow using the secret
-            console.log(`[ETH]`, `Withdrawing ${Number(sdkOrder.makingAmount) / 1_000_000} USDC from ETH escrow`)
-            const { txHash: resolverWithdrawHash } = await evmChainResolver.send(
-                resolverContract.withdraw('src', srcEscrowAddress, secret, srcEscrowEvent[0])
-            )
-            console.log(`[ETH]`, `Withdrawal successful in tx ${resolverWithdrawHash}`)
-
-            const resultBalances = await getBalances(
-                config.chain.evm.tokens.USDC.address,
-                config.chain.evm.tokens.USDC.address
-            )
-
-            // Verify the cross-chain swap worked
-            console.log('🎉 Complete ETH → APT swap flow test completed!')
+            const resultBalances = await getBalances(usdc.address)
 
             // Verify that the user transferred funds to resolver on ETH
-            expect(initialBalances.evm.user - resultBalances.evm.user).toBe(sdkOrder.makingAmount)
-            expect(resultBalances.evm.resolver - initialBalances.evm.resolver).toBe(sdkOrder.makingAmount)
+            expect(initialBalances.evm.user - resultBalances.evm.user).toBe(swap.order.makingAmount)
+            expect(resultBalances.evm.resolver - initialBalances.evm.resolver).toBe(swap.order.makingAmount)
 
             // Verify Aptos balances
-            const finalAptosUserBalance = await fungibleHelper.getBalance(aptosUserAccount.accountAddress.toString(), usdtMetadata)
-            const finalAptosResolverBalance = await fungibleHelper.getBalance(aptosResolverAccount.accountAddress.toString(), usdtMetadata)
+            const finalAptosUserBalance = await fungibleHelper.getBalance(
+                aptosUserAccount.accountAddress.toString(),
+                usdtMetadata
+            )
+            const finalAptosResolverBalance = await fungibleHelper.getBalance(
+                aptosResolverAccount.accountAddress.toString(),
+                usdtMetadata
+            )
 
             // Verify that the resolver received USDT on Aptos (amount should match the swap)
-            expect(initialAptosResolverBalance - finalAptosResolverBalance).toBe(BigInt(sdkOrder.takingAmount))
+            expect(initialAptosResolverBalance - finalAptosResolverBalance).toBe(swap.order.takingAmount)
             // Verify that the user's USDT balance decreased (they paid for the swap)
-            expect(finalAptosUserBalance - initialAptosUserBalance).toBe(BigInt(sdkOrder.takingAmount))
-
-            // Log the final amounts for clarity
-            console.log(`💰 Final amounts:`)
-            console.log(`   - Resolver received: ${Number(sdkOrder.makingAmount) / 1_000_000} USDC on Ethereum`)
-            console.log(`   - User received: ${Number(finalAptosUserBalance - initialAptosUserBalance) / 1_000_000} USDT on Aptos`)
+            expect(finalAptosUserBalance - initialAptosUserBalance).toBe(swap.order.takingAmount)
         })
 
         it('should swap Ethereum USDC -> Aptos USDT. Single fill after decreased', async () => {
-            const initialBalances = await getBalances(
-                config.chain.evm.tokens.USDC.address,
-                config.chain.evm.tokens.USDC.address
-            )
+            const initialBalances = await getBalances(usdc.address)
 
             // Get initial Aptos balances
-            const initialAptosUserBalance = await fungibleHelper.getBalance(aptosUserAccount.accountAddress.toString(), usdtMetadata)
-            const initialAptosResolverBalance = await fungibleHelper.getBalance(aptosResolverAccount.accountAddress.toString(), usdtMetadata)
-
-            // Create secret for cross-chain swap
-            const secret = uint8ArrayToHex(randomBytes(32)) // note: use crypto secure random number in real world
-            const secretBytes = new Uint8Array(Buffer.from(secret.startsWith('0x') ? secret.slice(2) : secret, 'hex'))
-
-            // Create hash from secret for Aptos
-            const secretHash = await hashlockHelper.createHashFromSecret(secretBytes)
-            const secretHashBytes = new Uint8Array(Buffer.from(secretHash.startsWith('0x') ? secretHash.slice(2) : secretHash, 'hex'))
-
-            let withdrawalPhase = 10n
-            let publicWithdrawalPhase = 100n
-            let privateCancellationPhase = 101n
-            let publicCancellationPhase = 102n
-
-            let makingAmount = parseUnits('100', 6)
-            let takingAmount = parseUnits('100', 6)
-
-            // Create SDK order for ETH side with real source chain values and dummy destination values
-            const sdkOrder = Sdk.CrossChainOrder.new(
-                new Address(evm.escrowFactory), // Real ETH escrow factory
-                {
-                    salt: Sdk.randBigInt(1000n),
-                    maker: new Address(await evmChainUser.getAddress()), // Real ETH maker
-                    makingAmount: makingAmount, // 100 USDC (6 decimals)
-                    takingAmount: takingAmount, // 100 USDT (6 decimals)
-                    makerAsset: new Address(config.chain.evm.tokens.USDC.address), // Real ETH USDC
-                    takerAsset: new Address('0x0000000000000000000000000000000000000000') // Dummy APT USDT
-                },
-                {
-                    hashLock: Sdk.HashLock.forSingleFill(secret),
-                    timeLocks: Sdk.TimeLocks.new({
-                        srcWithdrawal: withdrawalPhase,
-                        srcPublicWithdrawal: publicWithdrawalPhase,
-                        srcCancellation: privateCancellationPhase,
-                        srcPublicCancellation: publicCancellationPhase,
-                        dstWithdrawal: withdrawalPhase,
-                        dstPublicWithdrawal: publicWithdrawalPhase,
-                        dstCancellation: privateCancellationPhase
-                    }),
-                    srcChainId, // Real ETH chain ID
-                    dstChainId: aptosChainId, // Dummy APT chain ID
-                    srcSafetyDeposit: parseEther('0.001'), // Real ETH safety deposit
-                    dstSafetyDeposit: parseEther('0.001') // Dummy APT safety deposit
-                },
-                {
-                    auction: new Sdk.AuctionDetails({
-                        initialRateBump: 0,
-                        points: [],
-                        duration: 120n,
-                        startTime: srcTimestamp
-                    }),
-                    whitelist: [
-                        {
-                            address: new Address(evm.resolver), // Real ETH resolver
-                            allowFrom: 0n
-                        }
-                    ],
-                    resolvingStartTime: 0n
-                },
+            const initialAptosUserBalance = await fungibleHelper.getBalance(
+                aptosUserAccount.accountAddress.toString(),
+                usdtMetadata
+            )
+            const initialAptosResolverBalance = await fungibleHelper.getBalance(
+                aptosResolverAccount.accountAddress.toString(),
+                usdtMetadata
+            )
+
+            const takingAmount = parseUnits('100', 6)
+            const endingAmount = takingAmount - BigInt(1_000_000) // 99 USDT
+
+            const swap = await EthToAptosSwap.create(
+                ethToAptosContext(),
+                ethToAptosParams({
+                    secretSet: (await vault.generate()).id,
+                    makingAmount: parseUnits('100', 6),
+                    takingAmount,
+                    endingAmount,
+                    decayDuration: 5n // 5 seconds decay
+                }),
                 {
-                    nonce: Sdk.randBigInt(UINT_40_MAX),
-                    allowPartialFills: false,
-                    allowMultipleFills: false
+                    // Since we are testing on mainnet, ensure decay is 100% complete to accuratly predict the outcome
+                    [EthToAptosSwapState.AuctionCreated]: () => increaseTime(6),
+                    [EthToAptosSwapState.SrcEscrowDeployed]: () => increaseTime(11)
                 }
             )
 
-            // Create signature for SDK order
-            const signature = await evmChainUser.signOrder(srcChainId, sdkOrder)
-            const orderHash = sdkOrder.getOrderHash(srcChainId)
-
-
-            // Create Dutch auction on Aptos (destination chain) - USER creates this
-            console.log('📝 Creating Dutch auction on Aptos...')
-            const order_hash = new Uint8Array(Buffer.from('order_hash_123', 'utf8'))
-            const hashes = [secretHashBytes] // Single hash for full fill
-            const makerAsset = usdtMetadata // USDT metadata address
-            const safety_deposit_amount = BigInt(10_000) // 0.0001 APT (8 decimals)
-            const finality_duration = withdrawalPhase
-            const exclusive_duration = withdrawalPhase - finality_duration
-            const public_withdrawal_duration = publicWithdrawalPhase - exclusive_duration
-            const private_cancellation_duration = privateCancellationPhase - public_withdrawal_duration
-            const starting_amount = takingAmount
-            const ending_amount = takingAmount - BigInt(1_000_000) // 99 USDT
-            const auction_start_time = BigInt(Math.floor(Date.now() / 1000)) // Current time
-            const decay_duration = BigInt(5) // 5 seconds decay
-            const auction_end_time = auction_start_time + decay_duration + BigInt(60) // End time after decay duration
-
-            const auctionResult = await dutchAuctionHelper.createAuction(
-                aptosUserAccount, // USER creates the auction
-                order_hash,
-                hashes,
-                makerAsset, // metadata
-                starting_amount,
-                ending_amount,
-                auction_start_time,
-                auction_end_time,
-                decay_duration,
-                safety_deposit_amount,
-                [APTOS_ACCOUNTS.RESOLVER.address] // resolver whitelist
-            );
-
-            console.log(`[APT]`, `Dutch auction created in tx ${auctionResult.auctionAddress}`)
-            expect(auctionResult.auctionAddress).toBeDefined()
-            expect(auctionResult.auctionAddress).not.toBe('')
-
-            // Wait for the auction price to drop
-            // Since we are testing on mainnet, ensure decay is 100% complete to accuratly predict the outcome
-            console.log(`📉 Auction price before decay: ${Number(starting_amount) / 1_000_000} USDT`)
-            console.log(`📉 Auction price after decay: ${Number(ending_amount) / 1_000_000} USDT`)
-            console.log(`📉 Price decrease: ${Number(starting_amount - ending_amount) / 1_000_000} USDT (${((Number(starting_amount - ending_amount) / Number(starting_amount)) * 100).toFixed(2)}%)`)
-            await increaseTime(6)
-
-            // RESOLVER fills the Dutch auction
-            console.log('🔒 Creating escrow from Dutch auction...')
-            console.log(`   - Resolver paying: ${Number(ending_amount) / 1_000_000} USDT`)
-            const escrowResult = await escrowHelper.createEscrowFromAuctionSingleFill(
-                aptosResolverAccount, // RESOLVER fills the auction
-                auctionResult.auctionAddress,
-                finality_duration,
-                exclusive_duration,
-                public_withdrawal_duration,
-                private_cancellation_duration
-            );
-
-            console.log(`✅ Escrow created! Escrow address: ${escrowResult.escrowAddress}`)
-            expect(escrowResult.escrowAddress).toBeDefined()
-            expect(escrowResult.escrowAddress).not.toBe('')
-
-
-            // Resolver fills order on source chain (ETH)
-            const resolverContract = new Resolver(evm.resolver, evm.resolver)
-
-            console.log(`[ETH]`, `Creating escrow from order ${orderHash} for ${Number(sdkOrder.makingAmount) / 1_000_000} USDC`)
-            console.log(`   - User paying: ${Number(sdkOrder.makingAmount) / 1_000_000} USDC`)
-
-            const fillAmount = sdkOrder.makingAmount
-            const { txHash: orderFillHash, blockHash: srcDeployBlock } = await evmChainResolver.send(
-                resolverContract.deploySrc(
-                    srcChainId,
-                    sdkOrder,
-                    signature,
-                    Sdk.TakerTraits.default()
-                        .setExtension(sdkOrder.extension)
-                        .setAmountMode(Sdk.AmountMode.maker)
-                        .setAmountThreshold(sdkOrder.takingAmount),
-                    fillAmount
-                )
-            )
-
-            console.log(`[ETH]`, `Escrow created in tx ${orderFillHash}`)
-
-            const srcEscrowEvent = await evmFactory.getSrcDeployEvent(srcDeployBlock)
-
-            const dstImmutables = srcEscrowEvent[0]
-                .withComplement(srcEscrowEvent[1])
-                .withTaker(new Address(resolverContract.dstAddress))
-
-            const ESCROW_SRC_IMPLEMENTATION = await evmFactory.getSourceImpl()
-
-            const srcEscrowAddress = new Sdk.EscrowFactory(new Address(evm.escrowFactory)).getSrcEscrowAddress(
-                srcEscrowEvent[0],
-                ESCROW_SRC_IMPLEMENTATION
-            )
-
-            // Wait for the escrow to be processed (10 seconds to match finality_duration)
-            await increaseTime(11)
-
-            // Withdraw from Aptos escrow using the secret
-            console.log(`[APT]`, `Withdrawing ${Number(sdkOrder.takingAmount) / 1_000_000} USDT from Aptos escrow`)
-            const aptosWithdrawTxHash = await escrowHelper.withdrawFromEscrow(
-                aptosResolverAccount, // RESOLVER fills the auction
-                escrowResult.escrowAddress,
-                secret
-            );
-
-            console.log(`[APT]`, `Withdrawal successful in tx ${aptosWithdrawTxHash}`)
-            expect(aptosWithdrawTxHash).toBeDefined()
-
-            // Withdraw from ETH escrow using the secret
-            console.log(`[ETH]`, `Withdrawing ${Number(sdkOrder.makingAmount) / 1_000_000} USDC from ETH escrow`)
-            const { txHash: resolverWithdrawHash } = await evmChainResolver.send(
-                resolverContract.withdraw('src', srcEscrowAddress, secret, srcEscrowEvent[0])
-            )
-            console.log(`[ETH]`, `Withdrawal successful in tx ${resolverWithdrawHash}`)
+            await swap.run()
 
-            const resultBalances = await getBalances(
-                config.chain.evm.tokens.USDC.address,
-                config.chain.evm.tokens.USDC.address
-            )
+            expect(swap.state).toBe(EthToAptosSwapState.Completed)
 
-            // Verify the cross-chain swap worked
-            console.log('🎉 Complete ETH → APT swap flow test completed!')
+            const resultBalances = await getBalances(usdc.address)
 
             // Verify that the user transferred funds to resolver on ETH
-            expect(initialBalances.evm.user - resultBalances.evm.user).toBe(sdkOrder.makingAmount)
-            expect(resultBalances.evm.resolver - initialBalances.evm.resolver).toBe(sdkOrder.makingAmount)
+            expect(initialBalances.evm.user - resultBalances.evm.user).toBe(swap.order.makingAmount)
+            expect(resultBalances.evm.resolver - initialBalances.evm.resolver).toBe(swap.order.makingAmount)
 
             // Verify Aptos balances
-            const finalAptosUserBalance = await fungibleHelper.getBalance(aptosUserAccount.accountAddress.toString(), usdtMetadata)
-            const finalAptosResolverBalance = await fungibleHelper.getBalance(aptosResolverAccount.accountAddress.toString(), usdtMetadata)
-
-            // Verify that the resolver received USDT on Aptos (amount should match the swap)
-            expect(initialAptosResolverBalance - finalAptosResolverBalance).toBe(BigInt(ending_amount))
-            // Verify that the user's USDT balance decreased (they paid for the swap)
-            expect(finalAptosUserBalance - initialAptosUserBalance).toBe(BigInt(ending_amount))
+            const finalAptosUserBalance = await fungibleHelper.getBalance(
+                aptosUserAccount.accountAddress.toString(),
+                usdtMetadata
+            )
+            const finalAptosResolverBalance = await fungibleHelper.getBalance(
+                aptosResolverAccount.accountAddress.toString(),
+                usdtMetadata
+            )
 
-            // Log the final amounts for clarity
-            console.log(`💰 Final amounts:`)
-            console.log(`   - Resolver received: ${Number(sdkOrder.makingAmount) / 1_000_000} USDC on Ethereum`)
-            console.log(`   - User received: ${Number(finalAptosUserBalance - initialAptosUserBalance) / 1_000_000} USDT on Aptos`)
-            console.log(`   - Price decay saved: ${Number(starting_amount - ending_amount) / 1_000_000} USDT`)
+            // Verify that the resolver paid the decayed amount on Aptos
+            expect(initialAptosResolverBalance - finalAptosResolverBalance).toBe(endingAmount)
+            expect(finalAptosUserBalance - initialAptosUserBalance).toBe(endingAmount)
         })
 
         it('should swap Ethereum USDC -> Aptos USDT. Multiple fills. Fill 100%', async () => {
-            const initialBalances = await getBalances(
-                config.chain.evm.tokens.USDC.address,
-                config.chain.evm.tokens.USDC.address
-            )
+            const initialBalances = await getBalances(usdc.address)
 
             // Get initial Aptos balances
-            const initialAptosUserBalance = await fungibleHelper.getBalance(aptosUserAccount.accountAddress.toString(), usdtMetadata)
-            const initialAptosResolverBalance = await fungibleHelper.getBalance(aptosResolverAccount.accountAddress.toString(), usdtMetadata)
-
-            // Create secret for cross-chain swap
-            const secrets = Array.from({ length: 11 }).map(() => uint8ArrayToHex(randomBytes(32))) // note: use crypto secure random number in the real world
-            const secretHashes = secrets.map((s) => Sdk.HashLock.hashSecret(s))
-            const leaves = Sdk.HashLock.getMerkleLeaves(secrets)
-
-            // Create hash from secret for Aptos
-            const secretHash = secretHashes[secretHashes.length - 1]
-            const secretHashBytes = new Uint8Array(Buffer.from(secretHash.startsWith('0x') ? secretHash.slice(2) : secretHash, 'hex'))
-
-            let withdrawalPhase = 10n
-            let publicWithdrawalPhase = 100n
-            let privateCancellationPhase = 101n
-            let publicCancellationPhase = 102n
-
-            let makingAmount = parseUnits('100', 6)
-            let takingAmount = parseUnits('99', 6)
-
-            // Create SDK order for ETH side with real source chain values and dummy destination values
-            const sdkOrder = Sdk.CrossChainOrder.new(
-                new Address(evm.escrowFactory), // Real ETH escrow factory
-                {
-                    salt: Sdk.randBigInt(1000n),
-                    maker: new Address(await evmChainUser.getAddress()), // Real ETH maker
-                    makingAmount: makingAmount, // 100 USDC (6 decimals)
-                    takingAmount: takingAmount, // 99 USDT (6 decimals)
-                    makerAsset: new Address(config.chain.evm.tokens.USDC.address), // Real ETH USDC
-                    takerAsset: new Address('0x0000000000000000000000000000000000000000') // Dummy APT USDT
-                },
-                {
-                    hashLock: Sdk.HashLock.forMultipleFills(leaves),
-                    timeLocks: Sdk.TimeLocks.new({
-                        srcWithdrawal: withdrawalPhase,
-                        srcPublicWithdrawal: publicWithdrawalPhase,
-                        srcCancellation: privateCancellationPhase,
-                        srcPublicCancellation: publicCancellationPhase,
-                        dstWithdrawal: withdrawalPhase,
-                        dstPublicWithdrawal: publicWithdrawalPhase,
-                        dstCancellation: privateCancellationPhase
-                    }),
-                    srcChainId, // Real ETH chain ID
-                    dstChainId: aptosChainId, // Dummy APT chain ID
-                    srcSafetyDeposit: parseEther('0.001'), // Real ETH safety deposit
-                    dstSafetyDeposit: parseEther('0.001') // Dummy APT safety deposit
-                },
-                {
-                    auction: new Sdk.AuctionDetails({
-                        initialRateBump: 0,
-                        points: [],
-                        duration: 120n,
-                        startTime: srcTimestamp
-                    }),
-                    whitelist: [
-                        {
-                            address: new Address(evm.resolver), // Real ETH resolver
-                            allowFrom: 0n
-                        }
-                    ],
-                    resolvingStartTime: 0n
-                },
-                {
-                    nonce: Sdk.randBigInt(UINT_40_MAX),
-                    allowPartialFills: true,
-                    allowMultipleFills: true
-                }
+            const initialAptosUserBalance = await fungibleHelper.getBalance(
+                aptosUserAccount.accountAddress.toString(),
+                usdtMetadata
             )
-
-            // Create signature for SDK order
-            const signature = await evmChainUser.signOrder(srcChainId, sdkOrder)
-            const orderHash = sdkOrder.getOrderHash(srcChainId)
-
-            // Resolver fills order on source chain (ETH)
-            const resolverContract = new Resolver(evm.resolver, evm.resolver)
-
-
-            // Create Dutch auction on Aptos (destination chain) - USER creates this
-            console.log('📝 Creating Dutch auction on Aptos...')
-            const order_hash = new Uint8Array(Buffer.from('order_hash_123', 'utf8'))
-            const hashes = [secretHashBytes] // Single hash for full fill
-            const makerAsset = usdtMetadata // USDT metadata address
-            const safety_deposit_amount = BigInt(10_000) // 0.0001 APT (8 decimals)
-            const finality_duration = withdrawalPhase
-            const exclusive_duration = withdrawalPhase - finality_duration
-            const public_withdrawal_duration = publicWithdrawalPhase - exclusive_duration
-            const private_cancellation_duration = privateCancellationPhase - public_withdrawal_duration
-            const starting_amount = takingAmount
-            const ending_amount = takingAmount / 2n
-            const auction_start_time = BigInt(Math.floor(Date.now() / 1000)) // Current time
-            const decay_duration = BigInt(120) // 2 minutes decay
-            const auction_end_time = auction_start_time + decay_duration + BigInt(60) // End time after decay duration
-
-            const auctionResult = await dutchAuctionHelper.createAuction(
-                aptosUserAccount, // USER creates the auction
-                order_hash,
-                hashes,
-                makerAsset, // metadata
-                starting_amount,
-                ending_amount,
-                auction_start_time,
-                auction_end_time,
-                decay_duration,
-                safety_deposit_amount,
-                [APTOS_ACCOUNTS.RESOLVER.address] // resolver whitelist
-            );
-
-            console.log(`[APT]`, `Dutch auction created in tx ${auctionResult.auctionAddress}`)
-            expect(auctionResult.auctionAddress).toBeDefined()
-            expect(auctionResult.auctionAddress).not.toBe('')
-
-            // RESOLVER fills the Dutch auction
-            console.log(`[APT]`, '🔒 Creating escrow from Dutch auction...')
-            const escrowResult = await escrowHelper.createEscrowFromAuctionSingleFill(
-                aptosResolverAccount, // RESOLVER fills the auction
-                auctionResult.auctionAddress,
-                finality_duration,
-                exclusive_duration,
-                public_withdrawal_duration,
-                private_cancellation_duration
-            );
-
-            console.log(`[APT]`, `✅ Escrow created! Escrow address: ${escrowResult.escrowAddress}`)
-            expect(escrowResult.escrowAddress).toBeDefined()
-            expect(escrowResult.escrowAddress).not.toBe('')
-
-            console.log(`[ETH]`, `Creating escrow from order ${orderHash} for ${Number(sdkOrder.makingAmount) / 1_000_000} USDC`)
-            console.log(`   - User paying: ${Number(sdkOrder.makingAmount) / 1_000_000} USDC`)
-
-            const fillAmount = sdkOrder.makingAmount
-            const idx = secrets.length - 1// last index to fulfill
-
-            const { txHash: orderFillHash, blockHash: srcDeployBlock } = await evmChainResolver.send(
-                resolverContract.deploySrc(
-                    srcChainId,
-                    sdkOrder,
-                    signature,
-                    Sdk.TakerTraits.default()
-                        .setExtension(sdkOrder.extension)
-                        .setInteraction(
-                            new Sdk.EscrowFactory(new Address(evm.escrowFactory)).getMultipleFillInteraction(
-                                Sdk.HashLock.getProof(leaves, idx),
-                                idx,
-                                secretHashes[idx]
-                            )
-                        )
-                        .setAmountMode(Sdk.AmountMode.maker)
-                        .setAmountThreshold(sdkOrder.takingAmount),
-                    fillAmount,
-                    Sdk.HashLock.fromString(secretHashes[idx])
-                )
+            const initialAptosResolverBalance = await fungibleHelper.getBalance(
+                aptosResolverAccount.accountAddress.toString(),
+                usdtMetadata
             )
 
-            console.log(`[ETH]`, `Escrow created in tx ${orderFillHash}`)
+            const secrets = await vault.generate(11)
 
-            const srcEscrowEvent = await evmFactory.getSrcDeployEvent(srcDeployBlock)
-
-            const dstImmutables = srcEscrowEvent[0]
-                .withComplement(srcEscrowEvent[1])
-                .withTaker(new Address(resolverContract.dstAddress))
-
-            const ESCROW_SRC_IMPLEMENTATION = await evmFactory.getSourceImpl()
-
-            const srcEscrowAddress = new Sdk.EscrowFactory(new Address(evm.escrowFactory)).getSrcEscrowAddress(
-                srcEscrowEvent[0],
-                ESCROW_SRC_IMPLEMENTATION
+            const swap = await EthToAptosSwap.create(
+                ethToAptosContext(),
+                ethToAptosParams({
+                    secretSet: secrets.id,
+                    makingAmount: parseUnits('100', 6),
+                    takingAmount: parseUnits('99', 6)
+                }),
+                {
+                    [EthToAptosSwapState.SrcEscrowDeployed]: () => increaseTime(11)
+                }
             )
 
-            // Wait for the escrow to be processed (10 seconds to match finality_duration)
-            await increaseTime(11)
+            await swap.run()
 
-            // Withdraw from Aptos escrow using the secret
-            console.log(`[APT]`, `Withdrawing ${Number(sdkOrder.takingAmount) / 1_000_000} USDT from Aptos escrow`)
-            const aptosWithdrawTxHash = await escrowHelper.withdrawFromEscrow(
-                aptosResolverAccount,
-                escrowResult.escrowAddress,
-                secrets[idx]
-            );
+            expect(swap.state).toBe(EthToAptosSwapState.Completed)
+            expect(swap.fillIndex).toBe(secrets.hashes.length - 1) // last index to fulfill
 
-            console.log(`[APT]`, `Withdrawal successful in tx ${aptosWithdrawTxHash}`)
-            expect(aptosWithdrawTxHash).toBeDefined()
-
-            // Withdraw from ETH escrow using the secret
-            console.log(`[ETH]`, `Withdrawing ${Number(sdkOrder.makingAmount) / 1_000_000} USDC from ETH escrow`)
-            const { txHash: resolverWithdrawHash } = await evmChainResolver.send(
-                resolverContract.withdraw('src', srcEscrowAddress, secrets[idx], srcEscrowEvent[0])
-            )
-            console.log(`[ETH]`, `Withdrawal successful in tx ${resolverWithdrawHash}`)
-
-            const resultBalances = await getBalances(
-                config.chain.evm.tokens.USDC.address,
-                config.chain.evm.tokens.USDC.address
-            )
-
-            // Verify the cross-chain swap worked
-            console.log('🎉 Complete ETH → APT swap flow test completed!')
+            const resultBalances = await getBalances(usdc.address)
 
             // Verify that the user transferred funds to resolver on ETH
-            expect(initialBalances.evm.user - resultBalances.evm.user).toBe(sdkOrder.makingAmount)
-            expect(resultBalances.evm.resolver - initialBalances.evm.resolver).toBe(sdkOrder.makingAmount)
+            expect(initialBalances.evm.user - resultBalances.evm.user).toBe(swap.order.makingAmount)
+            expect(resultBalances.evm.resolver - initialBalances.evm.resolver).toBe(swap.order.makingAmount)
 
             // Verify Aptos balances
-            const finalAptosUserBalance = await fungibleHelper.getBalance(aptosUserAccount.accountAddress.toString(), usdtMetadata)
-            const finalAptosResolverBalance = await fungibleHelper.getBalance(aptosResolverAccount.accountAddress.toString(), usdtMetadata)
-
-            // Verify that the resolver received USDT on Aptos (amount should match the swap)
-            expect(initialAptosResolverBalance - finalAptosResolverBalance).toBe(BigInt(sdkOrder.takingAmount))
-            // Verify that the user's USDT balance decreased (they paid for the swap)
-            expect(finalAptosUserBalance - initialAptosUserBalance).toBe(BigInt(sdkOrder.takingAmount))
+            const finalAptosUserBalance = await fungibleHelper.getBalance(
+                aptosUserAccount.accountAddress.toString(),
+                usdtMetadata
+            )
+            const finalAptosResolverBalance = await fungibleHelper.getBalance(
+                aptosResolverAccount.accountAddress.toString(),
+                usdtMetadata
+            )
 
-            // Log the final amounts for clarity
-            console.log(`💰 Final amounts:`)
-            console.log(`   - Resolver received: ${Number(sdkOrder.makingAmount) / 1_000_000} USDC on Ethereum`)
-            console.log(`   - User received: ${Number(finalAptosUserBalance - initialAptosUserBalance) / 1_000_000} USDT on Aptos`)
+            expect(initialAptosResolverBalance - finalAptosResolverBalance).toBe(swap.order.takingAmount)
+            expect(finalAptosUserBalance - initialAptosUserBalance).toBe(swap.order.takingAmount)
         })
 
         it('should swap Ethereum USDC -> Aptos USDT. Multiple fills. Fill 50%', async () => {
-            const initialBalances = await getBalances(
-                config.chain.evm.tokens.USDC.address,
-                config.chain.evm.tokens.USDC.address
-            )
+            const initialBalances = await getBalances(usdc.address)
 
             // Get initial Aptos balances
-            const initialAptosUserBalance = await fungibleHelper.getBalance(aptosUserAccount.accountAddress.toString(), usdtMetadata)
-            const initialAptosResolverBalance = await fungibleHelper.getBalance(aptosResolverAccount.accountAddress.toString(), usdtMetadata)
-
-            // Create secret for cross-chain swap
-            const secrets = Array.from({ length: 11 }).map(() => uint8ArrayToHex(randomBytes(32))) // note: use crypto secure random number in the real world
-            const secretHashes = secrets.map((s) => Sdk.HashLock.hashSecret(s))
-            const leaves = Sdk.HashLock.getMerkleLeaves(secrets)
-
-            let withdrawalPhase = 10n
-            let publicWithdrawalPhase = 100n
-            let privateCancellationPhase = 101n
-            let publicCancellationPhase = 102n
-
-            let makingAmount = parseUnits('100', 6)
-            let takingAmount = parseUnits('99', 6)
-
-            // Create SDK order for ETH side with real source chain values and dummy destination values
-            const sdkOrder = Sdk.CrossChainOrder.new(
-                new Address(evm.escrowFactory), // Real ETH escrow factory
-                {
-                    salt: Sdk.randBigInt(1000n),
-                    maker: new Address(await evmChainUser.getAddress()), // Real ETH maker
-                    makingAmount: makingAmount, // 100 USDC (6 decimals)
-                    takingAmount: takingAmount, // 99 USDT (6 decimals)
-                    makerAsset: new Address(config.chain.evm.tokens.USDC.address), // Real ETH USDC
-                    takerAsset: new Address('0x0000000000000000000000000000000000000000') // Dummy APT USDT
-                },
-                {
-                    hashLock: Sdk.HashLock.forMultipleFills(leaves),
-                    timeLocks: Sdk.TimeLocks.new({
-                        srcWithdrawal: withdrawalPhase,
-                        srcPublicWithdrawal: publicWithdrawalPhase,
-                        srcCancellation: privateCancellationPhase,
-                        srcPublicCancellation: publicCancellationPhase,
-                        dstWithdrawal: withdrawalPhase,
-                        dstPublicWithdrawal: publicWithdrawalPhase,
-                        dstCancellation: privateCancellationPhase
-                    }),
-                    srcChainId, // Real ETH chain ID
-                    dstChainId: aptosChainId, // Dummy APT chain ID
-                    srcSafetyDeposit: parseEther('0.001'), // Real ETH safety deposit
-                    dstSafetyDeposit: parseEther('0.001') // Dummy APT safety deposit
-                },
-                {
-                    auction: new Sdk.AuctionDetails({
-                        initialRateBump: 0,
-                        points: [],
-                        duration: 120n,
-                        startTime: srcTimestamp
-                    }),
-                    whitelist: [
-                        {
-                            address: new Address(evm.resolver), // Real ETH resolver
-                            allowFrom: 0n
-                        }
-                    ],
-                    resolvingStartTime: 0n
-                },
-                {
-                    nonce: Sdk.randBigInt(UINT_40_MAX),
-                    allowPartialFills: true,
-                    allowMultipleFills: true
-                }
+            const initialAptosUserBalance = await fungibleHelper.getBalance(
+                aptosUserAccount.accountAddress.toString(),
+                usdtMetadata
             )
-
-
-            // Create hash bytes for each secret hash
-            const secretHashesBytes = secretHashes.map(hash =>
-                new Uint8Array(Buffer.from(hash.startsWith('0x') ? hash.slice(2) : hash, 'hex'))
-            )
-
-            // Create Dutch auction on Aptos (destination chain) - USER creates this - 50% of the amount
-            console.log('📝 Creating Dutch auction on Aptos...')
-            const order_hash = new Uint8Array(Buffer.from('order_hash_123', 'utf8'))
-            const hashes = secretHashesBytes // Multiple hashes for partial fills
-            const makerAsset = usdtMetadata // USDT metadata address
-            const safety_deposit_amount = BigInt(10_000) // 0.0001 APT (8 decimals)
-            const finality_duration = withdrawalPhase
-            const exclusive_duration = withdrawalPhase - finality_duration
-            const public_withdrawal_duration = publicWithdrawalPhase - exclusive_duration
-            const private_cancellation_duration = privateCancellationPhase - public_withdrawal_duration
-            const starting_amount = takingAmount
-            const ending_amount = takingAmount / 2n
-            const auction_start_time = BigInt(Math.floor(Date.now() / 1000)) // Current time
-            const decay_duration = BigInt(120) // 2 minutes decay
-            const auction_end_time = auction_start_time + decay_duration + BigInt(60) // End time after decay duration
-
-            const auctionResult = await dutchAuctionHelper.createAuction(
-                aptosUserAccount, // USER creates the auction
-                order_hash,
-                hashes,
-                makerAsset, // metadata
-                starting_amount,
-                ending_amount,
-                auction_start_time,
-                auction_end_time,
-                decay_duration,
-                safety_deposit_amount,
-                [APTOS_ACCOUNTS.RESOLVER.address] // resolver whitelist
-            );
-
-            console.log(`[APT]`, `Dutch auction created in tx ${auctionResult.auctionAddress}`)
-            expect(auctionResult.auctionAddress).toBeDefined()
-            expect(auctionResult.auctionAddress).not.toBe('')
-
-            const fillAmount = sdkOrder.makingAmount / 2n
-            const idx = Number((BigInt(secrets.length - 1) * (fillAmount - 1n)) / sdkOrder.makingAmount)
-
-            // RESOLVER fills the Dutch auction
-            console.log('🔒 Creating escrow from Dutch auction...')
-            const escrowResult = await escrowHelper.createEscrowFromAuctionPartialFill(
-                aptosResolverAccount, // RESOLVER fills the auction
-                auctionResult.auctionAddress,
-                idx,
-                finality_duration,
-                exclusive_duration,
-                public_withdrawal_duration,
-                private_cancellation_duration
-            );
-
-            console.log(`✅ Escrow created! Escrow address: ${escrowResult.escrowAddress}`)
-            expect(escrowResult.escrowAddress).toBeDefined()
-            expect(escrowResult.escrowAddress).not.toBe('')
-
-            // Resolver fills order on source chain (ETH) - 50% fill
-            const resolverContract = new Resolver(evm.resolver, evm.resolver)
-
-            // Create signature for SDK order
-            const signature = await evmChainUser.signOrder(srcChainId, sdkOrder)
-            const orderHash = sdkOrder.getOrderHash(srcChainId)
-
-
-            console.log(`[ETH]`, `Creating escrow from order ${orderHash} for ${Number(sdkOrder.makingAmount) / 1_000_000} USDC`)
-            console.log(`   - User paying: ${Number(sdkOrder.makingAmount) / 1_000_000} USDC`)
-
-            const { txHash: orderFillHash, blockHash: srcDeployBlock } = await evmChainResolver.send(
-                resolverContract.deploySrc(
-                    srcChainId,
-                    sdkOrder,
-                    signature,
-                    Sdk.TakerTraits.default()
-                        .setExtension(sdkOrder.extension)
-                        .setInteraction(
-                            new Sdk.EscrowFactory(new Address(evm.escrowFactory)).getMultipleFillInteraction(
-                                Sdk.HashLock.getProof(leaves, idx),
-                                idx,
-                                secretHashes[idx]
-                            )
-                        )
-                        .setAmountMode(Sdk.AmountMode.maker)
-                        .setAmountThreshold(sdkOrder.takingAmount),
-                    fillAmount,
-                    Sdk.HashLock.fromString(secretHashes[idx])
-                )
+            const initialAptosResolverBalance = await fungibleHelper.getBalance(
+                aptosResolverAccount.accountAddress.toString(),
+                usdtMetadata
             )
 
-            console.log(`[ETH]`, `Escrow created in tx ${orderFillHash}`)
-
-            const srcEscrowEvent = await evmFactory.getSrcDeployEvent(srcDeployBlock)
+            const secrets = await vault.generate(11)
+            const makingAmount = parseUnits('100', 6)
+            const takingAmount = parseUnits('99', 6)
 
-            const dstImmutables = srcEscrowEvent[0]
-                .withComplement(srcEscrowEvent[1])
-                .withTaker(new Address(resolverContract.dstAddress))
+            const fillAmount = makingAmount / 2n
 
-            const ESCROW_SRC_IMPLEMENTATION = await evmFactory.getSourceImpl()
-
-            const srcEscrowAddress = new Sdk.EscrowFactory(new Address(evm.escrowFactory)).getSrcEscrowAddress(
-                srcEscrowEvent[0],
-                ESCROW_SRC_IMPLEMENTATION
+            const swap = await EthToAptosSwap.create(
+                ethToAptosContext(),
+                ethToAptosParams({
+                    secretSet: secrets.id,
+                    makingAmount,
+                    takingAmount,
+                    fill: {amount: fillAmount}
+                }),
+                {
+                    [EthToAptosSwapState.SrcEscrowDeployed]: () => increaseTime(11)
+                }
             )
 
-            // Wait for the escrow to be processed (10 seconds to match finality_duration)
-            await increaseTime(11)
+            await swap.run()
 
-            // Withdraw from Aptos escrow using the secret
-            console.log(`[APT]`, `Withdrawing ${Number(sdkOrder.takingAmount) / 1_000_000} USDT from Aptos escrow`)
-            const aptosWithdrawTxHash = await escrowHelper.withdrawFromEscrow(
-                aptosResolverAccount,
-                escrowResult.escrowAddress,
-                secrets[idx]
-            );
+            expect(swap.state).toBe(EthToAptosSwapState.Completed)
+            expect(swap.fillIndex).toBe(4) // half of the order ends in the 5th of 10 parts
+            expect(swap.fillPlan.segment).toBe(swap.fillIndex)
 
-            console.log(`[APT]`, `Withdrawal successful in tx ${aptosWithdrawTxHash}`)
-            expect(aptosWithdrawTxHash).toBeDefined()
-
-            // Withdraw from ETH escrow using the secret
-            console.log(`[ETH]`, `Withdrawing ${Number(sdkOrder.makingAmount) / 1_000_000} USDC from ETH escrow`)
-            const { txHash: resolverWithdrawHash } = await evmChainResolver.send(
-                resolverContract.withdraw('src', srcEscrowAddress, secrets[idx], srcEscrowEvent[0])
-            )
-            console.log(`[ETH]`, `Withdrawal successful in tx ${resolverWithdrawHash}`)
-
-            const resultBalances = await getBalances(
-                config.chain.evm.tokens.USDC.address,
-                config.chain.evm.tokens.USDC.address
-            )
-
-            // Verify the cross-chain swap worked
-            console.log('🎉 Complete ETH → APT swap flow test completed!')
+            const resultBalances = await getBalances(usdc.address)
 
             // Verify that the user transferred funds to resolver on ETH (50% fill)
             expect(initialBalances.evm.user - resultBalances.evm.user).toBe(fillAmount)
             expect(resultBalances.evm.resolver - initialBalances.evm.resolver).toBe(fillAmount)
 
             // Verify Aptos balances
-            const finalAptosUserBalance = await fungibleHelper.getBalance(aptosUserAccount.accountAddress.toString(), usdtMetadata)
-            const finalAptosResolverBalance = await fungibleHelper.getBalance(aptosResolverAccount.accountAddress.toString(), usdtMetadata)
+            const finalAptosUserBalance = await fungibleHelper.getBalance(
+                aptosUserAccount.accountAddress.toString(),
+                usdtMetadata
+            )
+            const finalAptosResolverBalance = await fungibleHelper.getBalance(
+                aptosResolverAccount.accountAddress.toString(),
+                usdtMetadata
+            )
 
             // Verify that the resolver received USDT on Aptos (amount should match the swap)
-            expect(initialAptosResolverBalance - finalAptosResolverBalance).toBe(BigInt(sdkOrder.takingAmount / 2n))
+            expect(initialAptosResolverBalance - finalAptosResolverBalance).toBe(takingAmount / 2n)
             // Verify that the user's USDT balance decreased (they paid for the swap)
-            expect(finalAptosUserBalance - initialAptosUserBalance).toBe(BigInt(sdkOrder.takingAmount / 2n))
+            expect(finalAptosUserBalance - initialAptosUserBalance).toBe(takingAmount / 2n)
         })
-
     })
 
-    // eslint-disable-next-line max-lines-per-function
     describe('APT -> ETH Fill', () => {
         it('should swap Aptos USDT -> Ethereum USDC. Single fill only', async () => {
-            const initialBalances = await getBalances(
-                config.chain.evm.tokens.USDC.address,
-                config.chain.evm.tokens.USDC.address
-            )
+            const initialBalances = await getBalances(usdc.address)
 
             // Get initial Aptos balances
-            const initialAptosUserBalance = await fungibleHelper.getBalance(aptosUserAccount.accountAddress.toString(), usdtMetadata)
-            const initialAptosResolverBalance = await fungibleHelper.getBalance(aptosResolverAccount.accountAddress.toString(), usdtMetadata)
+            const initialAptosUserBalance = await fungibleHelper.getBalance(
+                aptosUserAccount.accountAddress.toString(),
+                usdtMetadata
+            )
+            const initialAptosResolverBalance = await fungibleHelper.getBalance(
+                aptosResolverAccount.accountAddress.toString(),
+                usdtMetadata
+            )
 
-            // Create secret for cross-chain swap
-            const secret = uint8ArrayToHex(randomBytes(32)) // note: use crypto secure random number in real world
-            const secretBytes = new Uint8Array(Buffer.from(secret.startsWith('0x') ? secret.slice(2) : secret, 'hex'))
+            // Maker's secret for the cross-chain swap, kept in the vault
+            const secretSet = await vault.generate()
 
-            // Adjust hash from secret for Aptos
-            const secretHash = await hashlockHelper.createHashFromSecret(secretBytes)
-            const secretHashBytes = new Uint8Array(Buffer.from(secretHash.startsWith('0x') ? secretHash.slice(2) : secretHash, 'hex'))
+            const withdrawalPhase = 10n
+            const publicWithdrawalPhase = 100n
+            const privateCancellationPhase = 101n
+            const publicCancellationPhase = 102n
 
-            let withdrawalPhase = 10n
-            let publicWithdrawalPhase = 100n
-            let privateCancellationPhase = 101n
-            let publicCancellationPhase = 102n
+            const makingAmount = parseUnits('99', 6)
+            const takingAmount = parseUnits('100', 6)
 
-            let makingAmount = parseUnits('99', 6)
-            let takingAmount = parseUnits('100', 6)
+            // Maker and asset on Aptos, the order commits to them in its extension
+            const aptosLeg: AptosLeg = {
+                chainId: aptosChainId,
+                side: 'src',
+                account: APTOS_ACCOUNTS.USER.address,
+                asset: usdtMetadata
+            }
 
             // Create SDK order for ETH side with dummy source chain values and real destination values
-            const sdkOrder = Sdk.CrossChainOrder.new(
+            const sdkOrder = newAptosOrder(
+                aptosLeg,
                 new Address('0x0000000000000000000000000000000000000000'), // Dummy APT escrow factory
                 {
-                    salt: Sdk.randBigInt(1000n),
-                    maker: new Address('0x0000000000000000000000000000000000000000'), // Dummy APT maker
+                    maker: new Address('0x0000000000000000000000000000000000000000'), // Maker is in the Aptos leg
+                    receiver: new Address(await evmChainUser.getAddress()), // Receives the ETH side
                     makingAmount: makingAmount, // 99 USDT (6 decimals) - APT side
                     takingAmount: takingAmount, // 100 USDC (6 decimals) - ETH side
                     makerAsset: new Address('0x0000000000000000000000000000000000000000'), // Dummy APT USDT
-                    takerAsset: new Address(config.chain.evm.tokens.USDC.address) // Real ETH USDC
+                    takerAsset: new Address(usdc.address) // Real ETH USDC
                 },
                 {
-                    hashLock: Sdk.HashLock.forSingleFill(secret),
+                    hashLock: vault.hashLock(secretSet.id),
                     timeLocks: Sdk.TimeLocks.new({
                         srcWithdrawal: withdrawalPhase,
                         srcPublicWithdrawal: publicWithdrawalPhase,
@@ -1126,8 +560,7 @@ describe('Resolving example', () => {
                         dstPublicWithdrawal: publicWithdrawalPhase,
                         dstCancellation: privateCancellationPhase
                     }),
-                    srcChainId: aptosChainId, // Dummy APT chain ID
-                    dstChainId, // Real ETH chain ID
+                    evmChainId: dstChainId, // Real ETH chain ID, the Aptos one is in the Aptos leg
                     srcSafetyDeposit: parseEther('0.001'), // Dummy APT safety deposit
                     dstSafetyDeposit: parseEther('0.001') // Real ETH safety deposit
                 },
@@ -1155,345 +588,126 @@ describe('Resolving example', () => {
 
             // Create fusion order on Aptos (source chain) - USER creates this
             console.log('📝 Creating fusion order on Aptos (source chain)...')
-            const order_hash = new Uint8Array(Buffer.from('order_hash_123', 'utf8'))
-            const hashes = [secretHashBytes] // Single hash for full fill
+            const order_hash = sdkOrder.getOrderHash(dstChainId)
+            await vault.bindOrder(secretSet.id, order_hash)
             const makerAsset = usdtMetadata // USDT metadata address
             const safety_deposit_amount = BigInt(10_000) // 0.0001 APT (8 decimals)
-            const finality_duration = withdrawalPhase
-            const exclusive_duration = withdrawalPhase - finality_duration
-            const public_withdrawal_duration = publicWithdrawalPhase - exclusive_duration
-            const private_cancellation_duration = privateCancellationPhase - public_withdrawal_duration
+            const durations = new TimelockTranslator('src').toAptosDurations(sdkOrder.escrowExtension.timeLocks)
             const amount = makingAmount
 
             const fusionOrderResult = await fusionOrderHelper.createOrder(
                 aptosUserAccount, // USER creates the fusion order
                 order_hash,
-                [secretHashBytes], // Single hash for full fill
+                vault.aptosHashes(order_hash), // Single hash for full fill
                 makerAsset, // metadata
                 amount,
                 [APTOS_ACCOUNTS.RESOLVER.address], // resolver whitelist
                 safety_deposit_amount,
-                finality_duration,
-                exclusive_duration,
-                public_withdrawal_duration,
-                private_cancellation_duration
-            );
+                durations.finality,
+                durations.exclusive,
+                durations.publicWithdrawal,
+                durations.privateCancellation
+            )
 
             console.log(`✅ Fusion order created! Order address: ${fusionOrderResult.orderAddress}`)
-            console.log(`   - User transferring: ${Number(amount) / 1_000_000} USDT`)
-
             expect(fusionOrderResult.orderAddress).toBeDefined()
             expect(fusionOrderResult.orderAddress).not.toBe('')
 
-            // Resolver fills order on destination chain (ETH)
-            const resolverContract = new Resolver(evm.resolver, evm.resolver)
-
-            console.log(`[${dstChainId}]`, `Filling order on ETH (destination chain)`)
-
-            const orderHash = sdkOrder.getOrderHash(srcChainId)
-            // Create dst immutables for ETH side
-            const dstImmutablesBase = Sdk.Immutables.new({
-                orderHash: sdkOrder.getOrderHash(dstChainId), // Dummy APT chain ID
-                hashLock: Sdk.HashLock.forSingleFill(secret),
-                maker: new Address(await evmChainUser.getAddress()), // ETH maker
-                taker: new Address(resolverContract.dstAddress), // ETH taker
-                token: new Address(config.chain.evm.tokens.USDC.address), // ETH USDC
-                amount: sdkOrder.makingAmount, // ETH taking amount
-                safetyDeposit: parseEther('0.001'), // Real ETH safety deposit
-                timeLocks: Sdk.TimeLocks.new({
-                    srcWithdrawal: 10n,
-                    srcPublicWithdrawal: 120n,
-                    srcCancellation: 121n,
-                    srcPublicCancellation: 122n,
-                    dstWithdrawal: 10n,
-                    dstPublicWithdrawal: 100n,
-                    dstCancellation: 101n
-                })
-            })
-
-            const dstComplement = Sdk.DstImmutablesComplement.new({
-                maker: new Address(await evmChainUser.getAddress()), // ETH maker
-                amount: sdkOrder.takingAmount, // ETH making amount
-                token: new Address(config.chain.evm.tokens.USDC.address), // ETH USDC
-                safetyDeposit: parseEther('0.001') // Real ETH safety deposit
-            })
-
-            const currentBlock = await evm.provider.getBlock('latest')
-            const currentTime = currentBlock?.timestamp || 0
-
-            const dstImmutables = dstImmutablesBase
-                .withComplement(dstComplement)
-                .withTaker(new Address(resolverContract.dstAddress))
-                .withDeployedAt(BigInt(currentTime))
-
-            console.log(`[${dstChainId}]`, `Creating escrow from order ${orderHash} for ${Number(dstImmutables.amount) / 1_000_000} USDC`)
-            console.log(`   - Resolver paying: ${Number(dstImmutables.amount) / 1_000_000} USDC`)
-            const { txHash: dstDepositHash, blockTimestamp: dstDeployedAt } = await evmChainResolver.send(
-                resolverContract.deployDst(dstImmutables)
-            )
-
-            console.log(`[${dstChainId}]`, `Escrow created in tx ${dstDepositHash}`)
-
-            const ESCROW_DST_IMPLEMENTATION = await evmFactory.getDestinationImpl()
-
-            const dstEscrowAddress = new Sdk.EscrowFactory(new Address(evm.escrowFactory)).getDstEscrowAddress(
-                dstImmutablesBase,
-                dstComplement,
-                dstDeployedAt,
-                new Address(resolverContract.dstAddress),
-                ESCROW_DST_IMPLEMENTATION
+            // Resolver derives the ETH escrow from the Aptos fusion order and fills both legs
+            const swap = await AptosToEthSwap.create(
+                {
+                    evm: {
+                        chainId: dstChainId,
+                        resolverContract: new Resolver(evm.resolver, evm.resolver)
+                    },
+                    aptos: {
+                        fusionOrder: fusionOrderHelper
+                    },
+                    chains: {src: aptosAdapter(), dst: evmAdapter(dstChainId)},
+                    journal
+                },
+                {
+                    order: sdkOrder,
+                    fusionOrder: fusionOrderResult.orderAddress,
+                    dstSafetyDeposit: parseEther('0.001'), // Real ETH safety deposit
+                    aptosLeg
+                },
+                {
+                    // Wait for the escrow to be processed (10 seconds to match finality_duration)
+                    [AptosToEthSwapState.SrcEscrowDeployed]: () => increaseTime(11)
+                }
             )
 
+            await swap.run(AptosToEthSwapState.SrcEscrowDeployed)
 
-            // RESOLVER fills the fusion order on Aptos (source chain)
-            console.log('🔒 Creating escrow from fusion order on Aptos...')
-            console.log(`   - Resolver paying: ${Number(amount) / 1_000_000} USDT`)
-            const escrowResult = await escrowHelper.createEscrowFromOrderSingleFill(
-                aptosResolverAccount, // RESOLVER fills the fusion order
-                fusionOrderResult.orderAddress
-            );
-
-            console.log(`[APT]`, `Escrow created in tx ${escrowResult.escrowAddress}`)
-            expect(escrowResult.escrowAddress).toBeDefined()
-            expect(escrowResult.escrowAddress).not.toBe('')
-
-            // Wait for the escrow to be processed (10 seconds to match finality_duration)
-            await increaseTime(11)
+            expect(swap.srcEscrow?.address).toBeTruthy()
 
             // User shares key after validation of dst escrow deployment
-            console.log(`[${dstChainId}]`, `Withdrawing ${Number(sdkOrder.takingAmount) / 1_000_000} USDC from ETH escrow`)
+            swap.revealSecret(vault.reveal({orderHash: order_hash, index: 0, hashLock: secretSet.hashes[0]}))
+            await swap.run()
 
-            await evmChainResolver.send(
-                resolverContract.withdraw('dst', dstEscrowAddress, secret, dstImmutables.withDeployedAt(dstDeployedAt))
-            )
-            const resultBalances = await getBalances(
-                config.chain.evm.tokens.USDC.address,
-                config.chain.evm.tokens.USDC.address
-            )
+            expect(swap.state).toBe(AptosToEthSwapState.Completed)
+            expect(swap.srcWithdrawTx).toBeDefined()
 
-            // Withdraw from Aptos escrow using the secret
-            console.log(`[APT]`, `Withdrawing ${Number(sdkOrder.takingAmount) / 1_000_000} USDT from Aptos escrow`)
-            const aptosWithdrawTxHash = await escrowHelper.withdrawFromEscrow(
-                aptosResolverAccount,
-                escrowResult.escrowAddress,
-                secret
-            );
-
-            console.log(`[APT]`, `Withdrawal successful in tx ${aptosWithdrawTxHash}`)
-            expect(aptosWithdrawTxHash).toBeDefined()
-
-            // Verify the cross-chain swap worked
-            console.log('🎉 APT → ETH swap completed successfully!')
+            const resultBalances = await getBalances(usdc.address)
 
             // Verify that the resolver transferred funds to user on ETH
             expect(resultBalances.evm.user - initialBalances.evm.user).toBe(sdkOrder.takingAmount)
             expect(initialBalances.evm.resolver - resultBalances.evm.resolver).toBe(sdkOrder.takingAmount)
 
             // Verify Aptos balances
-            const finalAptosUserBalance = await fungibleHelper.getBalance(aptosUserAccount.accountAddress.toString(), usdtMetadata)
-            const finalAptosResolverBalance = await fungibleHelper.getBalance(aptosResolverAccount.accountAddress.toString(), usdtMetadata)
+            const finalAptosUserBalance = await fungibleHelper.getBalance(
+                aptosUserAccount.accountAddress.toString(),
+                usdtMetadata
+            )
+            const finalAptosResolverBalance = await fungibleHelper.getBalance(
+                aptosResolverAccount.accountAddress.toString(),
+                usdtMetadata
+            )
 
             // Verify that the resolver received USDT on Aptos (amount should match the swap)
             expect(finalAptosResolverBalance - initialAptosResolverBalance).toBe(BigInt(sdkOrder.makingAmount))
             // Verify that the user's USDT balance decreased (they paid for the swap)
             expect(initialAptosUserBalance - finalAptosUserBalance).toBe(BigInt(sdkOrder.makingAmount))
-
-            // Log the final amounts for clarity
-            console.log(`💰 Final amounts:`)
-            console.log(`   - User received: ${Number(sdkOrder.takingAmount) / 1_000_000} USDC on Ethereum`)
-            console.log(`   - Resolver received: ${Number(finalAptosResolverBalance - initialAptosResolverBalance) / 1_000_000} USDT on Aptos`)
         })
-
     })
 
-    // eslint-disable-next-line max-lines-per-function
     describe('Cancel', () => {
         it('should cancel swap Ethereum USDC -> Aptos USDT', async () => {
-
-            const initialBalances = await getBalances(
-                config.chain.evm.tokens.USDC.address,
-                config.chain.evm.tokens.USDC.address
-            )
-
-            // Create secret for cross-chain swap
-            const secret = uint8ArrayToHex(randomBytes(32)) // note: use crypto secure random number in real world
-            const secretBytes = new Uint8Array(Buffer.from(secret.startsWith('0x') ? secret.slice(2) : secret, 'hex'))
-
-            // Create hash from secret for Aptos
-            const secretHash = await hashlockHelper.createHashFromSecret(secretBytes)
-            const secretHashBytes = new Uint8Array(Buffer.from(secretHash.startsWith('0x') ? secretHash.slice(2) : secretHash, 'hex'))
-
-            let withdrawalPhase = 1n
-            let publicWithdrawalPhase = 10n
-            let privateCancellationPhase = 11n
-            let publicCancellationPhase = 12n
-
-            let makingAmount = parseUnits('100', 6)
-            let takingAmount = parseUnits('99', 6)
-
-            // Create SDK order for ETH side with real source chain values and dummy destination values
-            const sdkOrder = Sdk.CrossChainOrder.new(
-                new Address(evm.escrowFactory), // Real ETH escrow factory
-                {
-                    salt: Sdk.randBigInt(1000n),
-                    maker: new Address(await evmChainUser.getAddress()), // Real ETH maker
-                    makingAmount: makingAmount, // 100 USDC (6 decimals)
-                    takingAmount: takingAmount, // 99 USDT (6 decimals)
-                    makerAsset: new Address(config.chain.evm.tokens.USDC.address), // Real ETH USDC
-                    takerAsset: new Address('0x0000000000000000000000000000000000000000') // Dummy APT USDT
-                },
-                {
-                    hashLock: Sdk.HashLock.forSingleFill(secret),
-                    timeLocks: Sdk.TimeLocks.new({
-                        srcWithdrawal: withdrawalPhase,
-                        srcPublicWithdrawal: publicWithdrawalPhase,
-                        srcCancellation: privateCancellationPhase,
-                        srcPublicCancellation: publicCancellationPhase,
-                        dstWithdrawal: withdrawalPhase,
-                        dstPublicWithdrawal: publicWithdrawalPhase,
-                        dstCancellation: privateCancellationPhase
-                    }),
-                    srcChainId, // Real ETH chain ID
-                    dstChainId: aptosChainId, // Dummy APT chain ID
-                    srcSafetyDeposit: parseEther('0.001'), // Real ETH safety deposit
-                    dstSafetyDeposit: parseEther('0.001') // Dummy APT safety deposit
-                },
-                {
-                    auction: new Sdk.AuctionDetails({
-                        initialRateBump: 0,
-                        points: [],
-                        duration: 120n,
-                        startTime: srcTimestamp
-                    }),
-                    whitelist: [
-                        {
-                            address: new Address(evm.resolver), // Real ETH resolver
-                            allowFrom: 0n
-                        }
-                    ],
-                    resolvingStartTime: 0n
-                },
-                {
-                    nonce: Sdk.randBigInt(UINT_40_MAX),
-                    allowPartialFills: false,
-                    allowMultipleFills: false
-                }
-            )
-
-            // Create signature for SDK order
-            const signature = await evmChainUser.signOrder(srcChainId, sdkOrder)
-            const orderHash = sdkOrder.getOrderHash(srcChainId)
-
-
-            // Create Dutch auction on Aptos (destination chain) - USER creates this
-            console.log('📝 Creating Dutch auction on Aptos...')
-            const order_hash = new Uint8Array(Buffer.from('order_hash_123', 'utf8'))
-            const hashes = [secretHashBytes] // Single hash for full fill
-            const makerAsset = usdtMetadata // USDT metadata address
-            const safety_deposit_amount = BigInt(10_000) // 0.0001 APT (8 decimals)
-            const finality_duration = withdrawalPhase
-            const exclusive_duration = withdrawalPhase - finality_duration
-            const public_withdrawal_duration = publicWithdrawalPhase - exclusive_duration
-            const private_cancellation_duration = privateCancellationPhase - public_withdrawal_duration
-            const starting_amount = takingAmount
-            const ending_amount = takingAmount / 2n
-            const auction_start_time = BigInt(Math.floor(Date.now() / 1000)) // Current time
-            const decay_duration = BigInt(120) // 2 minutes decay
-            const auction_end_time = auction_start_time + decay_duration + BigInt(60) // End time after decay duration
-
-            const auctionResult = await dutchAuctionHelper.createAuction(
-                aptosUserAccount, // USER creates the auction
-                order_hash,
-                hashes,
-                makerAsset, // metadata
-                starting_amount,
-                ending_amount,
-                auction_start_time,
-                auction_end_time,
-                decay_duration,
-                safety_deposit_amount,
-                [APTOS_ACCOUNTS.RESOLVER.address] // resolver whitelist
-            );
-
-            console.log(`✅ Dutch auction created! Auction address: ${auctionResult.auctionAddress}`)
-            expect(auctionResult.auctionAddress).toBeDefined()
-            expect(auctionResult.auctionAddress).not.toBe('')
-
-            // RESOLVER fills the Dutch auction
-            console.log('🔒 Creating escrow from Dutch auction...')
-            const escrowResult = await escrowHelper.createEscrowFromAuctionSingleFill(
-                aptosResolverAccount, // RESOLVER fills the auction
-                auctionResult.auctionAddress,
-                finality_duration,
-                exclusive_duration,
-                public_withdrawal_duration,
-                private_cancellation_duration
-            );
-
-            console.log(`✅ Escrow created! Escrow address: ${escrowResult.escrowAddress}`)
-            expect(escrowResult.escrowAddress).toBeDefined()
-            expect(escrowResult.escrowAddress).not.toBe('')
-
-
-            // Resolver fills order on source chain (ETH)
-            const resolverContract = new Resolver(evm.resolver, evm.resolver)
-
-            console.log(`[ETH]`, `Creating escrow from order ${orderHash} for ${Number(sdkOrder.makingAmount) / 1_000_000} USDC`)
-            console.log(`   - User paying: ${Number(sdkOrder.makingAmount) / 1_000_000} USDC`)
-
-            const fillAmount = sdkOrder.makingAmount
-            const { txHash: orderFillHash, blockHash: srcDeployBlock } = await evmChainResolver.send(
-                resolverContract.deploySrc(
-                    srcChainId,
-                    sdkOrder,
-                    signature,
-                    Sdk.TakerTraits.default()
-                        .setExtension(sdkOrder.extension)
-                        .setAmountMode(Sdk.AmountMode.maker)
-                        .setAmountThreshold(sdkOrder.takingAmount),
-                    fillAmount
-                )
+            const initialBalances = await getBalances(usdc.address)
+
+            const swap = await EthToAptosSwap.create(
+                ethToAptosContext(),
+                ethToAptosParams({
+                    secretSet: (await vault.generate()).id,
+                    makingAmount: parseUnits('100', 6),
+                    takingAmount: parseUnits('99', 6),
+                    phases: {
+                        withdrawal: 1n,
+                        publicWithdrawal: 10n,
+                        privateCancellation: 11n,
+                        publicCancellation: 12n
+                    }
+                })
             )
 
-            console.log(`[ETH]`, `Escrow created in tx ${orderFillHash}`)
-
-            const srcEscrowEvent = await evmFactory.getSrcDeployEvent(srcDeployBlock)
-
-            const dstImmutables = srcEscrowEvent[0]
-                .withComplement(srcEscrowEvent[1])
-                .withTaker(new Address(resolverContract.dstAddress))
+            await swap.run(EthToAptosSwapState.SrcEscrowDeployed)
 
-            const ESCROW_SRC_IMPLEMENTATION = await evmFactory.getSourceImpl()
-
-            const srcEscrowAddress = new Sdk.EscrowFactory(new Address(evm.escrowFactory)).getSrcEscrowAddress(
-                srcEscrowEvent[0],
-                ESCROW_SRC_IMPLEMENTATION
-            )
+            expect(swap.dstEscrow?.address).toBeTruthy()
 
             // Wait for cancellation time (10 seconds)
             await increaseTime(15)
 
-            // Cancel Aptos escrow (user does not share secret)
-            console.log('❌ Cancelling Aptos escrow...')
-            const aptosCancelTxHash = await escrowHelper.cancelEscrow(
-                aptosResolverAccount,
-                escrowResult.escrowAddress
-            );
-
-            console.log(`✅ Aptos cancellation successful! Transaction: ${aptosCancelTxHash}`)
-            expect(aptosCancelTxHash).toBeDefined()
+            // Cancel both escrows (user does not share secret)
+            await swap.cancel()
 
-            // Cancel ETH escrow (user does not share secret)
-            console.log(`[ETH]`, `Cancelling ETH escrow ${srcEscrowAddress}`)
-            const { txHash: cancelSrcEscrow } = await evmChainResolver.send(
-                resolverContract.cancel('src', srcEscrowAddress, srcEscrowEvent[0])
-            )
-            console.log(`[ETH]`, `Cancelled ETH escrow ${srcEscrowAddress} in tx ${cancelSrcEscrow}`)
+            expect(swap.state).toBe(EthToAptosSwapState.Cancelled)
+            expect((await journal.history(swap.orderHash)).at(-1)?.record).toMatchObject({
+                state: EthToAptosSwapState.Cancelled,
+                finished: true
+            })
 
-            const resultBalances = await getBalances(
-                config.chain.evm.tokens.USDC.address,
-                config.chain.evm.tokens.USDC.address
-            )
+            const resultBalances = await getBalances(usdc.address)
 
             // Verify that balances are unchanged (cancellation successful)
             expect(initialBalances).toEqual(resultBalances)
@@ -1501,10 +715,29 @@ describe('Resolving example', () => {
     })
 })
 
+/**
+ * Start every chain in parallel, keyed by chain id
+ */
+async function initChains(cnfs: ChainConfig[]): Promise<Map<number, Awaited<ReturnType<typeof initChain>>>> {
+    const chains = await Promise.all(cnfs.map((cnf) => initChain(cnf)))
+
+    return new Map(chains.map((chain, i) => [cnfs[i].chainId, chain]))
+}
+
 async function initChain(
     cnf: ChainConfig
-): Promise<{ node?: CreateServerReturnType; provider: JsonRpcProvider; escrowFactory: string; resolver: string }> {
-    const { node, provider } = await getProvider(cnf)
+): Promise<{node?: CreateServerReturnType; provider: JsonRpcProvider; escrowFactory: string; resolver: string}> {
+    const {node, provider} = await getProvider(cnf)
+
+    if (cnf.escrowFactory && cnf.resolver) {
+        console.log(
+            `[${cnf.chainId}]`,
+            `Using deployed escrow factory ${cnf.escrowFactory} and resolver ${cnf.resolver}`
+        )
+
+        return {node, provider, escrowFactory: cnf.escrowFactory, resolver: cnf.resolver}
+    }
+
     const deployer = new SignerWallet(cnf.ownerPrivateKey, provider)
 
     // deploy EscrowFactory
@@ -1534,10 +767,11 @@ async function initChain(
         provider,
         deployer
     )
-    return { node: node, provider, resolver, escrowFactory }
+
+    return {node: node, provider, resolver, escrowFactory}
 }
 
-async function getProvider(cnf: ChainConfig): Promise<{ node?: CreateServerReturnType; provider: JsonRpcProvider }> {
+async function getProvider(cnf: ChainConfig): Promise<{node?: CreateServerReturnType; provider: JsonRpcProvider}> {
     if (!cnf.createFork) {
         return {
             provider: new JsonRpcProvider(cnf.url, cnf.chainId, {
@@ -1548,7 +782,7 @@ async function getProvider(cnf: ChainConfig): Promise<{ node?: CreateServerRetur
     }
 
     const node = createServer({
-        instance: anvil({ forkUrl: cnf.url, chainId: cnf.chainId }),
+        instance: anvil({forkUrl: cnf.url, chainId: cnf.chainId}),
         limit: 1
     })
     await node.start()
@@ -1571,7 +805,7 @@ async function getProvider(cnf: ChainConfig): Promise<{ node?: CreateServerRetur
  * Deploy contract and return its address
  */
 async function deploy(
-    json: { abi: any; bytecode: any },
+    json: {abi: any; bytecode: any},
     params: unknown[],
     provider: JsonRpcProvider,
     deployer: SignerWallet
@@ -0,0 +1,130 @@
+import {expect} from '@jest/globals'
+import Sdk from '@1inch/cross-chain-sdk'
+
+import {
+    aptosChainIdOf,
+    AptosChainId,
+    AptosLeg,
+    aptosLegOf,
+    decodeAptosLeg,
+    encodeAptosLeg,
+    newAptosOrder,
+    verifyAptosLeg
+} from './aptos-order'
+
+const EVM_CHAIN_ID = Sdk.NetworkEnum.ETHEREUM
+
+const LEG: AptosLeg = {
+    chainId: AptosChainId.APTOS_TESTNET,
+    side: 'dst',
+    account: '0x' + 'bb'.repeat(32),
+    asset: '0x' + 'cc'.repeat(32)
+}
+
+const TIMELOCKS = Sdk.TimeLocks.new({
+    srcWithdrawal: 10n,
+    srcPublicWithdrawal: 20n,
+    srcCancellation: 30n,
+    srcPublicCancellation: 40n,
+    dstWithdrawal: 10n,
+    dstPublicWithdrawal: 20n,
+    dstCancellation: 30n
+})
+
+function buildOrder(leg: AptosLeg): Sdk.CrossChainOrder {
+    return newAptosOrder(
+        leg,
+        new Sdk.Address('0x' + '55'.repeat(20)),
+        {
+            salt: 1n,
+            maker: new Sdk.Address('0x' + '11'.repeat(20)),
+            makingAmount: 100n,
+            takingAmount: 99n,
+            makerAsset: new Sdk.Address('0x' + '22'.repeat(20)),
+            takerAsset: new Sdk.Address('0x' + '00'.repeat(20))
+        },
+        {
+            hashLock: Sdk.HashLock.forSingleFill('0x' + '33'.repeat(32)),
+            timeLocks: TIMELOCKS,
+            evmChainId: EVM_CHAIN_ID,
+            srcSafetyDeposit: 10n,
+            dstSafetyDeposit: 10n
+        },
+        {
+            auction: new Sdk.AuctionDetails({initialRateBump: 0, points: [], duration: 120n, startTime: 0n}),
+            whitelist: [{address: new Sdk.Address('0x' + '44'.repeat(20)), allowFrom: 0n}],
+            resolvingStartTime: 0n
+        },
+        {nonce: 1n}
+    )
+}
+
+describe('Aptos order', () => {
+    it('should derive the chain id from the network unless it is configured', () => {
+        const packages = {fusion: '0x1', usdt: '0x2'}
+
+        expect(aptosChainIdOf({network: 'testnet', packages})).toBe(AptosChainId.APTOS_TESTNET)
+        expect(aptosChainIdOf({network: 'local', packages})).toBe(AptosChainId.APTOS_LOCAL)
+        expect(aptosChainIdOf({network: 'custom', nodeUrl: 'http://node', chainId: 1_000_042, packages})).toBe(
+            1_000_042
+        )
+        expect(() => aptosChainIdOf({network: 'custom', nodeUrl: 'http://node', packages})).toThrow(
+            'chainId must be configured'
+        )
+    })
+
+    it('should round-trip the leg through the custom data with 32 bytes addresses', () => {
+        const short = {...LEG, side: 'src', account: '0x1', asset: '0xa'} as const
+
+        expect(decodeAptosLeg(encodeAptosLeg(LEG))).toEqual(LEG)
+        expect(decodeAptosLeg(encodeAptosLeg(short))).toEqual({
+            ...short,
+            account: '0x' + '0'.repeat(63) + '1',
+            asset: '0x' + '0'.repeat(63) + 'a'
+        })
+    })
+
+    it('should only encode legs on Aptos chains', () => {
+        expect(() => encodeAptosLeg({...LEG, chainId: EVM_CHAIN_ID})).toThrow(
+            `${EVM_CHAIN_ID} is not an Aptos chain id`
+        )
+    })
+
+    it('should refuse addresses and custom data of the wrong length', () => {
+        const data = encodeAptosLeg(LEG)
+
+        expect(() => encodeAptosLeg({...LEG, account: '0x' + 'bb'.repeat(33)})).toThrow()
+        expect(() => verifyAptosLeg(buildOrder(LEG), {...LEG, asset: '0x' + 'cc'.repeat(33)})).toThrow()
+        expect(() => decodeAptosLeg(data.slice(0, -64))).toThrow()
+        expect(() => decodeAptosLeg('0x')).toThrow()
+    })
+
+    it('should commit the order hash to the leg', () => {
+        const order = buildOrder(LEG)
+
+        expect(aptosLegOf(order)).toEqual(LEG)
+        expect(order.dstChainId).toBe(LEG.chainId)
+        expect(buildOrder({...LEG, account: '0x' + 'dd'.repeat(32)}).getOrderHash(EVM_CHAIN_ID)).not.toBe(
+            order.getOrderHash(EVM_CHAIN_ID)
+        )
+    })
+
+    it('should verify the leg the order commits to', () => {
+        const order = buildOrder(LEG)
+
+        expect(verifyAptosLeg(order, {...LEG, asset: LEG.asset.toUpperCase().replace('0X', '0x')})).toEqual(LEG)
+        expect(() => verifyAptosLeg(order, {...LEG, asset: '0x' + 'dd'.repeat(32)})).toThrow(
+            'order does not commit to Aptos dst leg'
+        )
+        expect(() => verifyAptosLeg(order, {...LEG, side: 'src'})).toThrow('order does not commit to Aptos src leg')
+        expect(() => verifyAptosLeg(order, {...LEG, chainId: AptosChainId.MOVEMENT_TESTNET})).toThrow(
+            `on chain ${AptosChainId.MOVEMENT_TESTNET}`
+        )
+    })
+
+    it('should refuse a leg of another order', () => {
+        const other = buildOrder({...LEG, account: '0x' + 'dd'.repeat(32)})
+
+        expect(() => verifyAptosLeg(other, LEG)).toThrow('order does not commit to Aptos dst leg')
+    })
+})
@@ -0,0 +1,187 @@
+import {AccountAddress} from '@aptos-labs/ts-sdk'
+import Sdk from '@1inch/cross-chain-sdk'
+import {AbiCoder} from 'ethers'
+import {AptosChainConfig} from '../config'
+
+/**
+ * Chain ids of the Move chains, `1_000_000 + native chain id` to stay clear of EVM chain ids
+ */
+export const AptosChainId = {
+    APTOS_MAINNET: 1_000_001,
+    APTOS_TESTNET: 1_000_002,
+    APTOS_DEVNET: 1_000_003,
+    APTOS_LOCAL: 1_000_004,
+    MOVEMENT_MAINNET: 1_000_126,
+    MOVEMENT_TESTNET: 1_000_250
+} as const
+
+/**
+ * Aptos side of a cross chain order, what EVM addresses can not express
+ */
+export type AptosLeg = {
+    chainId: number
+    side: 'src' | 'dst'
+    /**
+     * Maker on the source side, receiver of the taking amount on the destination side
+     */
+    account: string
+    /**
+     * Fungible asset metadata object
+     */
+    asset: string
+}
+
+const LEG_ABI = ['uint256', 'uint8', 'bytes32', 'bytes32']
+
+/**
+ * `CrossChainOrder` constructor, private in the SDK typings. `CrossChainOrder.new` only accepts the EVM chains of
+ * the SDK and builds its own extension, so orders with an Aptos leg are constructed directly.
+ */
+const CrossChainOrder = Sdk.CrossChainOrder as unknown as new (
+    extension: Sdk.EscrowExtension,
+    orderInfo: Sdk.CrossChainOrderInfo,
+    extra?: Sdk.Extra
+) => Sdk.CrossChainOrder
+
+/**
+ * Escrow extension carrying the Aptos leg as custom data
+ */
+class AptosEscrowExtension extends Sdk.EscrowExtension {
+    constructor(
+        private readonly leg: AptosLeg,
+        ...args: ConstructorParameters<typeof Sdk.EscrowExtension>
+    ) {
+        super(...args)
+    }
+
+    public build(): Sdk.Extension {
+        return new Sdk.Extension({...super.build(), customData: encodeAptosLeg(this.leg)})
+    }
+}
+
+export function isAptosChain(chainId: number): boolean {
+    return Object.values(AptosChainId).some((id) => id === chainId)
+}
+
+export function aptosChainIdOf(cnf: AptosChainConfig): number {
+    if (cnf.chainId !== undefined) {
+        return cnf.chainId
+    }
+
+    switch (cnf.network) {
+        case 'testnet':
+            return AptosChainId.APTOS_TESTNET
+        case 'devnet':
+            return AptosChainId.APTOS_DEVNET
+        case 'local':
+            return AptosChainId.APTOS_LOCAL
+        case 'movement':
+            return AptosChainId.MOVEMENT_TESTNET
+        case 'custom':
+            throw new Error('chainId must be configured for a custom Aptos network')
+    }
+}
+
+export function encodeAptosLeg(leg: AptosLeg): string {
+    if (!isAptosChain(leg.chainId)) {
+        throw new Error(`${leg.chainId} is not an Aptos chain id`)
+    }
+
+    return AbiCoder.defaultAbiCoder().encode(LEG_ABI, [
+        leg.chainId,
+        leg.side === 'src' ? 0 : 1,
+        toBytes32(leg.account),
+        toBytes32(leg.asset)
+    ])
+}
+
+export function decodeAptosLeg(data: string): AptosLeg {
+    const [chainId, side, account, asset] = AbiCoder.defaultAbiCoder().decode(LEG_ABI, data)
+
+    return {
+        chainId: Number(chainId),
+        side: side === 0n ? 'src' : 'dst',
+        account: AccountAddress.from(account).toStringLong(),
+        asset: AccountAddress.from(asset).toStringLong()
+    }
+}
+
+/**
+ * Cross chain order between an EVM chain and the Aptos chain of the leg, built like `Sdk.CrossChainOrder.new`.
+ *
+ * The Aptos chain id is the destination chain of the order when Aptos is the destination. The leg is the custom
+ * data of the order extension, the extension hash is part of the salt so the order hash and the maker signature
+ * cover the 32 bytes Aptos account and asset.
+ */
+export function newAptosOrder(
+    leg: AptosLeg,
+    escrowFactory: Sdk.Address,
+    orderInfo: Sdk.CrossChainOrderInfo,
+    escrowParams: Omit<Sdk.EscrowParams, 'srcChainId' | 'dstChainId'> & {evmChainId: Sdk.SupportedChain},
+    details: Sdk.Details,
+    extra?: Sdk.Extra
+): Sdk.CrossChainOrder {
+    if (!isAptosChain(leg.chainId)) {
+        throw new Error(`${leg.chainId} is not an Aptos chain id`)
+    }
+
+    if (!Sdk.SupportedChains.includes(escrowParams.evmChainId)) {
+        throw new Error(`EVM chain ${escrowParams.evmChainId} is not supported by the SDK`)
+    }
+
+    const postInteractionData = Sdk.SettlementPostInteractionData.new({
+        bankFee: details.fees?.bankFee || 0n,
+        integratorFee: details.fees?.integratorFee,
+        whitelist: details.whitelist,
+        resolvingStartTime: details.resolvingStartTime ?? Sdk.now(),
+        customReceiver: orderInfo.receiver
+    })
+    const extension = new AptosEscrowExtension(
+        leg,
+        escrowFactory,
+        details.auction,
+        postInteractionData,
+        extra?.permit ? new Sdk.Interaction(orderInfo.makerAsset, extra.permit) : undefined,
+        escrowParams.hashLock,
+        // only recorded in the escrow immutables, the escrow factory does not check it
+        (leg.side === 'dst' ? leg.chainId : escrowParams.evmChainId) as Sdk.NetworkEnum,
+        orderInfo.takerAsset,
+        escrowParams.srcSafetyDeposit,
+        escrowParams.dstSafetyDeposit,
+        escrowParams.timeLocks
+    )
+
+    return new CrossChainOrder(extension, {...orderInfo, takerAsset: Sdk.TRUE_ERC20[escrowParams.evmChainId]}, extra)
+}
+
+/**
+ * Aptos leg in the custom data of the order extension
+ */
+export function aptosLegOf(order: Sdk.CrossChainOrder): AptosLeg {
+    const {customData} = order.extension
+
+    if (customData === '0x') {
+        throw new Error('order has no Aptos leg')
+    }
+
+    return decodeAptosLeg(customData)
+}
+
+/**
+ * Throw unless the signed order commits to the Aptos leg, returns the normalized leg
+ */
+export function verifyAptosLeg(order: Sdk.CrossChainOrder, leg: AptosLeg): AptosLeg {
+    const normalized = decodeAptosLeg(encodeAptosLeg(leg))
+
+    if (encodeAptosLeg(aptosLegOf(order)) !== encodeAptosLeg(normalized)) {
+        throw new Error(
+            `order does not commit to Aptos ${leg.side} leg on chain ${leg.chainId} (${leg.account}, ${leg.asset})`
+        )
+    }
+
+    return normalized
+}
+
+function toBytes32(address: string): string {
+    return AccountAddress.from(address, {maxMissingChars: 63}).toStringLong()
+}
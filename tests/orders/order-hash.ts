@@ -0,0 +1,25 @@
+import {getBytes, hexlify, isHexString} from 'ethers'
+
+/**
+ * `order_hash` argument of the Aptos entry functions, the 32 bytes EVM order hash
+ */
+export function orderHashBytes(orderHash: string): Uint8Array {
+    if (!isHexString(orderHash, 32)) {
+        throw new Error(`order hash must be 32 bytes hex, got ${orderHash}`)
+    }
+
+    return getBytes(orderHash)
+}
+
+/**
+ * Order hash as returned by a Move view (hex string or byte array), lower case hex
+ */
+export function decodeOrderHash(raw: string | number[] | Uint8Array): string {
+    const hex = typeof raw === 'string' ? raw : hexlify(Uint8Array.from(raw))
+
+    if (!isHexString(hex, 32)) {
+        throw new Error(`Aptos order hash ${hex} is not 32 bytes, it is not bound to an EVM order`)
+    }
+
+    return hex.toLowerCase()
+}
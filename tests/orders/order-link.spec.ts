@@ -0,0 +1,96 @@
+import {expect} from '@jest/globals'
+import Sdk from '@1inch/cross-chain-sdk'
+
+import {getAptosOrderHash, OrderLinkContext, verifyOrderLink} from './order-link'
+import {DutchAuctionHelper} from '../aptos/helpers/dutch-auction'
+import {FusionOrderHelper} from '../aptos/helpers/fusion-order'
+import {EscrowHelper} from '../aptos/helpers/escrow'
+import {Escrow} from '../aptos/models'
+
+const ORDER_HASH = '0x' + 'ab'.repeat(32)
+const UPPER_CASE_ORDER_HASH = '0x' + 'AB'.repeat(32)
+const OTHER_ORDER_HASH = '0x' + 'cd'.repeat(32)
+const SECRET_HASH = Sdk.HashLock.hashSecret('0x' + '11'.repeat(32))
+
+function immutables(orderHash: string, hashLock: string): Sdk.Immutables {
+    return Sdk.Immutables.new({
+        orderHash,
+        hashLock: Sdk.HashLock.fromString(hashLock),
+        maker: new Sdk.Address('0x' + '33'.repeat(20)),
+        taker: new Sdk.Address('0x' + '44'.repeat(20)),
+        token: new Sdk.Address('0x' + '55'.repeat(20)),
+        amount: 100n,
+        safetyDeposit: 10n,
+        timeLocks: Sdk.TimeLocks.new({
+            srcWithdrawal: 10n,
+            srcPublicWithdrawal: 20n,
+            srcCancellation: 30n,
+            srcPublicCancellation: 40n,
+            dstWithdrawal: 10n,
+            dstPublicWithdrawal: 20n,
+            dstCancellation: 30n
+        })
+    })
+}
+
+describe('order link', () => {
+    // Move views return the order hash as hex in upper or lower case
+    const ctx: OrderLinkContext = {
+        dutchAuction: {getOrderHash: async () => UPPER_CASE_ORDER_HASH} as unknown as DutchAuctionHelper,
+        fusionOrder: {getOrderHash: async () => ORDER_HASH} as unknown as FusionOrderHelper,
+        escrow: {
+            getEscrow: async (address: string) =>
+                ({orderHash: ORDER_HASH, hash: address === '0xother-lock' ? OTHER_ORDER_HASH : SECRET_HASH}) as Escrow
+        } as unknown as EscrowHelper
+    }
+
+    it('should read the order hash of every kind of Aptos object in lower case', async () => {
+        for (const kind of ['auction', 'fusion-order', 'escrow'] as const) {
+            await expect(getAptosOrderHash(ctx, {kind, address: '0x1'})).resolves.toBe(ORDER_HASH)
+        }
+    })
+
+    it('should refuse an Aptos object without a 32 bytes order hash', async () => {
+        const unbound = {fusionOrder: {getOrderHash: async () => '0x'} as unknown as FusionOrderHelper}
+
+        await expect(getAptosOrderHash(unbound, {kind: 'fusion-order', address: '0x1'})).rejects.toThrow(
+            'is not 32 bytes'
+        )
+    })
+
+    it('should need the helper of the checked kind only', async () => {
+        const auctionOnly = {dutchAuction: ctx.dutchAuction}
+
+        await expect(getAptosOrderHash(auctionOnly, {kind: 'auction', address: '0x1'})).resolves.toBe(ORDER_HASH)
+        await expect(getAptosOrderHash(auctionOnly, {kind: 'escrow', address: '0x2'})).rejects.toThrow(
+            'no helper to read the order hash of Aptos escrow 0x2'
+        )
+    })
+
+    it('should link an Aptos object to the order hash', async () => {
+        await expect(verifyOrderLink(ctx, {kind: 'auction', address: '0x1'}, UPPER_CASE_ORDER_HASH)).resolves.toBe(
+            ORDER_HASH
+        )
+        await expect(verifyOrderLink(ctx, {kind: 'fusion-order', address: '0x1'}, OTHER_ORDER_HASH)).rejects.toThrow(
+            `Aptos fusion-order 0x1 is for order ${ORDER_HASH}, not ${OTHER_ORDER_HASH}`
+        )
+    })
+
+    it('should link escrows by order hash and hashlock', async () => {
+        await expect(
+            verifyOrderLink(ctx, {kind: 'escrow', address: '0x1'}, immutables(ORDER_HASH, SECRET_HASH))
+        ).resolves.toBe(ORDER_HASH)
+        await expect(
+            verifyOrderLink(ctx, {kind: 'escrow', address: '0x1'}, immutables(OTHER_ORDER_HASH, SECRET_HASH))
+        ).rejects.toThrow(`is for order ${ORDER_HASH}`)
+        await expect(
+            verifyOrderLink(ctx, {kind: 'escrow', address: '0xother-lock'}, immutables(ORDER_HASH, SECRET_HASH))
+        ).rejects.toThrow('Aptos escrow 0xother-lock hashlock')
+    })
+
+    it('should not check the hashlock against a bare order hash', async () => {
+        await expect(verifyOrderLink(ctx, {kind: 'escrow', address: '0xother-lock'}, ORDER_HASH)).resolves.toBe(
+            ORDER_HASH
+        )
+    })
+})
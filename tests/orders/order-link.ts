@@ -0,0 +1,73 @@
+import Sdk from '@1inch/cross-chain-sdk'
+import {decodeOrderHash} from './order-hash'
+import {DutchAuctionHelper} from '../aptos/helpers/dutch-auction'
+import {FusionOrderHelper} from '../aptos/helpers/fusion-order'
+import {EscrowHelper} from '../aptos/helpers/escrow'
+
+/**
+ * Helpers reading the order hash, only the ones for the checked kind of object are needed
+ */
+export type OrderLinkContext = {
+    dutchAuction?: DutchAuctionHelper
+    fusionOrder?: FusionOrderHelper
+    escrow?: EscrowHelper
+}
+
+/**
+ * Aptos object carrying an order hash
+ */
+export type AptosOrderObject = {
+    kind: 'auction' | 'fusion-order' | 'escrow'
+    address: string
+}
+
+/**
+ * Order hash stored in the Aptos auction, fusion order or escrow
+ */
+export async function getAptosOrderHash(ctx: OrderLinkContext, object: AptosOrderObject): Promise<string> {
+    switch (object.kind) {
+        case 'auction':
+            return decodeOrderHash(await need(ctx.dutchAuction, object).getOrderHash(object.address))
+        case 'fusion-order':
+            return decodeOrderHash(await need(ctx.fusionOrder, object).getOrderHash(object.address))
+        case 'escrow':
+            return decodeOrderHash((await need(ctx.escrow, object).getEscrow(object.address)).orderHash)
+    }
+}
+
+/**
+ * Throw unless the Aptos object and the EVM escrow (or order hash) belong to the same order.
+ * Escrows are also checked to lock the same hashlock, so both legs of a fill release with one secret.
+ */
+export async function verifyOrderLink(
+    ctx: OrderLinkContext,
+    aptos: AptosOrderObject,
+    evm: Sdk.Immutables | string
+): Promise<string> {
+    const evmOrderHash = (typeof evm === 'string' ? evm : evm.orderHash).toLowerCase()
+    const aptosOrderHash = await getAptosOrderHash(ctx, aptos)
+
+    if (aptosOrderHash !== evmOrderHash) {
+        throw new Error(`Aptos ${aptos.kind} ${aptos.address} is for order ${aptosOrderHash}, not ${evmOrderHash}`)
+    }
+
+    if (aptos.kind === 'escrow' && typeof evm !== 'string') {
+        const {hash} = await need(ctx.escrow, aptos).getEscrow(aptos.address)
+
+        if (hash.toLowerCase() !== evm.hashLock.toString().toLowerCase()) {
+            throw new Error(
+                `Aptos escrow ${aptos.address} hashlock ${hash} does not match EVM hashlock ${evm.hashLock}`
+            )
+        }
+    }
+
+    return evmOrderHash
+}
+
+function need<T>(helper: T | undefined, object: AptosOrderObject): T {
+    if (!helper) {
+        throw new Error(`no helper to read the order hash of Aptos ${object.kind} ${object.address}`)
+    }
+
+    return helper
+}
@@ -0,0 +1,43 @@
+import {expect} from '@jest/globals'
+
+import {fillIndex} from './partial-fill'
+
+describe('fillIndex', () => {
+    // 4 parts of 25 and the extra secret completing the order
+    const makingAmount = 100n
+    const partsCount = 4
+
+    it('should use the secret of the part the fill ends in', () => {
+        expect(fillIndex(makingAmount, partsCount, 0n, 1n)).toBe(0)
+        expect(fillIndex(makingAmount, partsCount, 0n, 26n)).toBe(1)
+        expect(fillIndex(makingAmount, partsCount, 30n, 40n)).toBe(2)
+    })
+
+    it('should keep a fill ending exactly on a segment boundary in that segment', () => {
+        expect(fillIndex(makingAmount, partsCount, 0n, 25n)).toBe(0)
+        expect(fillIndex(makingAmount, partsCount, 25n, 25n)).toBe(1)
+        expect(fillIndex(makingAmount, partsCount, 25n, 50n)).toBe(2)
+    })
+
+    it('should use the extra secret for the fill completing the order', () => {
+        expect(fillIndex(makingAmount, partsCount, 0n, 100n)).toBe(4)
+        expect(fillIndex(makingAmount, partsCount, 75n, 25n)).toBe(4)
+        expect(fillIndex(makingAmount, partsCount, 99n, 1n)).toBe(4)
+    })
+
+    it('should reject a fill ending in the same part as the previous one', () => {
+        expect(() => fillIndex(makingAmount, partsCount, 10n, 5n)).toThrow('does not reach the next of 4 parts')
+        expect(() => fillIndex(makingAmount, partsCount, 25n, 0n)).toThrow('can not fill')
+    })
+
+    it('should reject overfills', () => {
+        expect(() => fillIndex(makingAmount, partsCount, 0n, 101n)).toThrow('can not fill 101 after 0 of 100')
+        expect(() => fillIndex(makingAmount, partsCount, 90n, 11n)).toThrow('can not fill 11 after 90 of 100')
+        expect(() => fillIndex(makingAmount, partsCount, 100n, 1n)).toThrow('can not fill 1 after 100 of 100')
+    })
+
+    it('should only fill an order with a single secret completely', () => {
+        expect(fillIndex(makingAmount, 0, 0n, 100n)).toBe(0)
+        expect(() => fillIndex(makingAmount, 0, 0n, 50n)).toThrow('can only be filled completely')
+    })
+})
@@ -0,0 +1,114 @@
+import Sdk from '@1inch/cross-chain-sdk'
+
+/**
+ * `MerkleLeaf[]` of the SDK, its leaf type is not exported
+ */
+export type MerkleProof = ReturnType<typeof Sdk.HashLock.getProof>
+
+/**
+ * Everything both legs of one fill of a multiple fills order need
+ */
+export type PartialFill = {
+    amount: bigint
+    /**
+     * Index of the secret on EVM, the Merkle leaf the escrow factory checks the fill against
+     */
+    index: number
+    /**
+     * `segment` argument of `router::deploy_destination_partial_fill` and `router::deploy_source_partial_fill`
+     */
+    segment: number
+    secretHash: string
+    /**
+     * Merkle proof of the secret hash, for `EscrowFactory.getMultipleFillInteraction`
+     */
+    proof: MerkleProof
+    /**
+     * Whether the fill completes the order
+     */
+    completes: boolean
+}
+
+/**
+ * Index of the secret the escrow factory accepts for a fill of `fillAmount` after `filledAmount` was filled.
+ *
+ * The order is split in `partsCount` equal parts, a fill uses the secret of the part its last unit falls in
+ * and the extra last secret when it completes the order. A fill ending in the same part as the previous fill
+ * has no unused secret left and is rejected.
+ */
+export function fillIndex(makingAmount: bigint, partsCount: number, filledAmount: bigint, fillAmount: bigint): number {
+    const parts = BigInt(partsCount)
+
+    if (fillAmount <= 0n || filledAmount < 0n || filledAmount + fillAmount > makingAmount) {
+        throw new Error(`can not fill ${fillAmount} after ${filledAmount} of ${makingAmount}`)
+    }
+
+    if (parts === 0n) {
+        if (fillAmount !== makingAmount) {
+            throw new Error(`order with a single secret can only be filled completely`)
+        }
+
+        return 0
+    }
+
+    const index = ((filledAmount + fillAmount - 1n) * parts) / makingAmount
+
+    if (filledAmount + fillAmount === makingAmount) {
+        return Number(index + 1n)
+    }
+
+    if (filledAmount > 0n && index === ((filledAmount - 1n) * parts) / makingAmount) {
+        throw new Error(`fill of ${fillAmount} after ${filledAmount} does not reach the next of ${parts} parts`)
+    }
+
+    return Number(index)
+}
+
+/**
+ * Plans the fills of an order, so both chains always lock the same secret.
+ *
+ * The Aptos auctions and fusion orders take the same `partsCount + 1` hashes in the same order as the EVM
+ * Merkle tree, so the Aptos segment of a fill is its EVM index.
+ */
+export class PartialFillPlanner {
+    private readonly leaves: string[]
+
+    constructor(
+        public readonly makingAmount: bigint,
+        public readonly secretHashes: string[]
+    ) {
+        if (secretHashes.length === 0) {
+            throw new Error('order needs at least one secret hash')
+        }
+
+        // a single secret is locked as is, without a Merkle tree
+        this.leaves = secretHashes.length > 1 ? Sdk.HashLock.getMerkleLeavesFromSecretHashes(secretHashes) : []
+    }
+
+    get partsCount(): number {
+        return this.secretHashes.length - 1
+    }
+
+    public static fromSecrets(makingAmount: bigint, secrets: string[]): PartialFillPlanner {
+        return new PartialFillPlanner(
+            makingAmount,
+            secrets.map((s) => Sdk.HashLock.hashSecret(s))
+        )
+    }
+
+    /**
+     * Fill of `fillAmount` after `filledAmount` of the order was filled
+     */
+    public plan(filledAmount: bigint, fillAmount: bigint): PartialFill {
+        const index = fillIndex(this.makingAmount, this.partsCount, filledAmount, fillAmount)
+
+        return {
+            amount: fillAmount,
+            index,
+            segment: index,
+            secretHash: this.secretHashes[index],
+            proof: this.partsCount === 0 ? [] : Sdk.HashLock.getProof(this.leaves, index),
+            completes: filledAmount + fillAmount === this.makingAmount
+        }
+    }
+}
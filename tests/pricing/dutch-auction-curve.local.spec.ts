@@ -0,0 +1,89 @@
+import 'dotenv/config'
+import {expect, jest} from '@jest/globals'
+import {Account, Aptos} from '@aptos-labs/ts-sdk'
+import {getBytes, hexlify, keccak256, randomBytes} from 'ethers'
+
+import {DutchAuctionCurve, DutchAuctionParams} from './dutch-auction-curve'
+import {getConfig} from '../config'
+import {ACCOUNTS as APTOS_ACCOUNTS, createAccount, getAptosClient} from '../aptos/setup'
+import {DutchAuctionHelper} from '../aptos/helpers/dutch-auction'
+import {DeploymentHelper} from '../aptos/helpers/deployment'
+import {FungibleAssetsHelper} from '../aptos/helpers/fungible-assets'
+
+jest.setTimeout(1000 * 120)
+
+// the view can only be compared on a node we control the auctions of
+const describeOnLocalNode = getConfig().chain.aptos.network === 'local' ? describe : describe.skip
+
+describeOnLocalNode('DutchAuctionCurve against dutch_auction::get_current_amount', () => {
+    let client: Aptos
+    let dutchAuction: DutchAuctionHelper
+    let maker: Account
+    let curve: DutchAuctionCurve
+    let auctionAddress: string
+
+    async function ledger(): Promise<{version: bigint; time: bigint}> {
+        const info = await client.getLedgerInfo()
+
+        return {version: BigInt(info.ledger_version), time: BigInt(info.ledger_timestamp) / 1_000_000n}
+    }
+
+    async function viewAmount(version: bigint): Promise<bigint> {
+        return dutchAuction.getCurrentAmount(auctionAddress, version)
+    }
+
+    beforeAll(async () => {
+        client = getAptosClient()
+        dutchAuction = new DutchAuctionHelper()
+        maker = createAccount(APTOS_ACCOUNTS.USER.privateKey)
+
+        await new DeploymentHelper().ensureContractsDeployed()
+        await client.faucet.fundAccount({accountAddress: maker.accountAddress, amount: 100_000_000})
+
+        const {time} = await ledger()
+        const params: DutchAuctionParams = {
+            startingAmount: 1_000_000n,
+            endingAmount: 333_333n,
+            auctionStartTime: time + 2n,
+            auctionEndTime: time + 2n + 30n + 60n,
+            decayDuration: 30n
+        }
+
+        const {auctionAddress: address} = await dutchAuction.createAuction(
+            maker,
+            hexlify(randomBytes(32)),
+            [getBytes(keccak256(randomBytes(32)))],
+            await new FungibleAssetsHelper().getUsdtMetadata(),
+            params.startingAmount,
+            params.endingAmount,
+            params.auctionStartTime,
+            params.auctionEndTime,
+            params.decayDuration,
+            10_000n,
+            [APTOS_ACCOUNTS.RESOLVER.address]
+        )
+
+        auctionAddress = address
+        curve = new DutchAuctionCurve(params)
+    })
+
+    it('should match the view at every sampled ledger version', async () => {
+        const deadline = curve.decayEndTime + 3n
+
+        for (let {version, time} = await ledger(); time <= deadline; {version, time} = await ledger()) {
+            expect(await viewAmount(version)).toBe(curve.amountAt(time))
+
+            await new Promise((resolve) => setTimeout(resolve, 1000))
+        }
+    })
+
+    it('should reach the target amount at the predicted time', async () => {
+        const target = (curve.params.startingAmount + curve.params.endingAmount) / 2n
+        const at = curve.timeToReach(target)!
+        const {version, time} = await ledger()
+
+        expect(time >= at).toBe(true) // decay is over after the previous test
+        expect((await viewAmount(version)) <= target).toBe(true)
+        expect(curve.amountAt(at - 1n) > target).toBe(true)
+    })
+})
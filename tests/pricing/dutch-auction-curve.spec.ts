@@ -0,0 +1,57 @@
+import {expect} from '@jest/globals'
+
+import {DutchAuctionCurve} from './dutch-auction-curve'
+
+describe('DutchAuctionCurve', () => {
+    const curve = new DutchAuctionCurve({
+        startingAmount: 1_000_000n,
+        endingAmount: 400_000n,
+        auctionStartTime: 1_000n,
+        auctionEndTime: 1_200n,
+        decayDuration: 120n
+    })
+
+    it('should stay at the starting amount until the auction starts', () => {
+        expect(curve.amountAt(0n)).toBe(1_000_000n)
+        expect(curve.amountAt(1_000n)).toBe(1_000_000n)
+    })
+
+    it('should decay linearly and round the amount up', () => {
+        expect(curve.amountAt(1_001n)).toBe(995_000n)
+        expect(curve.amountAt(1_060n)).toBe(700_000n)
+
+        const odd = new DutchAuctionCurve({...curve.params, decayDuration: 7n})
+        // 600_000 * 3 / 7 = 257_142.86 decayed
+        expect(odd.amountAt(1_003n)).toBe(742_858n)
+    })
+
+    it('should stay at the ending amount once the decay is over', () => {
+        expect(curve.amountAt(1_120n)).toBe(400_000n)
+        expect(curve.amountAt(5_000n)).toBe(400_000n)
+    })
+
+    it('should predict the earliest time a target amount is reached', () => {
+        for (const target of [1_000_000n, 999_999n, 700_000n, 654_321n, 400_001n, 400_000n]) {
+            const time = curve.timeToReach(target)!
+
+            expect(curve.amountAt(time) <= target).toBe(true)
+
+            if (time > curve.params.auctionStartTime) {
+                expect(curve.amountAt(time - 1n) > target).toBe(true)
+            }
+        }
+    })
+
+    it('should not reach amounts below the ending amount or after the auction end', () => {
+        expect(curve.timeToReach(399_999n)).toBeUndefined()
+
+        const short = new DutchAuctionCurve({...curve.params, auctionEndTime: 1_030n})
+        expect(short.timeToReach(500_000n)).toBeUndefined()
+    })
+
+    it('should reject inconsistent parameters', () => {
+        expect(() => new DutchAuctionCurve({...curve.params, endingAmount: 2_000_000n})).toThrow()
+        expect(() => new DutchAuctionCurve({...curve.params, decayDuration: 0n})).toThrow()
+        expect(() => new DutchAuctionCurve({...curve.params, auctionEndTime: 999n})).toThrow()
+    })
+})
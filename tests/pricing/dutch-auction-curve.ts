@@ -0,0 +1,89 @@
+/**
+ * Parameters of an Aptos Dutch auction as passed to `router::create_auction`, times in seconds
+ */
+export type DutchAuctionParams = {
+    startingAmount: bigint
+    endingAmount: bigint
+    auctionStartTime: bigint
+    auctionEndTime: bigint
+    decayDuration: bigint
+}
+
+/**
+ * Offline model of `dutch_auction::get_current_amount`.
+ *
+ * The amount stays at `startingAmount` until the auction starts, then decays linearly to `endingAmount` over
+ * `decayDuration` seconds and stays there. The decayed part is rounded down like the Move integer division,
+ * so the amount is rounded up.
+ */
+export class DutchAuctionCurve {
+    constructor(public readonly params: DutchAuctionParams) {
+        const {startingAmount, endingAmount, auctionStartTime, auctionEndTime, decayDuration} = params
+
+        if (endingAmount > startingAmount) {
+            throw new Error(`ending amount ${endingAmount} is above starting amount ${startingAmount}`)
+        }
+
+        if (decayDuration <= 0n) {
+            throw new Error(`decay duration must be positive, got ${decayDuration}`)
+        }
+
+        if (auctionEndTime < auctionStartTime) {
+            throw new Error(`auction ends at ${auctionEndTime} before it starts at ${auctionStartTime}`)
+        }
+    }
+
+    get decayEndTime(): bigint {
+        return this.params.auctionStartTime + this.params.decayDuration
+    }
+
+    public hasStarted(time: bigint): boolean {
+        return time >= this.params.auctionStartTime
+    }
+
+    public hasEnded(time: bigint): boolean {
+        return time > this.params.auctionEndTime
+    }
+
+    /**
+     * Amount `get_current_amount` returns at `time`
+     */
+    public amountAt(time: bigint): bigint {
+        const {startingAmount, endingAmount, auctionStartTime, decayDuration} = this.params
+
+        if (time <= auctionStartTime) {
+            return startingAmount
+        }
+
+        const elapsed = time - auctionStartTime
+
+        if (elapsed >= decayDuration) {
+            return endingAmount
+        }
+
+        return startingAmount - ((startingAmount - endingAmount) * elapsed) / decayDuration
+    }
+
+    /**
+     * Earliest time at which the amount is `target` or less, undefined when the auction ends before
+     */
+    public timeToReach(target: bigint): bigint | undefined {
+        const {startingAmount, endingAmount, auctionStartTime, auctionEndTime, decayDuration} = this.params
+
+        if (target < endingAmount) {
+            return undefined
+        }
+
+        if (target >= startingAmount) {
+            return auctionStartTime
+        }
+
+        // smallest elapsed with (starting - ending) * elapsed / decay >= starting - target
+        const decay = startingAmount - target
+        const range = startingAmount - endingAmount
+        const elapsed = (decay * decayDuration + range - 1n) / range
+        const time = auctionStartTime + elapsed
+
+        return time > auctionEndTime ? undefined : time
+    }
+}
@@ -0,0 +1,70 @@
+import {Token} from '../tokens/registry'
+
+/**
+ * USD paid for one whole unit of a token, as a fraction to stay in integers
+ */
+export type Price = {
+    numerator: bigint
+    denominator: bigint
+}
+
+/**
+ * Where the profitability engine gets its token prices from
+ */
+export interface PriceSource {
+    /**
+     * Throws when the price of the token is unknown
+     */
+    getPrice(token: Token): Promise<Price>
+}
+
+/**
+ * Fixed prices by token symbol, for tests and local networks where there is no market to ask
+ */
+export class StaticPriceSource implements PriceSource {
+    private readonly prices = new Map<string, Price>()
+
+    constructor(prices: Record<string, string | Price> = {}) {
+        Object.entries(prices).forEach(([symbol, price]) => this.set(symbol, price))
+    }
+
+    /**
+     * Set the USD price of the token with this symbol, a decimal string like `'3512.75'` or a fraction
+     */
+    public set(symbol: string, price: string | Price): this {
+        const parsed = typeof price === 'string' ? parsePrice(price) : price
+
+        if (parsed.denominator <= 0n || parsed.numerator < 0n) {
+            throw new Error(`invalid price ${parsed.numerator}/${parsed.denominator} for ${symbol}`)
+        }
+
+        this.prices.set(symbol.toUpperCase(), parsed)
+
+        return this
+    }
+
+    public async getPrice(token: Token): Promise<Price> {
+        const price = this.prices.get(token.symbol.toUpperCase())
+
+        if (!price) {
+            throw new Error(`no price for ${token.symbol}`)
+        }
+
+        return price
+    }
+}
+
+/**
+ * Fraction of a non negative decimal string
+ */
+export function parsePrice(price: string): Price {
+    const match = /^(\d+)(?:\.(\d+))?$/.exec(price.trim())
+
+    if (!match) {
+        throw new Error(`invalid price ${price}`)
+    }
+
+    const [, whole, fraction = ''] = match
+
+    return {numerator: BigInt(whole + fraction), denominator: 10n ** BigInt(fraction.length)}
+}
@@ -0,0 +1,162 @@
+import {expect} from '@jest/globals'
+
+import {DutchAuctionCurve} from './dutch-auction-curve'
+import {parsePrice, StaticPriceSource} from './price-source'
+import {FillOpportunity, fromUsd, ProfitabilityEngine, toUsd} from './profitability'
+import {APT, AptosToken, EvmToken} from '../tokens/registry'
+
+const ETH: EvmToken = {chain: 'evm', chainId: 1, address: '0x' + '00'.repeat(20), symbol: 'ETH', decimals: 18}
+const USDC: EvmToken = {chain: 'evm', chainId: 1, address: '0x' + '11'.repeat(20), symbol: 'USDC', decimals: 6}
+const USDT: AptosToken = {chain: 'aptos', metadata: '0x' + '22'.repeat(32), symbol: 'USDT', decimals: 6}
+
+const DAY = 24n * 60n * 60n
+
+describe('StaticPriceSource', () => {
+    it('should parse decimal prices into fractions', () => {
+        expect(parsePrice('3512.75')).toEqual({numerator: 351275n, denominator: 100n})
+        expect(parsePrice(' 42 ')).toEqual({numerator: 42n, denominator: 1n})
+        expect(parsePrice('0.050')).toEqual({numerator: 50n, denominator: 1000n})
+    })
+
+    it('should reject prices which are not non negative decimals', () => {
+        for (const price of ['-1', '1e3', '1.', '.5', '']) {
+            expect(() => parsePrice(price)).toThrow('invalid price')
+        }
+
+        expect(() => new StaticPriceSource({ETH: {numerator: 1n, denominator: 0n}})).toThrow('invalid price')
+        expect(() => new StaticPriceSource({ETH: {numerator: -1n, denominator: 1n}})).toThrow('invalid price')
+    })
+
+    it('should look prices up by symbol regardless of case', async () => {
+        const prices = new StaticPriceSource({eth: '3512.75'}).set('Apt', {numerator: 25n, denominator: 3n})
+
+        await expect(prices.getPrice(ETH)).resolves.toEqual({numerator: 351275n, denominator: 100n})
+        await expect(prices.getPrice(APT)).resolves.toEqual({numerator: 25n, denominator: 3n})
+        await expect(prices.getPrice(USDC)).rejects.toThrow('no price for USDC')
+    })
+})
+
+describe('USD conversion', () => {
+    const third = {numerator: 1n, denominator: 3n}
+
+    it('should round USD values in the requested direction', () => {
+        // 1e-6 USDC at 1/3 USD is 333_333_333_333.33 with 18 decimals
+        expect(toUsd(1n, USDC, third, 'down')).toBe(333_333_333_333n)
+        expect(toUsd(1n, USDC, third, 'up')).toBe(333_333_333_334n)
+        expect(toUsd(3n, USDC, third, 'up')).toBe(1_000_000_000_000n)
+    })
+
+    it('should never return more tokens than the USD value is worth', () => {
+        expect(fromUsd(333_333_333_333n, USDC, third)).toBe(0n)
+        expect(fromUsd(333_333_333_334n, USDC, third)).toBe(1n)
+        expect(fromUsd(10n ** 18n, APT, {numerator: 25n, denominator: 3n})).toBe(12_000_000n)
+    })
+
+    it('should refuse to convert to a worthless token', () => {
+        expect(() => fromUsd(1n, USDC, {numerator: 0n, denominator: 1n})).toThrow('USDC has no value')
+    })
+})
+
+describe('ProfitabilityEngine', () => {
+    const prices = new StaticPriceSource({
+        ETH: {numerator: 10_000n, denominator: 3n},
+        APT: {numerator: 25n, denominator: 3n},
+        USDC: {numerator: 1_000n, denominator: 1_001n},
+        USDT: {numerator: 1_001n, denominator: 1_000n}
+    })
+
+    // 1010 USDT decaying by 0.1 USDT per second down to 990 USDT
+    const auction = new DutchAuctionCurve({
+        startingAmount: 1_010_000_000n,
+        endingAmount: 990_000_000n,
+        auctionStartTime: 1_000n,
+        auctionEndTime: 1_300n,
+        decayDuration: 200n
+    })
+
+    const opportunity: FillOpportunity = {
+        auction,
+        aptosAsset: USDT,
+        makerAsset: USDC,
+        makingAmount: 1_000_000_000n,
+        gas: {
+            evm: {deploySrc: 150_000n, withdraw: 50_000n, gasPrice: 1_000_000_001n},
+            aptos: {createEscrow: 1_000n, withdraw: 501n, gasUnitPrice: 100n}
+        },
+        safetyDeposits: {evm: 10n ** 15n, aptos: 1_000_000n},
+        lockDuration: DAY
+    }
+
+    const engine = new ProfitabilityEngine({prices, evmNative: ETH, capitalCostBps: 500n, minProfit: 10n ** 18n})
+
+    it('should round revenue down and costs up', async () => {
+        const evaluation = await engine.evaluate(opportunity, 900n)
+
+        // 1000 USDC at 1000/1001 USD is 999.000999000999000999000999 USD
+        expect(evaluation.revenue).toBe(999_000_999_000_999_000_999n)
+        expect(evaluation.takingAmount).toBe(1_010_000_000n)
+        expect(evaluation.costs.taking).toBe(1_011_010_000_000_000_000_000n)
+        // 200_000.0002 gwei at 10000/3 USD per ETH is 0.666666667333333333.33 USD and
+        // 150_100 octas at 25/3 USD per APT is 0.012508333333333333.33 USD
+        expect(evaluation.costs.gas).toBe(666_666_667_333_333_334n + 12_508_333_333_333_334n)
+        // 3.416666666666666668 USD of deposits locked for a day at 5% a year
+        expect(evaluation.costs.capital).toBe(468_036_529_680_366n)
+        expect(evaluation.pnl).toBe(
+            evaluation.revenue - evaluation.costs.taking - evaluation.costs.gas - evaluation.costs.capital
+        )
+        expect(evaluation.profitable).toBe(false)
+    })
+
+    it('should value the fill with the auction amount at the fill time', async () => {
+        const evaluation = await engine.evaluate(opportunity, 1_100n)
+
+        expect(evaluation.takingAmount).toBe(1_000_000_000n)
+        expect(evaluation.costs.taking).toBe(1_001_000_000_000_000_000_000n)
+    })
+
+    it('should cost nothing beyond the taking amount without gas and capital cost', async () => {
+        const free = new ProfitabilityEngine({prices, evmNative: ETH})
+        const evaluation = await free.evaluate(
+            {
+                ...opportunity,
+                gas: {
+                    evm: {deploySrc: 0n, withdraw: 0n, gasPrice: 0n},
+                    aptos: {createEscrow: 0n, withdraw: 0n, gasUnitPrice: 0n}
+                }
+            },
+            900n
+        )
+
+        expect(evaluation.costs.gas).toBe(0n)
+        expect(evaluation.costs.capital).toBe(0n)
+    })
+
+    it('should fill at the earliest time the minimum profit is reached', async () => {
+        const now = 1_000n
+        const best = (await engine.optimalFillTime(opportunity, now))!
+
+        expect(best.profitable).toBe(true)
+        expect(best.time > now).toBe(true)
+        expect((await engine.evaluate(opportunity, best.time - 1n)).profitable).toBe(false)
+    })
+
+    it('should fill right away once the auction decayed enough', async () => {
+        const best = (await engine.optimalFillTime(opportunity, 1_250n))!
+
+        expect(best.time).toBe(1_250n)
+        expect(best.profitable).toBe(true)
+    })
+
+    it('should not fill when the minimum profit is out of reach', async () => {
+        const greedy = new ProfitabilityEngine({prices, evmNative: ETH, minProfit: 10n * 10n ** 18n})
+
+        await expect(greedy.optimalFillTime(opportunity, 1_000n)).resolves.toBeUndefined()
+        await expect(
+            engine.optimalFillTime({...opportunity, makingAmount: 900_000_000n}, 1_000n)
+        ).resolves.toBeUndefined()
+    })
+
+    it('should not fill after the auction ended', async () => {
+        await expect(engine.optimalFillTime(opportunity, 1_301n)).resolves.toBeUndefined()
+    })
+})
@@ -0,0 +1,260 @@
+import {DutchAuctionCurve} from './dutch-auction-curve'
+import {Price, PriceSource} from './price-source'
+import {APT, AptosToken, EvmToken, Rounding, Token} from '../tokens/registry'
+
+/**
+ * Decimals of the USD amounts the engine values everything in
+ */
+export const USD_DECIMALS = 18
+
+const YEAR = 365n * 24n * 60n * 60n
+
+const BPS = 10_000n
+
+/**
+ * Gas the resolver spends on one fill
+ */
+export type GasEstimates = {
+    evm: {
+        deploySrc: bigint
+        withdraw: bigint
+        /**
+         * Wei per gas
+         */
+        gasPrice: bigint
+    }
+    aptos: {
+        /**
+         * Gas units of `router::create_escrow_from_auction_single_fill` or `_partial_fill`
+         */
+        createEscrow: bigint
+        /**
+         * Gas units of `router::escrow_withdraw`
+         */
+        withdraw: bigint
+        /**
+         * Octas per gas unit
+         */
+        gasUnitPrice: bigint
+    }
+}
+
+/**
+ * An ETH -> APT order the resolver may fill: it locks the current auction amount on Aptos for the maker
+ * and receives the making amount from the source escrow on EVM
+ */
+export type FillOpportunity = {
+    auction: DutchAuctionCurve
+    /**
+     * Fungible asset the resolver pays the maker on Aptos
+     */
+    aptosAsset: AptosToken
+    /**
+     * ERC-20 the resolver receives on EVM
+     */
+    makerAsset: EvmToken
+    makingAmount: bigint
+    gas: GasEstimates
+    /**
+     * Deposits the resolver puts in both escrows, in wei and octas, refunded on withdrawal
+     */
+    safetyDeposits: {
+        evm: bigint
+        aptos: bigint
+    }
+    /**
+     * Seconds the safety deposits stay locked, usually until the withdrawal phase
+     */
+    lockDuration: bigint
+}
+
+export type ProfitabilityConfig = {
+    prices: PriceSource
+    /**
+     * Gas token of the EVM chain
+     */
+    evmNative: EvmToken
+    /**
+     * Gas token of the Aptos chain, APT by default
+     */
+    aptosNative?: AptosToken
+    /**
+     * Least PnL in USD worth filling for, zero by default
+     */
+    minProfit?: bigint
+    /**
+     * Yearly cost of the capital locked in safety deposits in basis points, zero by default
+     */
+    capitalCostBps?: bigint
+}
+
+/**
+ * Outcome of filling at `time`, USD amounts with `USD_DECIMALS`
+ */
+export type FillEvaluation = {
+    time: bigint
+    /**
+     * Auction amount the resolver pays on Aptos
+     */
+    takingAmount: bigint
+    /**
+     * Value of the making amount received on EVM
+     */
+    revenue: bigint
+    costs: {
+        taking: bigint
+        gas: bigint
+        capital: bigint
+    }
+    pnl: bigint
+    /**
+     * Whether the PnL reaches the configured minimum profit
+     */
+    profitable: boolean
+}
+
+type OpportunityPrices = {
+    aptosAsset: Price
+    makerAsset: Price
+    evmNative: Price
+    aptosNative: Price
+}
+
+/**
+ * Decides whether and when the resolver should fill an auction.
+ *
+ * Revenue is rounded down and costs up, so the PnL never overstates the profit. Only the auction amount
+ * changes over time, so the PnL only grows while the auction decays, but so does the chance another resolver
+ * fills first. The optimal fill time is therefore the earliest one the fill reaches the minimum profit at.
+ */
+export class ProfitabilityEngine {
+    private readonly aptosNative: AptosToken
+
+    private readonly minProfit: bigint
+
+    private readonly capitalCostBps: bigint
+
+    constructor(private readonly config: ProfitabilityConfig) {
+        this.aptosNative = config.aptosNative ?? APT
+        this.minProfit = config.minProfit ?? 0n
+        this.capitalCostBps = config.capitalCostBps ?? 0n
+    }
+
+    /**
+     * Expected PnL of filling at `time`
+     */
+    public async evaluate(opportunity: FillOpportunity, time: bigint): Promise<FillEvaluation> {
+        return this.evaluateAt(opportunity, await this.getPrices(opportunity), time)
+    }
+
+    /**
+     * Earliest time from `now` on the fill reaches the minimum profit at, with its evaluation.
+     * Undefined when it does not before the auction ends.
+     */
+    public async optimalFillTime(opportunity: FillOpportunity, now: bigint): Promise<FillEvaluation | undefined> {
+        const {auction, aptosAsset} = opportunity
+        const prices = await this.getPrices(opportunity)
+        const {revenue, gas, capital} = this.fixedValues(opportunity, prices)
+        const budget = revenue - gas - capital - this.minProfit
+
+        if (budget < 0n) {
+            return undefined
+        }
+
+        const maxTakingAmount = fromUsd(budget, aptosAsset, prices.aptosAsset)
+        const reachedAt = auction.timeToReach(maxTakingAmount)
+
+        if (reachedAt === undefined) {
+            return undefined
+        }
+
+        const time = reachedAt > now ? reachedAt : now
+
+        if (auction.hasEnded(time)) {
+            return undefined
+        }
+
+        return this.evaluateAt(opportunity, prices, time)
+    }
+
+    private evaluateAt(opportunity: FillOpportunity, prices: OpportunityPrices, time: bigint): FillEvaluation {
+        const {revenue, gas, capital} = this.fixedValues(opportunity, prices)
+        const takingAmount = opportunity.auction.amountAt(time)
+        const taking = toUsd(takingAmount, opportunity.aptosAsset, prices.aptosAsset, 'up')
+        const pnl = revenue - taking - gas - capital
+
+        return {
+            time,
+            takingAmount,
+            revenue,
+            costs: {taking, gas, capital},
+            pnl,
+            profitable: pnl >= this.minProfit
+        }
+    }
+
+    /**
+     * Values not depending on the fill time
+     */
+    private fixedValues(
+        opportunity: FillOpportunity,
+        prices: OpportunityPrices
+    ): {revenue: bigint; gas: bigint; capital: bigint} {
+        const {evm, aptos} = opportunity.gas
+        const {evmNative} = this.config
+
+        const revenue = toUsd(opportunity.makingAmount, opportunity.makerAsset, prices.makerAsset, 'down')
+        const gas =
+            toUsd((evm.deploySrc + evm.withdraw) * evm.gasPrice, evmNative, prices.evmNative, 'up') +
+            toUsd(
+                (aptos.createEscrow + aptos.withdraw) * aptos.gasUnitPrice,
+                this.aptosNative,
+                prices.aptosNative,
+                'up'
+            )
+
+        const deposits =
+            toUsd(opportunity.safetyDeposits.evm, evmNative, prices.evmNative, 'up') +
+            toUsd(opportunity.safetyDeposits.aptos, this.aptosNative, prices.aptosNative, 'up')
+        const capital = ceilDiv(deposits * this.capitalCostBps * opportunity.lockDuration, BPS * YEAR)
+
+        return {revenue, gas, capital}
+    }
+
+    private async getPrices(opportunity: FillOpportunity): Promise<OpportunityPrices> {
+        const {prices} = this.config
+        const [aptosAsset, makerAsset, evmNative, aptosNative] = await Promise.all([
+            prices.getPrice(opportunity.aptosAsset),
+            prices.getPrice(opportunity.makerAsset),
+            prices.getPrice(this.config.evmNative),
+            prices.getPrice(this.aptosNative)
+        ])
+
+        return {aptosAsset, makerAsset, evmNative, aptosNative}
+    }
+}
+
+/**
+ * USD value of `amount` of the token, with `USD_DECIMALS`
+ */
+export function toUsd(amount: bigint, token: Token, price: Price, rounding: Exclude<Rounding, 'exact'>): bigint {
+    const numerator = amount * price.numerator * 10n ** BigInt(USD_DECIMALS)
+    const denominator = price.denominator * 10n ** BigInt(token.decimals)
+
+    return rounding === 'up' ? ceilDiv(numerator, denominator) : numerator / denominator
+}
+
+/**
+ * Amount of the token worth at most `usd`
+ */
+export function fromUsd(usd: bigint, token: Token, price: Price): bigint {
+    if (price.numerator === 0n) {
+        throw new Error(`${token.symbol} has no value`)
+    }
+
+    return (usd * price.denominator * 10n ** BigInt(token.decimals)) / (price.numerator * 10n ** BigInt(USD_DECIMALS))
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+    return (a + b - 1n) / b
+}
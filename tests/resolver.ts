@@ -2,9 +2,17 @@ import {Interface, Signature, TransactionRequest} from 'ethers'
 import Sdk from '@1inch/cross-chain-sdk'
 import Contract from '../dist/contracts/Resolver.sol/Resolver.json'
 
+export const IMMUTABLES =
+    'tuple(bytes32 orderHash, bytes32 hashlock, uint256 maker, uint256 taker, uint256 token, uint256 amount, uint256 safetyDeposit, uint256 timelocks)'
+
 export class Resolver {
     private readonly iface = new Interface(Contract.abi)
 
+    private readonly escrowIface = new Interface([
+        `function publicWithdraw(bytes32 secret, ${IMMUTABLES} immutables)`,
+        `function publicCancel(${IMMUTABLES} immutables)`
+    ])
+
     constructor(
         public readonly srcAddress: string,
         public readonly dstAddress: string
@@ -71,4 +79,35 @@ export class Resolver {
             data: this.iface.encodeFunctionData('cancel', [escrow.toString(), immutables.build()])
         }
     }
+
+    /**
+     * Escrows only accept public calls from access token holders, the resolver contract makes them
+     */
+    public publicWithdraw(
+        side: 'src' | 'dst',
+        escrow: Sdk.Address,
+        secret: string,
+        immutables: Sdk.Immutables
+    ): TransactionRequest {
+        return this.arbitraryCall(
+            side,
+            escrow,
+            this.escrowIface.encodeFunctionData('publicWithdraw', [secret, immutables.build()])
+        )
+    }
+
+    public publicCancel(side: 'src' | 'dst', escrow: Sdk.Address, immutables: Sdk.Immutables): TransactionRequest {
+        return this.arbitraryCall(
+            side,
+            escrow,
+            this.escrowIface.encodeFunctionData('publicCancel', [immutables.build()])
+        )
+    }
+
+    private arbitraryCall(side: 'src' | 'dst', target: Sdk.Address, data: string): TransactionRequest {
+        return {
+            to: side === 'src' ? this.srcAddress : this.dstAddress,
+            data: this.iface.encodeFunctionData('arbitraryCalls', [[target.toString()], [data]])
+        }
+    }
 }
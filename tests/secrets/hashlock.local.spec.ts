@@ -0,0 +1,33 @@
+import 'dotenv/config'
+import {expect, jest} from '@jest/globals'
+import {getBytes, hexlify, randomBytes} from 'ethers'
+
+import {hashSecret, hashSecretBytes} from './hashlock'
+import {getConfig} from '../config'
+import {DeploymentHelper} from '../aptos/helpers/deployment'
+import {HashlockHelper} from '../aptos/helpers/hashlock'
+
+jest.setTimeout(1000 * 60)
+
+// conformance needs a node running the package of this repo
+const describeOnLocalNode = getConfig().chain.aptos.network === 'local' ? describe : describe.skip
+
+describeOnLocalNode('hashlock against hashlock::create_hash_for_test', () => {
+    let hashlockHelper: HashlockHelper
+
+    beforeAll(async () => {
+        await new DeploymentHelper().ensureContractsDeployed()
+        hashlockHelper = new HashlockHelper()
+    })
+
+    it('should compute the same bytes as the Move module', async () => {
+        for (let i = 0; i < 5; i++) {
+            const secret = randomBytes(32)
+            const onChain = await hashlockHelper.createHashFromSecret(secret)
+
+            expect(onChain).not.toBeNull()
+            expect(getBytes(onChain!)).toEqual(hashSecretBytes(secret))
+            expect(hexlify(onChain!)).toBe(hashSecret(secret))
+        }
+    })
+})
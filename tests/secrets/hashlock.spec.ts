@@ -0,0 +1,25 @@
+import {expect} from '@jest/globals'
+import Sdk from '@1inch/cross-chain-sdk'
+import {getBytes} from 'ethers'
+
+import {createSecrets, hashSecret, verifySecret} from './hashlock'
+
+describe('hashlock', () => {
+    it('should hash like the EVM escrows', () => {
+        const {secrets, hashes} = createSecrets(10)
+
+        secrets.forEach((secret, i) => expect(hashes[i]).toBe(Sdk.HashLock.hashSecret(secret)))
+    })
+
+    it('should verify secrets against their hash only', () => {
+        const {secrets, hashes} = createSecrets(2)
+
+        expect(verifySecret(secrets[0], hashes[0])).toBe(true)
+        expect(verifySecret(secrets[0], getBytes(hashes[0]))).toBe(true)
+        expect(verifySecret(secrets[1], hashes[0])).toBe(false)
+    })
+
+    it('should hash the well known empty input', () => {
+        expect(hashSecret(new Uint8Array())).toBe('0xc5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470')
+    })
+})
@@ -0,0 +1,37 @@
+import {BytesLike, getBytes, hexlify, keccak256, randomBytes} from 'ethers'
+
+/**
+ * Length of the secrets the swaps use
+ */
+export const SECRET_LENGTH = 32
+
+/**
+ * Hash of a secret as the Move `hashlock` module computes it, `aptos_hash::keccak256` of the secret bytes.
+ * It is the hash the EVM escrows lock as well, so one secret releases both legs of a swap.
+ */
+export function hashSecret(secret: BytesLike): string {
+    return keccak256(secret)
+}
+
+/**
+ * `hashSecret` as the bytes the Aptos entry functions take
+ */
+export function hashSecretBytes(secret: BytesLike): Uint8Array {
+    return getBytes(hashSecret(secret))
+}
+
+/**
+ * Whether the secret unlocks the hashlock
+ */
+export function verifySecret(secret: BytesLike, hash: BytesLike): boolean {
+    return hashSecret(secret) === hexlify(hash).toLowerCase()
+}
+
+/**
+ * Random secrets and their hashes, computed locally
+ */
+export function createSecrets(count: number): {secrets: string[]; hashes: string[]} {
+    const secrets = Array.from({length: count}, () => hexlify(randomBytes(SECRET_LENGTH)))
+
+    return {secrets, hashes: secrets.map(hashSecret)}
+}
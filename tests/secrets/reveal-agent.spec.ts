@@ -0,0 +1,308 @@
+import {expect} from '@jest/globals'
+import Sdk from '@1inch/cross-chain-sdk'
+import {JsonRpcProvider} from 'ethers'
+import {mkdtemp} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+
+import {MakerOrder, RevealAgentContext, SecretRevealAgent} from './reveal-agent'
+import {SecretSet, SecretVault} from './vault'
+import {EscrowFactory, SrcDeployEvent} from '../escrow-factory'
+import {EscrowHelper} from '../aptos/helpers/escrow'
+import {TimelockHelper} from '../aptos/helpers/timelock'
+import {Escrow} from '../aptos/models'
+import {AptosDurations} from '../timelocks/translator'
+
+const CHAIN_ID = Sdk.NetworkEnum.ETHEREUM
+const CREATED_AT_BLOCK = 100
+
+const MAKER = new Sdk.Address('0x' + '11'.repeat(20))
+const TOKEN = new Sdk.Address('0x' + '22'.repeat(20))
+const RESOLVER = new Sdk.Address('0x' + '33'.repeat(20))
+const OTHER = new Sdk.Address('0x' + '44'.repeat(20))
+
+const APTOS_ORDER_HASH = '0x' + 'aa'.repeat(32)
+const APTOS_RECEIVER = '0x' + 'bb'.repeat(32)
+const APTOS_ASSET = '0x' + 'cc'.repeat(32)
+const APTOS_RESOLVER = '0x' + 'dd'.repeat(32)
+
+const DURATIONS: AptosDurations = {finality: 10n, exclusive: 10n, publicWithdrawal: 10n, privateCancellation: 10n}
+
+const TIMELOCKS = {
+    srcWithdrawal: 10n,
+    srcPublicWithdrawal: 20n,
+    srcCancellation: 30n,
+    srcPublicCancellation: 40n,
+    dstWithdrawal: 10n,
+    dstPublicWithdrawal: 20n,
+    dstCancellation: 30n
+}
+
+type ImmutablesOverrides = Partial<Parameters<typeof Sdk.Immutables.new>[0]>
+
+function buildOrder(hashLock: Sdk.HashLock): Sdk.CrossChainOrder {
+    return Sdk.CrossChainOrder.new(
+        new Sdk.Address('0x' + '55'.repeat(20)),
+        {
+            salt: 1n,
+            maker: MAKER,
+            makingAmount: 100n,
+            takingAmount: 100n,
+            makerAsset: TOKEN,
+            takerAsset: new Sdk.Address('0x' + '66'.repeat(20))
+        },
+        {
+            hashLock,
+            timeLocks: Sdk.TimeLocks.new(TIMELOCKS),
+            srcChainId: CHAIN_ID,
+            dstChainId: Sdk.NetworkEnum.GNOSIS,
+            srcSafetyDeposit: 10n,
+            dstSafetyDeposit: 10n
+        },
+        {
+            auction: new Sdk.AuctionDetails({initialRateBump: 0, points: [], duration: 120n, startTime: 0n}),
+            whitelist: [{address: RESOLVER, allowFrom: 0n}],
+            resolvingStartTime: 0n
+        },
+        {nonce: 1n, allowPartialFills: true, allowMultipleFills: true}
+    )
+}
+
+describe('SecretRevealAgent', () => {
+    let vault: SecretVault
+    let set: SecretSet
+    let maker: MakerOrder
+    let orderHash: string
+
+    let events: SrcDeployEvent[]
+    let filters: unknown[]
+    let escrows: Map<string, Escrow>
+    let failingReads: Set<string>
+    let agent: SecretRevealAgent
+
+    beforeEach(async () => {
+        vault = await SecretVault.open(await mkdtemp(join(tmpdir(), 'reveal-agent-spec-')), 'passphrase')
+
+        // two parts and the secret completing the order
+        set = await vault.generate(3)
+
+        const order = buildOrder(vault.hashLock(set.id))
+        orderHash = order.getOrderHash(CHAIN_ID)
+        await vault.bindOrder(set.id, orderHash)
+
+        maker = {
+            order,
+            createdAtBlock: CREATED_AT_BLOCK,
+            aptos: {
+                orderHash: APTOS_ORDER_HASH,
+                receiver: APTOS_RECEIVER,
+                asset: APTOS_ASSET,
+                minAmount: 100n,
+                safetyDeposit: 10n,
+                resolvers: [APTOS_RESOLVER],
+                durations: DURATIONS
+            }
+        }
+
+        events = []
+        filters = []
+        escrows = new Map()
+        failingReads = new Set()
+
+        const ctx: RevealAgentContext = {
+            evm: {
+                chainId: CHAIN_ID,
+                provider: {getBlockNumber: async () => CREATED_AT_BLOCK + 10} as unknown as JsonRpcProvider,
+                factory: {
+                    getSrcDeployEvents: async (filter: unknown) => {
+                        filters.push(filter)
+
+                        return events
+                    }
+                } as unknown as EscrowFactory
+            },
+            aptos: {
+                escrow: {
+                    getCreatedEscrows: async () => [...escrows.keys()],
+                    getEscrow: async (address: string) => {
+                        if (failingReads.delete(address)) {
+                            throw new Error('rpc unavailable')
+                        }
+
+                        return escrows.get(address)!
+                    }
+                } as unknown as EscrowHelper,
+                timelock: {
+                    getTimelock: async () => ({createdAt: 1_000n, durations: DURATIONS})
+                } as unknown as TimelockHelper
+            }
+        }
+
+        agent = new SecretRevealAgent(ctx, vault, maker)
+    })
+
+    function srcEvent(index: number, amount: bigint, overrides: ImmutablesOverrides = {}): SrcDeployEvent {
+        const immutables = Sdk.Immutables.new({
+            orderHash,
+            hashLock: Sdk.HashLock.fromString(set.hashes[index]),
+            maker: MAKER,
+            taker: RESOLVER,
+            token: TOKEN,
+            amount,
+            safetyDeposit: 10n,
+            timeLocks: Sdk.TimeLocks.new(TIMELOCKS).setDeployedAt(1_000n),
+            ...overrides
+        })
+
+        return {
+            immutables,
+            complement: {} as Sdk.DstImmutablesComplement,
+            blockNumber: CREATED_AT_BLOCK + 1,
+            blockHash: '0x' + '77'.repeat(32),
+            txHash: '0x' + '88'.repeat(32),
+            logIndex: events.length
+        }
+    }
+
+    function aptosEscrow(index: number, amount: bigint, overrides: Partial<Escrow> = {}): Escrow {
+        return {
+            orderHash: APTOS_ORDER_HASH,
+            hash: set.hashes[index],
+            maker: APTOS_RECEIVER,
+            taker: APTOS_RESOLVER,
+            metadata: APTOS_ASSET,
+            amount,
+            safetyDepositAmount: 10n,
+            timelock: {
+                created_at: '1000',
+                finality_duration: '10',
+                exclusive_duration: '10',
+                public_withdrawal_duration: '10',
+                private_cancellation_duration: '10'
+            },
+            ...overrides
+        }
+    }
+
+    it('should reveal the secret once both escrows of the fill match the order', async () => {
+        events.push(srcEvent(2, 100n))
+        escrows.set('0x01', aptosEscrow(2, 100n))
+
+        expect(await agent.checkEvmEscrow(events[0].blockHash)).toBe(2)
+        expect(await agent.checkAptosEscrow('0x01')).toBe(2)
+
+        const reveal = agent.tryReveal()
+
+        expect(reveal).toMatchObject({index: 2, aptosEscrow: '0x01'})
+        expect(reveal?.secret).toBe(vault.reveal({orderHash, index: 2, hashLock: set.hashes[2]}))
+        expect(agent.tryReveal()).toBeUndefined()
+    })
+
+    it('should pick the escrow of the order among the ones deployed in the block', async () => {
+        const other = srcEvent(2, 100n, {orderHash: '0x' + '99'.repeat(32)})
+        events.push(other, srcEvent(0, 50n))
+
+        expect(await agent.checkEvmEscrow(other.blockHash)).toBe(0)
+        expect(filters).toEqual([{blockHash: other.blockHash}])
+    })
+
+    it('should fail when the block has no escrow of the order', async () => {
+        events.push(srcEvent(2, 100n, {orderHash: '0x' + '99'.repeat(32)}))
+
+        await expect(agent.checkEvmEscrow(events[0].blockHash)).rejects.toThrow('no SrcEscrowCreated event of order')
+    })
+
+    it.each<[string, ImmutablesOverrides, string]>([
+        ['maker', {maker: OTHER}, 'maker mismatch'],
+        ['token', {token: OTHER}, 'token mismatch'],
+        ['safety deposit', {safetyDeposit: 1n}, 'safety deposit mismatch'],
+        [
+            'timelocks',
+            {timeLocks: Sdk.TimeLocks.new({...TIMELOCKS, srcCancellation: 31n}).setDeployedAt(1_000n)},
+            'timelocks mismatch'
+        ],
+        ['taker', {taker: OTHER}, 'is not a whitelisted resolver'],
+        ['amount', {amount: 101n}, 'exceeds remaining amount'],
+        ['hashlock', {hashLock: Sdk.HashLock.fromString('0x' + '99'.repeat(32))}, 'does not belong to order']
+    ])('should reject an EVM escrow with another %s', async (_, overrides, message) => {
+        events.push(srcEvent(2, 100n, overrides))
+
+        await expect(agent.checkEvmEscrow(events[0].blockHash)).rejects.toThrow(message)
+    })
+
+    it('should reject an EVM escrow using the secret of another part', async () => {
+        // 60 of 100 ends in the second part, secret 1
+        events.push(srcEvent(0, 60n))
+
+        await expect(agent.checkEvmEscrow(events[0].blockHash)).rejects.toThrow('secret index mismatch')
+    })
+
+    it.each<[string, Partial<Escrow>, string]>([
+        ['order hash', {orderHash: '0x' + '99'.repeat(32)}, 'order hash mismatch'],
+        ['receiver', {maker: APTOS_RESOLVER}, 'receiver mismatch'],
+        ['asset', {metadata: APTOS_RESOLVER}, 'asset mismatch'],
+        ['safety deposit', {safetyDepositAmount: 1n}, 'safety deposit mismatch'],
+        ['taker', {taker: APTOS_RECEIVER}, 'is not a whitelisted resolver'],
+        ['hashlock', {hash: '0x' + '99'.repeat(32)}, 'does not belong to order']
+    ])('should reject an Aptos escrow with another %s', async (_, overrides, message) => {
+        escrows.set('0x01', aptosEscrow(2, 100n, overrides))
+
+        await expect(agent.checkAptosEscrow('0x01')).rejects.toThrow(message)
+    })
+
+    it('should reject an Aptos escrow with other durations', async () => {
+        maker.aptos.durations = {...DURATIONS, exclusive: 20n}
+        escrows.set('0x01', aptosEscrow(2, 100n))
+
+        await expect(agent.checkAptosEscrow('0x01')).rejects.toThrow('exclusive duration mismatch')
+    })
+
+    it('should not reveal while the Aptos escrow pays less than the proportional minimum', async () => {
+        events.push(srcEvent(0, 50n))
+        escrows.set('0x01', aptosEscrow(0, 49n))
+
+        await agent.checkEvmEscrow(events[0].blockHash)
+        await agent.checkAptosEscrow('0x01')
+
+        expect(agent.tryReveal()).toBeUndefined()
+    })
+
+    it('should watch the escrows of the order from its creation block on', async () => {
+        events.push(srcEvent(2, 100n, {orderHash: '0x' + '99'.repeat(32)}), srcEvent(0, 50n))
+        escrows.set('0x01', aptosEscrow(0, 50n))
+
+        const reveal = await agent.watch(0, 1000)
+
+        expect(reveal.index).toBe(0)
+        expect(filters[0]).toEqual({fromBlock: CREATED_AT_BLOCK, toBlock: CREATED_AT_BLOCK + 10})
+    })
+
+    it('should read an Aptos escrow again after a failed read', async () => {
+        events.push(srcEvent(0, 50n))
+        escrows.set('0x01', aptosEscrow(0, 50n))
+        failingReads.add('0x01')
+
+        const reveal = await agent.watch(0, 1000)
+
+        expect(reveal.aptosEscrow).toBe('0x01')
+        expect(failingReads.size).toBe(0)
+    })
+
+    it('should check the next fill against the secret of its part', async () => {
+        events.push(srcEvent(0, 50n))
+        escrows.set('0x01', aptosEscrow(0, 50n))
+
+        expect((await agent.watch(0, 1000)).index).toBe(0)
+
+        // the remaining 50 complete the order and take the last secret
+        events.length = 0
+        events.push(srcEvent(1, 50n))
+
+        await expect(agent.checkEvmEscrow(events[0].blockHash)).rejects.toThrow('secret index mismatch')
+
+        events.length = 0
+        events.push(srcEvent(2, 50n))
+
+        expect(await agent.checkEvmEscrow(events[0].blockHash)).toBe(2)
+    })
+})
@@ -0,0 +1,308 @@
+import {AccountAddress} from '@aptos-labs/ts-sdk'
+import Sdk from '@1inch/cross-chain-sdk'
+import {JsonRpcProvider} from 'ethers'
+import {SecretVault} from './vault'
+import {EscrowFactory} from '../escrow-factory'
+import {EscrowHelper} from '../aptos/helpers/escrow'
+import {TimelockHelper} from '../aptos/helpers/timelock'
+import {Escrow} from '../aptos/models'
+import {fillIndex} from '../orders/partial-fill'
+import {AptosDurations} from '../timelocks/translator'
+
+export type RevealAgentContext = {
+    evm: {
+        chainId: number
+        provider: JsonRpcProvider
+        factory: EscrowFactory
+    }
+    aptos: {
+        escrow: EscrowHelper
+        timelock: TimelockHelper
+    }
+}
+
+/**
+ * The order as created by the maker, everything the escrows are checked against
+ */
+export type MakerOrder = {
+    order: Sdk.CrossChainOrder
+    /**
+     * EVM block the order was created at, no escrow of the order can be deployed before it
+     */
+    createdAtBlock: number
+    aptos: {
+        orderHash: string
+        receiver: string
+        asset: string
+        /**
+         * Minimum amount for a full fill, the auction ending amount
+         */
+        minAmount: bigint
+        safetyDeposit: bigint
+        resolvers: string[]
+        durations: AptosDurations
+    }
+}
+
+export type Reveal = {
+    index: number
+    secret: string
+    evmEscrow: Sdk.Immutables
+    aptosEscrow: string
+}
+
+type Checked<T> = {index: number; value: T}
+
+const TIMELOCK_STAGES_MASK = (1n << 224n) - 1n // everything but deployedAt
+
+/**
+ * Maker side agent releasing a secret only after both escrows of a fill are deployed and match the order.
+ */
+export class SecretRevealAgent {
+    private readonly evmEscrows = new Map<string, Checked<Sdk.Immutables>>()
+
+    private readonly aptosEscrows = new Map<string, Checked<{address: string; amount: bigint}>>()
+
+    private readonly seenAptosEscrows = new Set<string>()
+
+    private filled = 0n
+
+    private nextBlock: number
+
+    constructor(
+        private readonly ctx: RevealAgentContext,
+        private readonly vault: SecretVault,
+        private readonly maker: MakerOrder
+    ) {
+        this.nextBlock = maker.createdAtBlock
+    }
+
+    get orderHash(): string {
+        return this.maker.order.getOrderHash(this.ctx.evm.chainId)
+    }
+
+    /**
+     * Check the SrcEscrowCreated event of the order in the given block, returns the secret index of the fill
+     */
+    public async checkEvmEscrow(blockHash: string): Promise<number> {
+        const event = (await this.ctx.evm.factory.getSrcDeployEvents({blockHash})).find((e) =>
+            this.isOwnEscrow(e.immutables)
+        )
+
+        if (!event) {
+            throw new Error(`no SrcEscrowCreated event of order ${this.orderHash} in block ${blockHash}`)
+        }
+
+        return this.acceptEvmEscrow(event.immutables)
+    }
+
+    /**
+     * Check the Aptos escrow, returns the secret index of the fill
+     */
+    public async checkAptosEscrow(escrowAddress: string): Promise<number> {
+        const {escrow, durations} = await this.readAptosEscrow(escrowAddress)
+
+        return this.acceptAptosEscrow(escrowAddress, escrow, durations)
+    }
+
+    /**
+     * Release the secret of a fill once both of its escrows passed the checks
+     */
+    public tryReveal(): Reveal | undefined {
+        for (const [hashLock, evmEscrow] of this.evmEscrows) {
+            const aptosEscrow = this.aptosEscrows.get(hashLock)
+
+            if (!aptosEscrow) {
+                continue
+            }
+
+            // partial fills must pay at least the proportional minimum
+            const minAmount = (this.maker.aptos.minAmount * evmEscrow.value.amount) / this.maker.order.makingAmount
+
+            if (aptosEscrow.value.amount < minAmount) {
+                console.log(
+                    `Aptos escrow ${aptosEscrow.value.address} pays ${aptosEscrow.value.amount}, min ${minAmount}`
+                )
+                continue
+            }
+
+            const secret = this.vault.reveal({orderHash: this.orderHash, index: evmEscrow.index, hashLock})
+
+            this.filled += evmEscrow.value.amount
+            this.evmEscrows.delete(hashLock)
+            this.aptosEscrows.delete(hashLock)
+
+            return {index: evmEscrow.index, secret, evmEscrow: evmEscrow.value, aptosEscrow: aptosEscrow.value.address}
+        }
+
+        return undefined
+    }
+
+    /**
+     * Poll both chains for new escrows until a secret can be revealed
+     */
+    public async watch(pollIntervalMs = 1000, timeoutMs = 5 * 60 * 1000): Promise<Reveal> {
+        const deadline = Date.now() + timeoutMs
+
+        while (Date.now() < deadline) {
+            await this.pollEvm()
+            await this.pollAptos()
+
+            const reveal = this.tryReveal()
+
+            if (reveal) {
+                return reveal
+            }
+
+            await new Promise((resolve) => setTimeout(resolve, pollIntervalMs))
+        }
+
+        throw new Error(`no valid escrows for order ${this.orderHash} within ${timeoutMs}ms`)
+    }
+
+    private async pollEvm(): Promise<void> {
+        const latest = await this.ctx.evm.provider.getBlockNumber()
+
+        if (this.nextBlock > latest) {
+            return
+        }
+
+        const events = await this.ctx.evm.factory.getSrcDeployEvents({fromBlock: this.nextBlock, toBlock: latest})
+
+        for (const {immutables, txHash} of events.filter((e) => this.isOwnEscrow(e.immutables))) {
+            try {
+                this.acceptEvmEscrow(immutables)
+            } catch (error) {
+                console.log(`Ignoring EVM escrow deployed in ${txHash}: ${error}`)
+            }
+        }
+
+        this.nextBlock = latest + 1
+    }
+
+    private async pollAptos(): Promise<void> {
+        for (const address of await this.ctx.aptos.escrow.getCreatedEscrows()) {
+            if (this.seenAptosEscrows.has(address)) {
+                continue
+            }
+
+            // a failed read is retried by the next poll, only a checked escrow is never looked at again
+            const read = await this.readAptosEscrow(address).catch((error) => {
+                console.log(`Reading Aptos escrow ${address} failed: ${error}`)
+
+                return undefined
+            })
+
+            if (!read) {
+                continue
+            }
+
+            this.seenAptosEscrows.add(address)
+
+            try {
+                this.acceptAptosEscrow(address, read.escrow, read.durations)
+            } catch (error) {
+                console.log(`Ignoring Aptos escrow ${address}: ${error}`)
+            }
+        }
+    }
+
+    private async readAptosEscrow(address: string): Promise<{escrow: Escrow; durations: AptosDurations}> {
+        const escrow = await this.ctx.aptos.escrow.getEscrow(address)
+        const {durations} = await this.ctx.aptos.timelock.getTimelock(escrow.timelock)
+
+        return {escrow, durations}
+    }
+
+    private isOwnEscrow(immutables: Sdk.Immutables): boolean {
+        return immutables.orderHash.toLowerCase() === this.orderHash.toLowerCase()
+    }
+
+    private acceptEvmEscrow(immutables: Sdk.Immutables): number {
+        const {order} = this.maker
+        const index = this.indexOf(immutables.hashLock.toString())
+
+        assertEq(immutables.orderHash, this.orderHash, 'order hash')
+        assertEq(immutables.maker.toString(), order.maker.toString(), 'maker')
+        assertEq(immutables.token.toString(), order.makerAsset.toString(), 'token')
+        assertEq(immutables.safetyDeposit, order.escrowExtension.srcSafetyDeposit, 'safety deposit')
+        assertEq(
+            immutables.timeLocks.build() & TIMELOCK_STAGES_MASK,
+            order.escrowExtension.timeLocks.build() & TIMELOCK_STAGES_MASK,
+            'timelocks'
+        )
+
+        if (!order.canExecuteAt(immutables.taker, immutables.timeLocks.deployedAt)) {
+            throw new Error(`escrow taker ${immutables.taker} is not a whitelisted resolver`)
+        }
+
+        if (immutables.amount <= 0n || this.filled + immutables.amount > order.makingAmount) {
+            throw new Error(`escrow amount ${immutables.amount} exceeds remaining amount`)
+        }
+
+        assertEq(index, this.expectedIndex(immutables.amount), 'secret index')
+
+        this.evmEscrows.set(immutables.hashLock.toString().toLowerCase(), {index, value: immutables})
+
+        return index
+    }
+
+    private acceptAptosEscrow(address: string, escrow: Escrow, durations: AptosDurations): number {
+        const {aptos} = this.maker
+        const index = this.indexOf(escrow.hash)
+
+        assertEq(escrow.orderHash, aptos.orderHash, 'order hash')
+        assertAddress(escrow.maker, aptos.receiver, 'receiver')
+        assertAddress(escrow.metadata, aptos.asset, 'asset')
+        assertEq(escrow.safetyDepositAmount, aptos.safetyDeposit, 'safety deposit')
+
+        if (!aptos.resolvers.some((r) => AccountAddress.from(r).equals(AccountAddress.from(escrow.taker)))) {
+            throw new Error(`escrow taker ${escrow.taker} is not a whitelisted resolver`)
+        }
+
+        for (const key of Object.keys(aptos.durations) as (keyof AptosDurations)[]) {
+            assertEq(durations[key], aptos.durations[key], `${key} duration`)
+        }
+
+        this.aptosEscrows.set(escrow.hash.toLowerCase(), {index, value: {address, amount: escrow.amount}})
+
+        return index
+    }
+
+    private indexOf(hash: string): number {
+        const index = this.vault.get(this.orderHash).hashes.findIndex((h) => h.toLowerCase() === hash.toLowerCase())
+
+        if (index === -1) {
+            throw new Error(`hashlock ${hash} does not belong to order ${this.orderHash}`)
+        }
+
+        return index
+    }
+
+    /**
+     * Secret index the escrow factory expects for a fill of `amount`, the last secret completes the order
+     */
+    private expectedIndex(amount: bigint): number {
+        const parts = this.vault.get(this.orderHash).hashes.length - 1
+
+        return fillIndex(this.maker.order.makingAmount, parts, this.filled, amount)
+    }
+}
+
+function assertEq<T>(actual: T, expected: T, name: string): void {
+    if (typeof actual === 'string' && typeof expected === 'string') {
+        if (actual.toLowerCase() === expected.toLowerCase()) {
+            return
+        }
+    } else if (actual === expected) {
+        return
+    }
+
+    throw new Error(`${name} mismatch: expected ${expected}, got ${actual}`)
+}
+
+function assertAddress(actual: string, expected: string, name: string): void {
+    if (!AccountAddress.from(actual).equals(AccountAddress.from(expected))) {
+        throw new Error(`${name} mismatch: expected ${expected}, got ${actual}`)
+    }
+}
@@ -0,0 +1,258 @@
+import {expect} from '@jest/globals'
+import Sdk from '@1inch/cross-chain-sdk'
+import {Aptos} from '@aptos-labs/ts-sdk'
+import {Interface, JsonRpcProvider} from 'ethers'
+import {mkdtemp} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+
+import {hashSecret} from './hashlock'
+import {SecretWatcher} from './secret-watcher'
+import {EscrowHelper} from '../aptos/helpers/escrow'
+import {TimelockHelper} from '../aptos/helpers/timelock'
+import {Escrow} from '../aptos/models'
+import {EscrowHandle} from '../chains/adapter'
+import {AptosEventIndexer, AptosIndexStore, openAptosIndexStore} from '../indexer/aptos-indexer'
+import {EvmIndexStore, EvmLogIndexer, EvmRecord, openEvmIndexStore} from '../indexer/evm-indexer'
+import {IMMUTABLES} from '../resolver'
+import {serializeImmutables} from '../swap/journal'
+import {ActionSecret, TimelockScheduler} from '../timelocks/scheduler'
+import {TimelockState} from '../timelocks/state'
+
+const SECRET = '0x' + '11'.repeat(32)
+const HASH_LOCK = hashSecret(SECRET)
+const WRONG_SECRET = '0x' + '22'.repeat(32)
+
+const APTOS_ESCROW = '0x' + 'a1'.repeat(32)
+const EVM_ESCROW = '0x' + 'e1'.repeat(20)
+
+const escrowCalls = new Interface([
+    `function withdraw(bytes32 secret, ${IMMUTABLES} immutables)`,
+    // a contract of someone else wrapping the withdrawal
+    `function multicall(bytes[] calls)`
+])
+
+function immutables(): Sdk.Immutables {
+    return Sdk.Immutables.new({
+        orderHash: '0x' + 'ab'.repeat(32),
+        hashLock: Sdk.HashLock.fromString(HASH_LOCK),
+        maker: new Sdk.Address('0x' + '33'.repeat(20)),
+        taker: new Sdk.Address('0x' + '44'.repeat(20)),
+        token: new Sdk.Address('0x' + '55'.repeat(20)),
+        amount: 100n,
+        safetyDeposit: 7n,
+        timeLocks: Sdk.TimeLocks.new({
+            srcWithdrawal: 10n,
+            srcPublicWithdrawal: 20n,
+            srcCancellation: 30n,
+            srcPublicCancellation: 40n,
+            dstWithdrawal: 10n,
+            dstPublicWithdrawal: 20n,
+            dstCancellation: 30n
+        }).setDeployedAt(1_000n)
+    })
+}
+
+/**
+ * Scheduler recording the escrows the watcher hands secrets to
+ */
+class FakeScheduler {
+    public readonly scheduled = new Set<string>()
+
+    public readonly registered: {handle: EscrowHandle; state: TimelockState; secret?: ActionSecret}[] = []
+
+    public readonly provided: {handle: EscrowHandle; secret: ActionSecret}[] = []
+
+    public get(handle: EscrowHandle): object | undefined {
+        return this.scheduled.has(handle.address) ? {} : undefined
+    }
+
+    public async register(handle: EscrowHandle, state: TimelockState, secret?: ActionSecret): Promise<void> {
+        this.registered.push({handle, state, secret})
+    }
+
+    public async provideSecret(handle: EscrowHandle, secret: ActionSecret): Promise<void> {
+        this.provided.push({handle, secret})
+    }
+}
+
+describe('SecretWatcher', () => {
+    let aptosStore: AptosIndexStore
+    let evmStore: EvmIndexStore
+    let aptosTxs: Map<bigint, object>
+    let evmTxs: Map<string, string>
+    let scheduler: FakeScheduler
+    let watcher: SecretWatcher
+
+    beforeEach(async () => {
+        const dir = await mkdtemp(join(tmpdir(), 'secret-watcher-spec-'))
+        aptosStore = await openAptosIndexStore(dir)
+        evmStore = await openEvmIndexStore(dir)
+        aptosTxs = new Map()
+        evmTxs = new Map()
+        scheduler = new FakeScheduler()
+
+        watcher = new SecretWatcher({
+            evm: {
+                provider: {
+                    getTransaction: async (hash: string) => (evmTxs.has(hash) ? {data: evmTxs.get(hash)} : null)
+                } as unknown as JsonRpcProvider,
+                indexer: {sync: async () => 0, store: evmStore} as unknown as EvmLogIndexer
+            },
+            aptos: {
+                client: {
+                    getTransactionByVersion: async ({ledgerVersion}: {ledgerVersion: bigint}) =>
+                        aptosTxs.get(ledgerVersion) ?? {}
+                } as unknown as Aptos,
+                indexer: {sync: async () => 0, store: aptosStore} as unknown as AptosEventIndexer,
+                escrow: {getEscrow: async () => ({timelock: {}}) as unknown as Escrow} as unknown as EscrowHelper,
+                timelock: {
+                    getTimelock: async () => ({
+                        createdAt: 1_000n,
+                        durations: {finality: 10n, exclusive: 10n, publicWithdrawal: 10n, privateCancellation: 10n}
+                    })
+                } as unknown as TimelockHelper
+            },
+            scheduler: scheduler as unknown as TimelockScheduler
+        })
+    })
+
+    async function withdrawOnAptos(args: unknown[], fn = '0xf::router::escrow_withdraw'): Promise<void> {
+        aptosTxs.set(7n, {payload: {function: fn, arguments: args}})
+        await aptosStore.save({
+            kind: 'escrow',
+            address: APTOS_ESCROW,
+            status: 'withdrawn',
+            hashLock: HASH_LOCK,
+            createdVersion: '5',
+            closedVersion: '7'
+        })
+    }
+
+    async function deployOnEvm(overrides: Partial<EvmRecord> = {}): Promise<void> {
+        await evmStore.save({
+            side: 'src',
+            address: EVM_ESCROW,
+            status: 'created',
+            hashLock: HASH_LOCK,
+            taker: '0x' + '44'.repeat(20),
+            immutables: serializeImmutables(immutables()),
+            deployTx: '0xdeploy',
+            deployBlock: 1,
+            ...overrides
+        })
+    }
+
+    async function openOnAptos(): Promise<void> {
+        await aptosStore.save({
+            kind: 'escrow',
+            address: APTOS_ESCROW,
+            status: 'created',
+            hashLock: HASH_LOCK,
+            createdVersion: '5'
+        })
+    }
+
+    describe('on Aptos', () => {
+        it('should read the secret of an escrow withdrawal and hand it to the EVM escrow of the hashlock', async () => {
+            await withdrawOnAptos([APTOS_ESCROW, SECRET])
+            await deployOnEvm()
+
+            expect(await watcher.poll()).toEqual([
+                {chain: 'aptos', escrow: APTOS_ESCROW, hashLock: HASH_LOCK, secret: SECRET, tx: '7'}
+            ])
+            expect(watcher.secretOf(HASH_LOCK.toUpperCase().replace('0X', '0x'))).toBe(SECRET)
+            expect(scheduler.registered).toEqual([
+                {
+                    handle: expect.objectContaining({chain: 'evm', side: 'src', address: EVM_ESCROW}),
+                    state: expect.any(TimelockState),
+                    secret: {revealed: SECRET}
+                }
+            ])
+        })
+
+        it('should match the escrow whatever the case of its address', async () => {
+            await withdrawOnAptos([APTOS_ESCROW.toUpperCase().replace('0X', '0x'), SECRET])
+
+            expect(await watcher.poll()).toHaveLength(1)
+        })
+
+        it('should only read the secret of an escrow_withdraw call', async () => {
+            await withdrawOnAptos([APTOS_ESCROW, SECRET], '0xf::router::escrow_recovery')
+
+            expect(await watcher.poll()).toEqual([])
+        })
+
+        it('should not read the secret of a call withdrawing another escrow', async () => {
+            await withdrawOnAptos(['0x' + 'a2'.repeat(32), SECRET])
+
+            expect(await watcher.poll()).toEqual([])
+        })
+
+        it('should refuse a secret which does not open the hashlock and not read the withdrawal again', async () => {
+            await withdrawOnAptos([APTOS_ESCROW, WRONG_SECRET])
+
+            expect(await watcher.poll()).toEqual([])
+
+            await withdrawOnAptos([APTOS_ESCROW, SECRET])
+
+            expect(await watcher.poll()).toEqual([])
+            expect(watcher.secretOf(HASH_LOCK)).toBeUndefined()
+            expect(scheduler.registered).toEqual([])
+        })
+    })
+
+    describe('on EVM', () => {
+        it('should read the secret from the calldata of a direct withdrawal', async () => {
+            evmTxs.set('0xwithdraw', escrowCalls.encodeFunctionData('withdraw', [SECRET, immutables().build()]))
+            await deployOnEvm({status: 'withdrawn', closedTx: '0xwithdraw'})
+            await openOnAptos()
+
+            expect(await watcher.poll()).toEqual([
+                {chain: 'evm', escrow: EVM_ESCROW, hashLock: HASH_LOCK, secret: SECRET, tx: '0xwithdraw'}
+            ])
+            // the Aptos escrow is the destination of the EVM source one
+            expect(scheduler.registered).toEqual([
+                {
+                    handle: {chain: 'aptos', side: 'dst', address: APTOS_ESCROW, txHash: ''},
+                    state: expect.any(TimelockState),
+                    secret: {revealed: SECRET}
+                }
+            ])
+        })
+
+        it('should read the secret from the Withdrawal log when the call was wrapped', async () => {
+            const wrapped = escrowCalls.encodeFunctionData('withdraw', [SECRET, immutables().build()])
+
+            evmTxs.set('0xwithdraw', escrowCalls.encodeFunctionData('multicall', [[wrapped]]))
+            await deployOnEvm({status: 'withdrawn', closedTx: '0xwithdraw', secret: SECRET})
+
+            expect(await watcher.poll()).toEqual([expect.objectContaining({chain: 'evm', secret: SECRET})])
+        })
+
+        it('should refuse a logged secret which does not open the hashlock', async () => {
+            evmTxs.set('0xwithdraw', escrowCalls.encodeFunctionData('withdraw', [WRONG_SECRET, immutables().build()]))
+            await deployOnEvm({status: 'withdrawn', closedTx: '0xwithdraw', secret: WRONG_SECRET})
+
+            expect(await watcher.poll()).toEqual([])
+            expect(watcher.secretOf(HASH_LOCK)).toBeUndefined()
+        })
+
+        it('should give the secret to an Aptos escrow already scheduled', async () => {
+            evmTxs.set('0xwithdraw', escrowCalls.encodeFunctionData('withdraw', [SECRET, immutables().build()]))
+            await deployOnEvm({side: 'dst', status: 'withdrawn', closedTx: '0xwithdraw'})
+            await openOnAptos()
+            scheduler.scheduled.add(APTOS_ESCROW)
+
+            await watcher.poll()
+
+            expect(scheduler.registered).toEqual([])
+            expect(scheduler.provided).toEqual([
+                {
+                    handle: {chain: 'aptos', side: 'src', address: APTOS_ESCROW, txHash: ''},
+                    secret: {revealed: SECRET}
+                }
+            ])
+        })
+    })
+})
@@ -0,0 +1,239 @@
+import {AccountAddress, Aptos} from '@aptos-labs/ts-sdk'
+import {Interface, JsonRpcProvider} from 'ethers'
+import {verifySecret} from './hashlock'
+import {EscrowHelper} from '../aptos/helpers/escrow'
+import {TimelockHelper} from '../aptos/helpers/timelock'
+import {ChainKind, EscrowHandle} from '../chains/adapter'
+import {AptosEventIndexer} from '../indexer/aptos-indexer'
+import {EvmLogIndexer, EvmRecord} from '../indexer/evm-indexer'
+import {IMMUTABLES} from '../resolver'
+import {deserializeImmutables} from '../swap/journal'
+import {TimelockScheduler} from '../timelocks/scheduler'
+import {TimelockState} from '../timelocks/state'
+
+export type SecretWatcherContext = {
+    evm: {
+        provider: JsonRpcProvider
+        indexer: EvmLogIndexer
+    }
+    aptos: {
+        client: Aptos
+        indexer: AptosEventIndexer
+        escrow: EscrowHelper
+        timelock: TimelockHelper
+    }
+    scheduler: TimelockScheduler
+}
+
+/**
+ * Secret read from the withdrawal of an escrow
+ */
+export type RevealedSecret = {
+    chain: ChainKind
+    escrow: string
+    hashLock: string
+    secret: string
+    /**
+     * Withdrawal transaction, its version on Aptos
+     */
+    tx: string
+}
+
+/**
+ * Reads the secrets revealed by withdrawals on either chain and hands the withdrawal of the escrow locking the
+ * same hashlock on the other chain to the scheduler.
+ *
+ * Withdrawals are found by the indexers. On Aptos the secret is the second argument of `router::escrow_withdraw`.
+ * On EVM it is read from the calldata when the escrow or our resolver was called directly, and from the
+ * `Withdrawal` event of the escrow otherwise, since a call through another contract wraps the calldata.
+ * Every secret is checked against the hashlock before it is used.
+ */
+export class SecretWatcher {
+    private readonly evmCalls = new Interface([
+        `function withdraw(bytes32 secret, ${IMMUTABLES} immutables)`,
+        `function publicWithdraw(bytes32 secret, ${IMMUTABLES} immutables)`,
+        `function withdraw(address escrow, bytes32 secret, ${IMMUTABLES} immutables)`
+    ])
+
+    private readonly revealed = new Map<string, RevealedSecret>()
+
+    private readonly read = new Set<string>()
+
+    constructor(private readonly ctx: SecretWatcherContext) {}
+
+    /**
+     * Secret revealed for the hashlock so far
+     */
+    public secretOf(hashLock: string): string | undefined {
+        return this.revealed.get(hashLock.toLowerCase())?.secret
+    }
+
+    /**
+     * Sync both indexers and read the secrets of new withdrawals, returns the secrets revealed since the last poll
+     */
+    public async poll(): Promise<RevealedSecret[]> {
+        await this.ctx.aptos.indexer.sync()
+        await this.ctx.evm.indexer.sync()
+
+        const found: RevealedSecret[] = []
+
+        for (const record of this.ctx.aptos.indexer.store.find({kind: 'escrow', status: 'withdrawn'})) {
+            if (!record.hashLock || !record.closedVersion || this.read.has(`aptos:${record.address}`)) {
+                continue
+            }
+
+            const secret = await this.readAptosSecret(record.address, record.closedVersion)
+
+            found.push(...this.accept('aptos', record.address, record.hashLock, record.closedVersion, secret))
+        }
+
+        for (const record of this.ctx.evm.indexer.store.find({status: 'withdrawn'})) {
+            if (!record.closedTx || this.read.has(`evm:${record.address}`)) {
+                continue
+            }
+
+            const secret = await this.readEvmSecret(record)
+
+            found.push(...this.accept('evm', record.address, record.hashLock, record.closedTx, secret))
+        }
+
+        for (const reveal of found) {
+            await this.handOff(reveal)
+        }
+
+        return found
+    }
+
+    /**
+     * Poll until the timeout
+     */
+    public async watch(pollIntervalMs = 5000, timeoutMs = 10 * 60 * 1000): Promise<void> {
+        const deadline = Date.now() + timeoutMs
+
+        while (Date.now() < deadline) {
+            await this.poll()
+            await new Promise((resolve) => setTimeout(resolve, pollIntervalMs))
+        }
+    }
+
+    private accept(
+        chain: ChainKind,
+        escrow: string,
+        hashLock: string,
+        tx: string,
+        secret: string | undefined
+    ): RevealedSecret[] {
+        this.read.add(`${chain}:${escrow}`)
+
+        if (secret === undefined || !verifySecret(secret, hashLock)) {
+            console.log(`[${chain}]`, `no secret for hashlock ${hashLock} in withdrawal ${tx} of escrow ${escrow}`)
+
+            return []
+        }
+
+        const reveal: RevealedSecret = {chain, escrow, hashLock: hashLock.toLowerCase(), secret, tx}
+
+        console.log(`[${chain}]`, `secret of hashlock ${hashLock} revealed in ${tx}`)
+        this.revealed.set(reveal.hashLock, reveal)
+
+        return [reveal]
+    }
+
+    private async readAptosSecret(escrow: string, version: string): Promise<string | undefined> {
+        const tx = await this.ctx.aptos.client.getTransactionByVersion({ledgerVersion: BigInt(version)})
+
+        if (!('payload' in tx) || !('function' in tx.payload) || !('arguments' in tx.payload)) {
+            return undefined
+        }
+
+        const [address, secret] = tx.payload.arguments
+
+        if (
+            !tx.payload.function.endsWith('::router::escrow_withdraw') ||
+            !AccountAddress.from(String(address)).equals(AccountAddress.from(escrow))
+        ) {
+            return undefined
+        }
+
+        return typeof secret === 'string' ? secret : undefined
+    }
+
+    private async readEvmSecret(record: EvmRecord): Promise<string | undefined> {
+        const tx = await this.ctx.evm.provider.getTransaction(record.closedTx!)
+        const call = tx && this.evmCalls.parseTransaction({data: tx.data})
+
+        if (call && verifySecret(call.args.secret, record.hashLock)) {
+            return call.args.secret
+        }
+
+        return record.secret
+    }
+
+    /**
+     * Give the scheduler the secret of every open escrow locking the hashlock on the other chain
+     */
+    private async handOff(reveal: RevealedSecret): Promise<void> {
+        const counterparts =
+            reveal.chain === 'aptos'
+                ? this.ctx.evm.indexer.store
+                      .find({hashLock: reveal.hashLock, status: 'created'})
+                      .map((record) => this.evmCounterpart(record))
+                : this.ctx.aptos.indexer.store
+                      .find({kind: 'escrow', hashLock: reveal.hashLock, status: 'created'})
+                      .map((record) => this.aptosCounterpart(record.address, reveal))
+
+        for (const {handle, state} of counterparts) {
+            const {scheduler} = this.ctx
+
+            if (scheduler.get(handle)) {
+                await scheduler.provideSecret(handle, {revealed: reveal.secret})
+                continue
+            }
+
+            if (!state) {
+                console.log(`[${handle.chain}]`, `cannot schedule escrow ${handle.address} without its timelocks`)
+                continue
+            }
+
+            await scheduler.register(handle, await state(), {revealed: reveal.secret})
+        }
+    }
+
+    private evmCounterpart(record: EvmRecord): Counterpart {
+        const immutables = record.immutables && deserializeImmutables(record.immutables)
+        const handle: EscrowHandle = {
+            chain: 'evm',
+            side: record.side,
+            address: record.address,
+            txHash: record.deployTx,
+            immutables
+        }
+
+        // `DstEscrowCreated` carries no immutables, a destination escrow can only be scheduled already
+        return {
+            handle,
+            state:
+                immutables &&
+                (async (): Promise<TimelockState> => TimelockState.fromEvm(immutables.timeLocks, record.side))
+        }
+    }
+
+    private aptosCounterpart(address: string, reveal: RevealedSecret): Counterpart {
+        const {escrow, timelock} = this.ctx.aptos
+
+        return {
+            // the Aptos escrow is on the other side of the order than the withdrawn EVM one
+            handle: {chain: 'aptos', side: this.evmSideOf(reveal) === 'src' ? 'dst' : 'src', address, txHash: ''},
+            state: async () => TimelockState.fromAptos(timelock, (await escrow.getEscrow(address)).timelock)
+        }
+    }
+
+    private evmSideOf(reveal: RevealedSecret): EvmRecord['side'] | undefined {
+        return this.ctx.evm.indexer.store.get(reveal.escrow)?.side
+    }
+}
+
+type Counterpart = {
+    handle: EscrowHandle
+    state?: () => Promise<TimelockState>
+}
@@ -0,0 +1,99 @@
+import {expect} from '@jest/globals'
+import Sdk from '@1inch/cross-chain-sdk'
+import {hexlify} from 'ethers'
+import {mkdtemp, readdir, readFile} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+
+import {hashSecret} from './hashlock'
+import {SecretVault} from './vault'
+
+describe('SecretVault', () => {
+    const orderHash = '0x' + '11'.repeat(32)
+
+    let dir: string
+    let vault: SecretVault
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'vault-spec-'))
+        vault = await SecretVault.open(dir, 'passphrase')
+    })
+
+    it('should reveal the secret of a bound order matching the escrow hashlock', async () => {
+        const set = await vault.generate()
+        await vault.bindOrder(set.id, orderHash)
+
+        const secret = vault.reveal({orderHash, index: 0, hashLock: set.hashes[0]})
+
+        expect(hashSecret(secret)).toBe(set.hashes[0])
+        expect(vault.hashLock(orderHash).toString()).toBe(set.hashes[0])
+    })
+
+    it('should not reveal a secret by set id', async () => {
+        const set = await vault.generate()
+
+        expect(() => vault.reveal({orderHash: set.id, index: 0, hashLock: set.hashes[0]})).toThrow(
+            `no secrets bound to order ${set.id}`
+        )
+    })
+
+    it('should not reveal a secret for another hashlock or index', async () => {
+        const set = await vault.generate(3)
+        await vault.bindOrder(set.id, orderHash)
+
+        expect(() => vault.reveal({orderHash, index: 1, hashLock: set.hashes[2]})).toThrow('does not match secret 1')
+        expect(() => vault.reveal({orderHash, index: 3, hashLock: set.hashes[2]})).toThrow('no secret with index 3')
+    })
+
+    it('should derive the EVM Merkle root and the Aptos hashes from the same set', async () => {
+        const set = await vault.generate(11)
+        await vault.bindOrder(set.id, orderHash)
+
+        const secrets = set.hashes.map((hashLock, index) => vault.reveal({orderHash, index, hashLock}))
+
+        expect(vault.hashLock(set.id).toString()).toBe(
+            Sdk.HashLock.forMultipleFills(Sdk.HashLock.getMerkleLeaves(secrets)).toString()
+        )
+        expect(vault.aptosHashes(set.id).map((hash) => hexlify(hash))).toEqual(set.hashes)
+        expect(vault.proof(orderHash, 4)).toEqual(Sdk.HashLock.getProof(Sdk.HashLock.getMerkleLeaves(secrets), 4))
+    })
+
+    it('should bind a set to a single order', async () => {
+        const set = await vault.generate()
+        const other = await vault.generate()
+        await vault.bindOrder(set.id, orderHash)
+
+        await expect(vault.bindOrder(set.id, '0x' + '22'.repeat(32))).rejects.toThrow('already bound to order')
+        await expect(vault.bindOrder(other.id, orderHash)).rejects.toThrow('already bound to secret set')
+    })
+
+    it('should load the sets and their orders when reopened', async () => {
+        const set = await vault.generate(2)
+        await vault.bindOrder(set.id, orderHash)
+
+        const reopened = await SecretVault.open(dir, 'passphrase')
+
+        expect(reopened.get(orderHash)).toEqual({id: set.id, orderHash, hashes: set.hashes})
+        expect(reopened.reveal({orderHash, index: 1, hashLock: set.hashes[1]})).toBe(
+            vault.reveal({orderHash, index: 1, hashLock: set.hashes[1]})
+        )
+    })
+
+    it('should reject another passphrase', async () => {
+        await vault.generate()
+
+        await expect(SecretVault.open(dir, 'other passphrase')).rejects.toThrow('invalid vault passphrase')
+    })
+
+    it('should never write a secret in plain text', async () => {
+        const set = await vault.generate(2)
+        await vault.bindOrder(set.id, orderHash)
+
+        const secrets = set.hashes.map((hashLock, index) => vault.reveal({orderHash, index, hashLock}).slice(2))
+        const files = await Promise.all((await readdir(dir)).map((name) => readFile(join(dir, name), 'utf8')))
+
+        for (const content of files) {
+            secrets.forEach((secret) => expect(content).not.toContain(secret))
+        }
+    })
+})
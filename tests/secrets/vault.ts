@@ -0,0 +1,243 @@
+import Sdk from '@1inch/cross-chain-sdk'
+import {uint8ArrayToHex} from '@1inch/byte-utils'
+import {getBytes} from 'ethers'
+import {createCipheriv, createDecipheriv, randomBytes, scryptSync} from 'node:crypto'
+import {mkdir, readdir, readFile, rename, writeFile} from 'node:fs/promises'
+import {join} from 'node:path'
+import {MerkleProof} from '../orders/partial-fill'
+
+type Encrypted = {
+    iv: string
+    tag: string
+    data: string
+}
+
+type VaultHeader = {
+    salt: string
+    check: Encrypted
+}
+
+type SecretSetFile = {
+    id: string
+    orderHash?: string
+    hashes: string[]
+    secrets: Encrypted
+}
+
+export type SecretSet = {
+    id: string
+    orderHash?: string
+    hashes: string[]
+}
+
+/**
+ * Escrow the secret is requested for, the secret is only released when its hash is the escrow's hashlock
+ */
+export type EscrowRef = {
+    orderHash: string
+    index: number
+    hashLock: string
+}
+
+const HEADER_FILE = 'vault.json'
+const CHECK_VALUE = 'secret-vault'
+
+/**
+ * Stores hashlock secrets encrypted with a key derived from a passphrase.
+ *
+ * Secrets are generated in sets, one per order. A set is created before the order exists (the order hash depends
+ * on the hashlock) and bound to the order hash afterwards. Hashes are kept in plain text so the EVM hashlock and
+ * the Aptos `hashes` vector can always be derived from the same data.
+ */
+export class SecretVault {
+    private readonly sets = new Map<string, SecretSetFile>()
+
+    private readonly byOrderHash = new Map<string, string>()
+
+    private constructor(
+        private readonly dir: string,
+        private readonly key: Buffer
+    ) {}
+
+    public static async open(dir: string, passphrase: string): Promise<SecretVault> {
+        await mkdir(dir, {recursive: true})
+
+        const headerPath = join(dir, HEADER_FILE)
+        const header = await readFile(headerPath, 'utf8')
+            .then((content) => JSON.parse(content) as VaultHeader)
+            .catch(() => undefined)
+
+        if (!header) {
+            const salt = randomBytes(16)
+            const vault = new SecretVault(dir, deriveKey(passphrase, salt))
+            await writeAtomic(headerPath, {salt: salt.toString('hex'), check: vault.encrypt(CHECK_VALUE)})
+
+            return vault
+        }
+
+        const vault = new SecretVault(dir, deriveKey(passphrase, Buffer.from(header.salt, 'hex')))
+
+        try {
+            vault.decrypt(header.check)
+        } catch {
+            throw new Error('invalid vault passphrase')
+        }
+
+        await vault.load()
+
+        return vault
+    }
+
+    /**
+     * Generate `count` secrets, a single secret is a single fill order
+     */
+    public async generate(count = 1): Promise<SecretSet> {
+        if (count < 1) {
+            throw new Error(`secrets count must be positive, got ${count}`)
+        }
+
+        const secrets = Array.from({length: count}).map(() => uint8ArrayToHex(randomBytes(32)))
+        const file: SecretSetFile = {
+            id: uint8ArrayToHex(randomBytes(16)),
+            hashes: secrets.map((s) => Sdk.HashLock.hashSecret(s)),
+            secrets: this.encrypt(JSON.stringify(secrets))
+        }
+
+        await this.save(file)
+
+        return toSecretSet(file)
+    }
+
+    public async bindOrder(id: string, orderHash: string): Promise<void> {
+        const file = this.getFile(id)
+        const bound = this.byOrderHash.get(orderHash)
+
+        if (file.orderHash && file.orderHash !== orderHash) {
+            throw new Error(`secret set ${id} is already bound to order ${file.orderHash}`)
+        }
+
+        if (bound && bound !== id) {
+            throw new Error(`order ${orderHash} is already bound to secret set ${bound}`)
+        }
+
+        await this.save({...file, orderHash})
+    }
+
+    public has(idOrOrderHash: string): boolean {
+        return this.sets.has(this.byOrderHash.get(idOrOrderHash) ?? idOrOrderHash)
+    }
+
+    public get(idOrOrderHash: string): SecretSet {
+        return toSecretSet(this.getFile(idOrOrderHash))
+    }
+
+    /**
+     * EVM hashlock of the order, a Merkle root when the set has more than one secret
+     */
+    public hashLock(idOrOrderHash: string): Sdk.HashLock {
+        const {hashes} = this.getFile(idOrOrderHash)
+
+        return hashes.length === 1
+            ? Sdk.HashLock.fromString(hashes[0])
+            : Sdk.HashLock.forMultipleFills(Sdk.HashLock.getMerkleLeavesFromSecretHashes(hashes))
+    }
+
+    /**
+     * `hashes` argument of the Aptos auction and fusion order entry functions
+     */
+    public aptosHashes(idOrOrderHash: string): Uint8Array[] {
+        return this.getFile(idOrOrderHash).hashes.map((hash) => getBytes(hash))
+    }
+
+    public proof(idOrOrderHash: string, index: number): MerkleProof {
+        const {hashes} = this.getFile(idOrOrderHash)
+
+        return Sdk.HashLock.getProof(Sdk.HashLock.getMerkleLeavesFromSecretHashes(hashes), index)
+    }
+
+    /**
+     * Secret locked by the escrow of a bound order, a set id is not accepted so only a signed order reveals secrets
+     */
+    public reveal(escrow: EscrowRef): string {
+        const id = this.byOrderHash.get(escrow.orderHash)
+
+        if (id === undefined) {
+            throw new Error(`no secrets bound to order ${escrow.orderHash}`)
+        }
+
+        const file = this.getFile(id)
+        const hash = file.hashes[escrow.index]
+
+        if (hash === undefined) {
+            throw new Error(`order ${escrow.orderHash} has no secret with index ${escrow.index}`)
+        }
+
+        if (hash.toLowerCase() !== escrow.hashLock.toLowerCase()) {
+            throw new Error(`escrow hashlock ${escrow.hashLock} does not match secret ${escrow.index}`)
+        }
+
+        const secrets = JSON.parse(this.decrypt(file.secrets)) as string[]
+
+        return secrets[escrow.index]
+    }
+
+    private async load(): Promise<void> {
+        const files = await readdir(this.dir)
+
+        for (const name of files.filter((f) => f !== HEADER_FILE && f.endsWith('.json'))) {
+            this.index(JSON.parse(await readFile(join(this.dir, name), 'utf8')) as SecretSetFile)
+        }
+    }
+
+    private async save(file: SecretSetFile): Promise<void> {
+        await writeAtomic(join(this.dir, `${file.id}.json`), file)
+        this.index(file)
+    }
+
+    private index(file: SecretSetFile): void {
+        this.sets.set(file.id, file)
+
+        if (file.orderHash) {
+            this.byOrderHash.set(file.orderHash, file.id)
+        }
+    }
+
+    private getFile(idOrOrderHash: string): SecretSetFile {
+        const file = this.sets.get(this.byOrderHash.get(idOrOrderHash) ?? idOrOrderHash)
+
+        if (!file) {
+            throw new Error(`no secrets for ${idOrOrderHash}`)
+        }
+
+        return file
+    }
+
+    private encrypt(plain: string): Encrypted {
+        const iv = randomBytes(12)
+        const cipher = createCipheriv('aes-256-gcm', this.key, iv)
+        const data = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()])
+
+        return {iv: iv.toString('hex'), tag: cipher.getAuthTag().toString('hex'), data: data.toString('hex')}
+    }
+
+    private decrypt(encrypted: Encrypted): string {
+        const decipher = createDecipheriv('aes-256-gcm', this.key, Buffer.from(encrypted.iv, 'hex'))
+        decipher.setAuthTag(Buffer.from(encrypted.tag, 'hex'))
+
+        return Buffer.concat([decipher.update(Buffer.from(encrypted.data, 'hex')), decipher.final()]).toString('utf8')
+    }
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+    return scryptSync(passphrase, salt, 32)
+}
+
+function toSecretSet(file: SecretSetFile): SecretSet {
+    return {id: file.id, orderHash: file.orderHash, hashes: [...file.hashes]}
+}
+
+async function writeAtomic(path: string, content: unknown): Promise<void> {
+    const tmp = `${path}.tmp`
+    await writeFile(tmp, JSON.stringify(content, null, 2))
+    await rename(tmp, path)
+}
@@ -0,0 +1,308 @@
+import {AccountAddress} from '@aptos-labs/ts-sdk'
+import Sdk from '@1inch/cross-chain-sdk'
+import {SwapHooks, SwapStateMachine} from './state-machine'
+import {serializeImmutables, SwapJournal, SwapRecord} from './journal'
+import {ChainPair, EscrowHandle} from '../chains/adapter'
+import {AptosEscrowParams} from '../chains/aptos-adapter'
+import {EvmEscrowParams} from '../chains/evm-adapter'
+import {Resolver} from '../resolver'
+import {FusionOrderHelper} from '../aptos/helpers/fusion-order'
+import {FusionOrder} from '../aptos/models'
+import {verifyOrderLink} from '../orders/order-link'
+import {AptosLeg, verifyAptosLeg} from '../orders/aptos-order'
+import {TimelockTranslator} from '../timelocks/translator'
+
+const {Address} = Sdk
+
+export enum AptosToEthSwapState {
+    New = 'new',
+    OrderLoaded = 'order-loaded',
+    DstEscrowDeployed = 'dst-escrow-deployed',
+    SrcEscrowDeployed = 'src-escrow-deployed',
+    DstWithdrawn = 'dst-withdrawn',
+    Completed = 'completed'
+}
+
+export type AptosToEthSwapContext = {
+    evm: {
+        chainId: number
+        resolverContract: Resolver
+    }
+    aptos: {
+        fusionOrder: FusionOrderHelper
+    }
+    /**
+     * Deploys and settles the escrows, the source one on Aptos and the destination one on EVM
+     */
+    chains: ChainPair<AptosEscrowParams, EvmEscrowParams>
+    /**
+     * Journal recording every transition, so the swap can be recovered after a restart
+     */
+    journal?: SwapJournal
+}
+
+export type AptosToEthSwapParams = {
+    /**
+     * Order describing both legs, its making side lives on Aptos and its taking side on EVM
+     */
+    order: Sdk.CrossChainOrder
+    /**
+     * Address of the fusion order object created by the maker on Aptos
+     */
+    fusionOrder: string
+    dstSafetyDeposit: bigint
+    /**
+     * Maker and asset on Aptos the order commits to, checked against the fusion order
+     */
+    aptosLeg: AptosLeg
+    /**
+     * Secret can also be revealed later with `revealSecret`
+     */
+    secret?: string
+}
+
+const TERMINAL = [AptosToEthSwapState.Completed]
+
+/**
+ * Orchestrates an APT -> ETH swap: the maker locks a fungible asset in a fusion order on Aptos and receives
+ * an ERC-20 on EVM.
+ *
+ * The EVM destination immutables are derived from the on-chain fusion order, so the EVM escrow always locks
+ * the same hashlock and a matching amount.
+ */
+export class AptosToEthSwap extends SwapStateMachine<AptosToEthSwapState, AptosToEthSwap> {
+    public fusionOrder?: FusionOrder
+
+    public srcImmutables?: Sdk.Immutables
+
+    public complement?: Sdk.DstImmutablesComplement
+
+    public dstEscrow?: EscrowHandle
+
+    public srcEscrow?: EscrowHandle
+
+    public dstWithdrawTx?: string
+
+    public srcWithdrawTx?: string
+
+    private secret?: string
+
+    constructor(
+        private readonly ctx: AptosToEthSwapContext,
+        private readonly params: AptosToEthSwapParams,
+        hooks: SwapHooks<AptosToEthSwapState, AptosToEthSwap> = {}
+    ) {
+        super(AptosToEthSwapState.New, TERMINAL, hooks)
+
+        this.secret = params.secret
+    }
+
+    get orderHash(): string {
+        return this.params.order.getOrderHash(this.ctx.evm.chainId)
+    }
+
+    public static async create(
+        ctx: AptosToEthSwapContext,
+        params: AptosToEthSwapParams,
+        hooks: SwapHooks<AptosToEthSwapState, AptosToEthSwap> = {}
+    ): Promise<AptosToEthSwap> {
+        const swap = new AptosToEthSwap(ctx, params, hooks)
+
+        await ctx.journal?.track(swap)
+
+        return swap
+    }
+
+    /**
+     * Hand over the maker's secret, it must match the hashlock of the fusion order
+     */
+    public revealSecret(secret: string): void {
+        const hashLock = this.require(this.srcImmutables, 'hashlock').hashLock
+
+        if (Sdk.HashLock.hashSecret(secret) !== hashLock.toString()) {
+            throw new Error(`secret does not match hashlock ${hashLock}`)
+        }
+
+        this.secret = secret
+    }
+
+    public toRecord(): SwapRecord {
+        return {
+            id: this.orderHash,
+            direction: 'aptos-to-eth',
+            state: this.state,
+            finished: this.isFinished,
+            // the maker's secret, known once the fusion order is loaded
+            secret: this.srcImmutables && {
+                orderHash: this.orderHash,
+                index: 0,
+                hashLock: this.srcImmutables.hashLock.toString()
+            },
+            evm: {
+                chainId: this.ctx.evm.chainId,
+                side: 'dst',
+                escrow: this.dstEscrow?.address,
+                immutables: this.dstEscrow?.immutables && serializeImmutables(this.dstEscrow.immutables),
+                deployTx: this.dstEscrow?.txHash,
+                withdrawTx: this.dstWithdrawTx
+            },
+            aptos: {
+                order: this.params.fusionOrder,
+                escrow: this.srcEscrow?.address,
+                deployTx: this.srcEscrow?.txHash,
+                withdrawTx: this.srcWithdrawTx
+            }
+        }
+    }
+
+    protected async transition(): Promise<AptosToEthSwapState> {
+        switch (this.state) {
+            case AptosToEthSwapState.New:
+                return this.loadOrder()
+            case AptosToEthSwapState.OrderLoaded:
+                return this.deployDstEscrow()
+            case AptosToEthSwapState.DstEscrowDeployed:
+                return this.deploySrcEscrow()
+            case AptosToEthSwapState.SrcEscrowDeployed:
+                return this.withdrawDst()
+            case AptosToEthSwapState.DstWithdrawn:
+                return this.withdrawSrc()
+            default:
+                throw new Error(`no transition from state ${this.state}`)
+        }
+    }
+
+    private async loadOrder(): Promise<AptosToEthSwapState> {
+        const {order, fusionOrder: address} = this.params
+        const fusionOrder = await this.ctx.aptos.fusionOrder.getOrder(address)
+
+        if (!fusionOrder) {
+            throw new Error(`fusion order ${address} not found`)
+        }
+
+        await verifyOrderLink(
+            {fusionOrder: this.ctx.aptos.fusionOrder},
+            {kind: 'fusion-order', address},
+            this.orderHash
+        )
+
+        const leg = verifyAptosLeg(order, this.params.aptosLeg)
+
+        if (leg.side !== 'src') {
+            throw new Error(`order ${this.orderHash} does not have its source on Aptos`)
+        }
+
+        if (!fusionOrder.maker || !AccountAddress.from(leg.account).equals(AccountAddress.from(fusionOrder.maker))) {
+            throw new Error(`fusion order ${address} maker ${fusionOrder.maker} is not the order's Aptos maker`)
+        }
+
+        if (!AccountAddress.from(leg.asset).equals(AccountAddress.from(fusionOrder.metadata))) {
+            throw new Error(`fusion order ${address} asset ${fusionOrder.metadata} is not the order's Aptos asset`)
+        }
+
+        if (fusionOrder.hashes.length !== 1) {
+            throw new Error(`fusion order ${address} has ${fusionOrder.hashes.length} hashes, expected a single fill`)
+        }
+
+        if (fusionOrder.amount !== order.makingAmount) {
+            throw new Error(
+                `fusion order ${address} amount ${fusionOrder.amount} does not match making amount ${order.makingAmount}`
+            )
+        }
+
+        const hashLock = Sdk.HashLock.fromString(fusionOrder.hashes[0])
+
+        if (this.secret !== undefined && Sdk.HashLock.hashSecret(this.secret) !== hashLock.toString()) {
+            throw new Error(`secret does not match hashlock of fusion order ${address}`)
+        }
+
+        const receiver = receiverOf(order)
+        const token = order.takerAsset
+
+        this.fusionOrder = fusionOrder
+        this.srcImmutables = Sdk.Immutables.new({
+            orderHash: this.orderHash,
+            hashLock,
+            maker: receiver,
+            taker: new Address(this.ctx.evm.resolverContract.dstAddress),
+            token,
+            amount: fusionOrder.amount,
+            safetyDeposit: this.params.dstSafetyDeposit,
+            // destination windows mirror the source ones so the EVM escrow never outlives the Aptos escrow
+            timeLocks: new TimelockTranslator('src').toTimeLocks({
+                finality: fusionOrder.finalityDuration,
+                exclusive: fusionOrder.exclusiveDuration,
+                publicWithdrawal: fusionOrder.publicWithdrawalDuration,
+                privateCancellation: fusionOrder.privateCancellationDuration
+            })
+        })
+        this.complement = Sdk.DstImmutablesComplement.new({
+            maker: receiver,
+            amount: order.takingAmount,
+            token,
+            safetyDeposit: this.params.dstSafetyDeposit
+        })
+
+        return AptosToEthSwapState.OrderLoaded
+    }
+
+    private async deployDstEscrow(): Promise<AptosToEthSwapState> {
+        const {evm, chains} = this.ctx
+        const srcImmutables = this.require(this.srcImmutables, 'immutables')
+        const complement = this.require(this.complement, 'complement')
+
+        this.dstEscrow = await chains.dst.createEscrow({
+            side: 'dst',
+            immutables: srcImmutables
+                .withComplement(complement)
+                .withTaker(new Address(evm.resolverContract.dstAddress))
+                .withDeployedAt(await chains.dst.now())
+        })
+        console.log(`[${evm.chainId}]`, `Escrow ${this.dstEscrow.address} created in tx ${this.dstEscrow.txHash}`)
+
+        return AptosToEthSwapState.DstEscrowDeployed
+    }
+
+    private async deploySrcEscrow(): Promise<AptosToEthSwapState> {
+        this.srcEscrow = await this.ctx.chains.src.createEscrow({side: 'src', fusionOrder: this.params.fusionOrder})
+        console.log(`[APT]`, `Escrow ${this.srcEscrow.address} created in tx ${this.srcEscrow.txHash}`)
+
+        return AptosToEthSwapState.SrcEscrowDeployed
+    }
+
+    private async withdrawDst(): Promise<AptosToEthSwapState> {
+        const dstEscrow = this.require(this.dstEscrow, 'EVM escrow')
+        const secret = this.require(this.secret, 'secret')
+
+        this.dstWithdrawTx = await this.ctx.chains.dst.withdraw(dstEscrow, secret)
+        console.log(
+            `[${this.ctx.evm.chainId}]`,
+            `Withdrawn from escrow ${dstEscrow.address} in tx ${this.dstWithdrawTx}`
+        )
+
+        return AptosToEthSwapState.DstWithdrawn
+    }
+
+    private async withdrawSrc(): Promise<AptosToEthSwapState> {
+        const srcEscrow = this.require(this.srcEscrow, 'Aptos escrow')
+        const secret = this.require(this.secret, 'secret')
+
+        this.srcWithdrawTx = await this.ctx.chains.src.withdraw(srcEscrow, secret)
+        console.log(`[APT]`, `Withdrawn from escrow ${srcEscrow.address} in tx ${this.srcWithdrawTx}`)
+
+        return AptosToEthSwapState.Completed
+    }
+}
+
+/**
+ * EVM address the order pays the taking amount to, the maker unless the order names a receiver
+ */
+function receiverOf(order: Sdk.CrossChainOrder): Sdk.Address {
+    const receiver = order.receiver.isZero() ? order.maker : order.receiver
+
+    if (receiver.isZero()) {
+        throw new Error('order has neither a receiver nor an EVM maker')
+    }
+
+    return receiver
+}
@@ -0,0 +1,452 @@
+import {Account} from '@aptos-labs/ts-sdk'
+import Sdk from '@1inch/cross-chain-sdk'
+import {UINT_40_MAX} from '@1inch/byte-utils'
+import {getBytes} from 'ethers'
+import {AptosTx, SwapHooks, SwapStateMachine} from './state-machine'
+import {serializeImmutables, SwapJournal, SwapRecord} from './journal'
+import {ChainPair, EscrowHandle} from '../chains/adapter'
+import {AptosEscrowParams} from '../chains/aptos-adapter'
+import {EvmEscrowParams} from '../chains/evm-adapter'
+import {Wallet} from '../wallet'
+import {Resolver} from '../resolver'
+import {DutchAuctionHelper} from '../aptos/helpers/dutch-auction'
+import {verifyOrderLink} from '../orders/order-link'
+import {AptosLeg, newAptosOrder, verifyAptosLeg} from '../orders/aptos-order'
+import {PartialFill, PartialFillPlanner} from '../orders/partial-fill'
+import {SecretSet, SecretVault} from '../secrets/vault'
+import {AptosDurations, TimelockTranslator} from '../timelocks/translator'
+
+const {Address} = Sdk
+
+export enum EthToAptosSwapState {
+    New = 'new',
+    OrderSigned = 'order-signed',
+    AuctionCreated = 'auction-created',
+    DstEscrowDeployed = 'dst-escrow-deployed',
+    SrcEscrowDeployed = 'src-escrow-deployed',
+    DstWithdrawn = 'dst-withdrawn',
+    Completed = 'completed',
+    Cancelled = 'cancelled'
+}
+
+export type EthToAptosSwapContext = {
+    evm: {
+        chainId: number
+        escrowFactory: string
+        maker: Wallet
+        resolverContract: Resolver
+    }
+    aptos: {
+        /**
+         * Aptos chain id, see `AptosChainId`
+         */
+        chainId: number
+        maker: Account
+        dutchAuction: DutchAuctionHelper
+    }
+    /**
+     * Deploys and settles the escrows, the source one on EVM and the destination one on Aptos
+     */
+    chains: ChainPair<EvmEscrowParams, AptosEscrowParams>
+    /**
+     * Holds the secrets of the order, a secret leaves it only for an escrow locking its hash
+     */
+    vault: SecretVault
+    /**
+     * Journal recording every transition, so the swap can be recovered after a restart
+     */
+    journal?: SwapJournal
+}
+
+export type SwapPhases = {
+    withdrawal: bigint
+    publicWithdrawal: bigint
+    privateCancellation: bigint
+    publicCancellation: bigint
+}
+
+export type EthToAptosSwapParams = {
+    makerAsset: string
+    makingAmount: bigint
+    takingAmount: bigint
+    /**
+     * Fungible asset metadata address the maker receives on Aptos
+     */
+    aptosAsset: string
+    /**
+     * Vault secret set of the order, a single secret makes a single fill order, more secrets a multiple fills
+     * order. The set is bound to the order when it is signed.
+     */
+    secretSet: string
+    phases: SwapPhases
+    srcSafetyDeposit: bigint
+    dstSafetyDeposit: bigint
+    evmAuction: {
+        startTime: bigint
+        duration: bigint
+    }
+    auction: {
+        startTime: bigint
+        endTime: bigint
+        decayDuration: bigint
+        startingAmount: bigint
+        endingAmount: bigint
+        safetyDeposit: bigint
+        resolverWhitelist: string[]
+    }
+    /**
+     * Fill of a multiple fills order, the auction is then created with every hash and filled partially.
+     * Without it the whole order is filled at once.
+     */
+    fill?: {
+        amount: bigint
+        /**
+         * Amount of the order filled before, zero by default
+         */
+        filledAmount?: bigint
+    }
+}
+
+const TERMINAL = [EthToAptosSwapState.Completed, EthToAptosSwapState.Cancelled]
+
+/**
+ * Orchestrates an ETH -> APT swap: the maker sells an ERC-20 on EVM and receives a fungible asset on Aptos
+ * through a Dutch auction filled by the resolver.
+ */
+export class EthToAptosSwap extends SwapStateMachine<EthToAptosSwapState, EthToAptosSwap> {
+    public readonly order: Sdk.CrossChainOrder
+
+    /**
+     * Receiver and asset on Aptos the order commits to
+     */
+    public readonly aptosLeg: AptosLeg
+
+    /**
+     * Secret index and Aptos segment of this fill
+     */
+    public readonly fillPlan: PartialFill
+
+    public signature?: string
+
+    public auction?: AptosTx<'auctionAddress'>
+
+    public dstEscrow?: EscrowHandle
+
+    public srcEscrow?: EscrowHandle
+
+    public dstWithdrawTx?: string
+
+    public srcWithdrawTx?: string
+
+    public dstCancelTx?: string
+
+    public srcCancelTx?: string
+
+    private readonly secrets: SecretSet
+
+    constructor(
+        private readonly ctx: EthToAptosSwapContext,
+        private readonly params: EthToAptosSwapParams,
+        maker: Sdk.Address,
+        hooks: SwapHooks<EthToAptosSwapState, EthToAptosSwap> = {}
+    ) {
+        super(EthToAptosSwapState.New, TERMINAL, hooks)
+
+        this.secrets = ctx.vault.get(params.secretSet)
+        this.aptosLeg = {
+            chainId: ctx.aptos.chainId,
+            side: 'dst',
+            account: ctx.aptos.maker.accountAddress.toString(),
+            asset: params.aptosAsset
+        }
+        this.order = this.buildOrder(maker)
+        this.fillPlan = new PartialFillPlanner(params.makingAmount, this.secrets.hashes).plan(
+            params.fill?.filledAmount ?? 0n,
+            this.fillAmount
+        )
+    }
+
+    get orderHash(): string {
+        return this.order.getOrderHash(this.ctx.evm.chainId)
+    }
+
+    get isMultipleFills(): boolean {
+        return this.secrets.hashes.length > 1
+    }
+
+    /**
+     * Whether the Aptos auction is filled partially, by segment
+     */
+    get isPartialFill(): boolean {
+        return this.isMultipleFills && this.params.fill !== undefined
+    }
+
+    get fillAmount(): bigint {
+        return this.params.fill?.amount ?? this.order.makingAmount
+    }
+
+    get fillIndex(): number {
+        return this.fillPlan.index
+    }
+
+    public static async create(
+        ctx: EthToAptosSwapContext,
+        params: EthToAptosSwapParams,
+        hooks: SwapHooks<EthToAptosSwapState, EthToAptosSwap> = {}
+    ): Promise<EthToAptosSwap> {
+        const swap = new EthToAptosSwap(ctx, params, new Address(await ctx.evm.maker.getAddress()), hooks)
+
+        await ctx.journal?.track(swap)
+
+        return swap
+    }
+
+    /**
+     * Cancel both escrows, only possible once the cancellation phase has started on both chains
+     */
+    public async cancel(): Promise<void> {
+        const {dstEscrow, srcEscrow} = this.requireEscrows()
+        const {chains} = this.ctx
+
+        this.dstCancelTx = await chains.dst.cancel(dstEscrow)
+        console.log(`[APT]`, `Cancelled escrow ${dstEscrow.address} in tx ${this.dstCancelTx}`)
+
+        this.srcCancelTx = await chains.src.cancel(srcEscrow)
+        console.log(`[${this.ctx.evm.chainId}]`, `Cancelled escrow ${srcEscrow.address} in tx ${this.srcCancelTx}`)
+
+        await this.moveTo(EthToAptosSwapState.Cancelled)
+    }
+
+    public toRecord(): SwapRecord {
+        return {
+            // every fill of a multiple fills order is a swap of its own
+            id: this.isMultipleFills ? `${this.orderHash}-${this.fillIndex}` : this.orderHash,
+            direction: 'eth-to-aptos',
+            state: this.state,
+            finished: this.isFinished,
+            secret: {orderHash: this.orderHash, index: this.fillIndex, hashLock: this.fillPlan.secretHash},
+            evm: {
+                chainId: this.ctx.evm.chainId,
+                side: 'src',
+                escrow: this.srcEscrow?.address,
+                immutables: this.srcEscrow?.immutables && serializeImmutables(this.srcEscrow.immutables),
+                deployTx: this.srcEscrow?.txHash,
+                withdrawTx: this.srcWithdrawTx,
+                cancelTx: this.srcCancelTx
+            },
+            aptos: {
+                order: this.auction?.auctionAddress,
+                escrow: this.dstEscrow?.address,
+                createTx: this.auction?.txHash,
+                deployTx: this.dstEscrow?.txHash,
+                withdrawTx: this.dstWithdrawTx,
+                cancelTx: this.dstCancelTx
+            }
+        }
+    }
+
+    protected async transition(): Promise<EthToAptosSwapState> {
+        switch (this.state) {
+            case EthToAptosSwapState.New:
+                return this.signOrder()
+            case EthToAptosSwapState.OrderSigned:
+                return this.createAuction()
+            case EthToAptosSwapState.AuctionCreated:
+                return this.deployDstEscrow()
+            case EthToAptosSwapState.DstEscrowDeployed:
+                return this.deploySrcEscrow()
+            case EthToAptosSwapState.SrcEscrowDeployed:
+                return this.withdrawDst()
+            case EthToAptosSwapState.DstWithdrawn:
+                return this.withdrawSrc()
+            default:
+                throw new Error(`no transition from state ${this.state}`)
+        }
+    }
+
+    private async signOrder(): Promise<EthToAptosSwapState> {
+        await this.ctx.vault.bindOrder(this.params.secretSet, this.orderHash)
+        this.signature = await this.ctx.evm.maker.signOrder(this.ctx.evm.chainId, this.order)
+
+        return EthToAptosSwapState.OrderSigned
+    }
+
+    private async createAuction(): Promise<EthToAptosSwapState> {
+        const {auction} = this.params
+        const {asset} = verifyAptosLeg(this.order, this.aptosLeg)
+
+        this.auction = await this.ctx.aptos.dutchAuction.createAuction(
+            this.ctx.aptos.maker,
+            this.orderHash,
+            this.aptosHashes().map((hash) => getBytes(hash)),
+            asset,
+            auction.startingAmount,
+            auction.endingAmount,
+            auction.startTime,
+            auction.endTime,
+            auction.decayDuration,
+            auction.safetyDeposit,
+            auction.resolverWhitelist
+        )
+        console.log(`[APT]`, `Dutch auction ${this.auction.auctionAddress} created in tx ${this.auction.txHash}`)
+
+        return EthToAptosSwapState.AuctionCreated
+    }
+
+    private async deployDstEscrow(): Promise<EthToAptosSwapState> {
+        const auction = this.require(this.auction, 'auction')
+
+        // never lock resolver funds for an auction of another order
+        await verifyOrderLink(
+            {dutchAuction: this.ctx.aptos.dutchAuction},
+            {kind: 'auction', address: auction.auctionAddress},
+            this.orderHash
+        )
+
+        this.dstEscrow = await this.ctx.chains.dst.createEscrow({
+            side: 'dst',
+            auction: auction.auctionAddress,
+            durations: this.aptosDurations(),
+            segment: this.isPartialFill ? this.fillPlan.segment : undefined
+        })
+        console.log(`[APT]`, `Escrow ${this.dstEscrow.address} created in tx ${this.dstEscrow.txHash}`)
+
+        return EthToAptosSwapState.DstEscrowDeployed
+    }
+
+    private async deploySrcEscrow(): Promise<EthToAptosSwapState> {
+        const {evm, chains} = this.ctx
+
+        console.log(`[${evm.chainId}]`, `Filling order ${this.orderHash} for ${this.fillAmount}`)
+
+        this.srcEscrow = await chains.src.createEscrow({
+            side: 'src',
+            order: this.order,
+            signature: this.require(this.signature, 'signature'),
+            takerTraits: this.takerTraits(),
+            amount: this.fillAmount,
+            hashLock: this.isMultipleFills ? Sdk.HashLock.fromString(this.fillPlan.secretHash) : undefined
+        })
+        console.log(`[${evm.chainId}]`, `Escrow ${this.srcEscrow.address} created in tx ${this.srcEscrow.txHash}`)
+
+        return EthToAptosSwapState.SrcEscrowDeployed
+    }
+
+    private async withdrawDst(): Promise<EthToAptosSwapState> {
+        const {dstEscrow} = this.requireEscrows()
+
+        this.dstWithdrawTx = await this.ctx.chains.dst.withdraw(dstEscrow, this.revealSecret())
+        console.log(`[APT]`, `Withdrawn from escrow ${dstEscrow.address} in tx ${this.dstWithdrawTx}`)
+
+        return EthToAptosSwapState.DstWithdrawn
+    }
+
+    private async withdrawSrc(): Promise<EthToAptosSwapState> {
+        const {srcEscrow} = this.requireEscrows()
+
+        this.srcWithdrawTx = await this.ctx.chains.src.withdraw(srcEscrow, this.revealSecret())
+        console.log(
+            `[${this.ctx.evm.chainId}]`,
+            `Withdrawn from escrow ${srcEscrow.address} in tx ${this.srcWithdrawTx}`
+        )
+
+        return EthToAptosSwapState.Completed
+    }
+
+    private buildOrder(maker: Sdk.Address): Sdk.CrossChainOrder {
+        const {params, ctx} = this
+        const {phases} = params
+
+        return newAptosOrder(
+            this.aptosLeg,
+            new Address(ctx.evm.escrowFactory),
+            {
+                maker,
+                makingAmount: params.makingAmount,
+                takingAmount: params.takingAmount,
+                makerAsset: new Address(params.makerAsset),
+                takerAsset: new Address('0x0000000000000000000000000000000000000000') // Aptos asset is in the Aptos leg
+            },
+            {
+                hashLock: ctx.vault.hashLock(params.secretSet),
+                timeLocks: Sdk.TimeLocks.new({
+                    srcWithdrawal: phases.withdrawal,
+                    srcPublicWithdrawal: phases.publicWithdrawal,
+                    srcCancellation: phases.privateCancellation,
+                    srcPublicCancellation: phases.publicCancellation,
+                    dstWithdrawal: phases.withdrawal,
+                    dstPublicWithdrawal: phases.publicWithdrawal,
+                    dstCancellation: phases.privateCancellation
+                }),
+                evmChainId: ctx.evm.chainId,
+                srcSafetyDeposit: params.srcSafetyDeposit,
+                dstSafetyDeposit: params.dstSafetyDeposit
+            },
+            {
+                auction: new Sdk.AuctionDetails({
+                    initialRateBump: 0,
+                    points: [],
+                    duration: params.evmAuction.duration,
+                    startTime: params.evmAuction.startTime
+                }),
+                whitelist: [
+                    {
+                        address: new Address(ctx.evm.resolverContract.srcAddress),
+                        allowFrom: 0n
+                    }
+                ],
+                resolvingStartTime: 0n
+            },
+            {
+                nonce: Sdk.randBigInt(UINT_40_MAX),
+                allowPartialFills: this.isMultipleFills,
+                allowMultipleFills: this.isMultipleFills
+            }
+        )
+    }
+
+    private takerTraits(): Sdk.TakerTraits {
+        const traits = Sdk.TakerTraits.default().setExtension(this.order.extension)
+
+        if (this.isMultipleFills) {
+            const {proof, index, secretHash} = this.fillPlan
+
+            traits.setInteraction(
+                new Sdk.EscrowFactory(new Address(this.ctx.evm.escrowFactory)).getMultipleFillInteraction(
+                    proof,
+                    index,
+                    secretHash
+                )
+            )
+        }
+
+        return traits.setAmountMode(Sdk.AmountMode.maker).setAmountThreshold(this.order.takingAmount)
+    }
+
+    /**
+     * Secret of this fill, the vault checks it is the one locked by the escrows
+     */
+    private revealSecret(): string {
+        return this.ctx.vault.reveal({
+            orderHash: this.orderHash,
+            index: this.fillIndex,
+            hashLock: this.fillPlan.secretHash
+        })
+    }
+
+    private aptosHashes(): string[] {
+        // A partial fill on Aptos picks its hash by segment, a single fill only needs the hash of the used secret
+        return this.isPartialFill ? this.secrets.hashes : [this.fillPlan.secretHash]
+    }
+
+    private aptosDurations(): AptosDurations {
+        return new TimelockTranslator('dst').toAptosDurations(this.order.escrowExtension.timeLocks)
+    }
+
+    private requireEscrows(): {dstEscrow: EscrowHandle; srcEscrow: EscrowHandle} {
+        return {
+            dstEscrow: this.require(this.dstEscrow, 'Aptos escrow'),
+            srcEscrow: this.require(this.srcEscrow, 'EVM escrow')
+        }
+    }
+}
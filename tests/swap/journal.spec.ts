@@ -0,0 +1,127 @@
+import {expect} from '@jest/globals'
+import Sdk from '@1inch/cross-chain-sdk'
+import {appendFile, mkdtemp} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+
+import {deserializeImmutables, Journaled, serializeImmutables, SwapJournal, SwapRecord} from './journal'
+
+function record(id: string, state: string, finished = false): SwapRecord {
+    return {
+        id,
+        direction: 'eth-to-aptos',
+        state,
+        finished,
+        evm: {chainId: 1, side: 'src'},
+        aptos: {}
+    }
+}
+
+/**
+ * Swap stand-in moving through the given states
+ */
+class FakeSwap implements Journaled {
+    private readonly listeners: (() => Promise<void> | void)[] = []
+
+    private current = 'new'
+
+    constructor(private readonly id: string) {}
+
+    public onTransition(listener: () => Promise<void> | void): void {
+        this.listeners.push(listener)
+    }
+
+    public toRecord(): SwapRecord {
+        return record(this.id, this.current, this.current === 'completed')
+    }
+
+    public async moveTo(state: string): Promise<void> {
+        this.current = state
+
+        for (const listener of this.listeners) {
+            await listener()
+        }
+    }
+}
+
+describe('SwapJournal', () => {
+    let dir: string
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'journal-spec-'))
+    })
+
+    it('should record the tracked swap on every transition', async () => {
+        const swap = new FakeSwap('0x01')
+        const journal = new SwapJournal(dir)
+
+        await journal.track(swap)
+        await swap.moveTo('order-signed')
+        await swap.moveTo('completed')
+
+        const history = await journal.history('0x01')
+
+        expect(history.map((entry) => entry.record.state)).toEqual(['new', 'order-signed', 'completed'])
+        expect(history.at(-1)?.record.finished).toBe(true)
+    })
+
+    it('should replay the latest record of every swap after a restart', async () => {
+        const before = new SwapJournal(dir)
+
+        await before.append(record('0x01', 'new'))
+        await before.append(record('0x01', 'src-escrow-deployed'))
+        await before.append(record('0x02', 'new'))
+        await before.append(record('0x02', 'completed', true))
+
+        const after = new SwapJournal(dir)
+        const latest = await after.latest()
+
+        expect(latest.map((r) => [r.id, r.state]).sort()).toEqual([
+            ['0x01', 'src-escrow-deployed'],
+            ['0x02', 'completed']
+        ])
+        expect((await after.unfinished()).map((r) => r.id)).toEqual(['0x01'])
+    })
+
+    it('should skip a line torn by a crash', async () => {
+        const journal = new SwapJournal(dir)
+
+        await journal.append(record('0x01', 'auction-created'))
+        await appendFile(join(dir, '0x01.jsonl'), '{"at": 1, "record": {"id": "0x01", "sta')
+
+        const history = await journal.history('0x01')
+
+        expect(history).toHaveLength(1)
+        expect((await journal.unfinished())[0].state).toBe('auction-created')
+    })
+
+    it('should find nothing in a journal that does not exist yet', async () => {
+        expect(await new SwapJournal(join(dir, 'missing')).latest()).toEqual([])
+    })
+
+    it('should round trip the immutables', () => {
+        const immutables = Sdk.Immutables.new({
+            orderHash: '0x' + '11'.repeat(32),
+            hashLock: Sdk.HashLock.fromString('0x' + '22'.repeat(32)),
+            maker: new Sdk.Address('0x' + '33'.repeat(20)),
+            taker: new Sdk.Address('0x' + '44'.repeat(20)),
+            token: new Sdk.Address('0x' + '55'.repeat(20)),
+            amount: 100n,
+            safetyDeposit: 10n,
+            timeLocks: Sdk.TimeLocks.new({
+                srcWithdrawal: 10n,
+                srcPublicWithdrawal: 20n,
+                srcCancellation: 30n,
+                srcPublicCancellation: 40n,
+                dstWithdrawal: 10n,
+                dstPublicWithdrawal: 20n,
+                dstCancellation: 30n
+            }).setDeployedAt(1_000n)
+        })
+
+        const restored = deserializeImmutables(JSON.parse(JSON.stringify(serializeImmutables(immutables))))
+
+        expect(restored.hash()).toBe(immutables.hash())
+        expect(restored.timeLocks.deployedAt).toBe(1_000n)
+    })
+})
@@ -0,0 +1,159 @@
+import Sdk from '@1inch/cross-chain-sdk'
+import {mkdir, open, readdir, readFile} from 'node:fs/promises'
+import {join} from 'node:path'
+import {EscrowRef} from '../secrets/vault'
+
+export type SwapDirection = 'eth-to-aptos' | 'aptos-to-eth'
+
+export type SerializedImmutables = {
+    orderHash: string
+    hashLock: string
+    maker: string
+    taker: string
+    token: string
+    amount: string
+    safetyDeposit: string
+    timeLocks: string
+}
+
+/**
+ * Everything needed to finish or unwind a swap after a restart
+ */
+export type SwapRecord = {
+    id: string
+    direction: SwapDirection
+    state: string
+    finished: boolean
+    /**
+     * Vault reference of the secret the escrows lock, the secret itself is never journaled
+     */
+    secret?: EscrowRef
+    evm: {
+        chainId: number
+        side: 'src' | 'dst'
+        escrow?: string
+        immutables?: SerializedImmutables
+        deployTx?: string
+        withdrawTx?: string
+        cancelTx?: string
+    }
+    aptos: {
+        order?: string
+        escrow?: string
+        createTx?: string
+        deployTx?: string
+        withdrawTx?: string
+        cancelTx?: string
+    }
+}
+
+export type JournalEntry = {
+    at: number
+    record: SwapRecord
+}
+
+export interface Journaled {
+    onTransition(listener: () => Promise<void> | void): void
+    toRecord(): SwapRecord
+}
+
+/**
+ * Append-only journal of in-flight swaps, one JSON lines file per swap.
+ *
+ * Every write is flushed to disk before the swap moves on, so the last line of a file always describes
+ * the last step that was actually executed.
+ */
+export class SwapJournal {
+    constructor(private readonly dir: string) {}
+
+    /**
+     * Record the current state of the swap and every following transition
+     */
+    public async track(swap: Journaled): Promise<void> {
+        await this.append(swap.toRecord())
+        swap.onTransition(() => this.append(swap.toRecord()))
+    }
+
+    public async append(record: SwapRecord): Promise<void> {
+        await mkdir(this.dir, {recursive: true})
+
+        const entry: JournalEntry = {at: Date.now(), record}
+        const file = await open(this.fileOf(record.id), 'a')
+
+        try {
+            await file.appendFile(JSON.stringify(entry) + '\n')
+            await file.sync()
+        } finally {
+            await file.close()
+        }
+    }
+
+    public async history(id: string): Promise<JournalEntry[]> {
+        const content = await readFile(this.fileOf(id), 'utf8')
+
+        return content
+            .split('\n')
+            .filter((line) => line.trim() !== '')
+            .flatMap((line) => {
+                try {
+                    return [JSON.parse(line) as JournalEntry]
+                } catch {
+                    // last line can be torn if the process died while writing it
+                    return []
+                }
+            })
+    }
+
+    /**
+     * Latest record of every swap in the journal
+     */
+    public async latest(): Promise<SwapRecord[]> {
+        const files = await readdir(this.dir).catch(() => [] as string[])
+        const records: SwapRecord[] = []
+
+        for (const file of files.filter((f) => f.endsWith('.jsonl'))) {
+            const entries = await this.history(file.slice(0, -'.jsonl'.length))
+            const last = entries.at(-1)
+
+            if (last) {
+                records.push(last.record)
+            }
+        }
+
+        return records
+    }
+
+    public async unfinished(): Promise<SwapRecord[]> {
+        return (await this.latest()).filter((r) => !r.finished)
+    }
+
+    private fileOf(id: string): string {
+        return join(this.dir, `${id}.jsonl`)
+    }
+}
+
+export function serializeImmutables(immutables: Sdk.Immutables): SerializedImmutables {
+    return {
+        orderHash: immutables.orderHash,
+        hashLock: immutables.hashLock.toString(),
+        maker: immutables.maker.toString(),
+        taker: immutables.taker.toString(),
+        token: immutables.token.toString(),
+        amount: immutables.amount.toString(),
+        safetyDeposit: immutables.safetyDeposit.toString(),
+        timeLocks: immutables.timeLocks.build().toString()
+    }
+}
+
+export function deserializeImmutables(data: SerializedImmutables): Sdk.Immutables {
+    return Sdk.Immutables.new({
+        orderHash: data.orderHash,
+        hashLock: Sdk.HashLock.fromString(data.hashLock),
+        maker: new Sdk.Address(data.maker),
+        taker: new Sdk.Address(data.taker),
+        token: new Sdk.Address(data.token),
+        amount: BigInt(data.amount),
+        safetyDeposit: BigInt(data.safetyDeposit),
+        timeLocks: Sdk.TimeLocks.fromBigInt(BigInt(data.timeLocks))
+    })
+}
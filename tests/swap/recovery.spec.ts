@@ -0,0 +1,258 @@
+import {expect} from '@jest/globals'
+import Sdk from '@1inch/cross-chain-sdk'
+import {mkdtemp} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+
+import {serializeImmutables, SwapJournal, SwapRecord} from './journal'
+import {RecoveryContext, SwapRecovery} from './recovery'
+import {ChainAdapter, ChainKind, EscrowHandle} from '../chains/adapter'
+import {SecretVault} from '../secrets/vault'
+import {TimelockState} from '../timelocks/state'
+
+const CREATED_AT = 1_000n
+
+// both escrows can be cancelled from 30s after their creation on
+const WITHDRAWAL = CREATED_AT + 15n
+const CANCELLATION = CREATED_AT + 35n
+
+/**
+ * Adapter recording the calls of the recovery, withdrawals fail while `failWithdraw` is set
+ */
+class FakeAdapter implements ChainAdapter {
+    public readonly calls: string[] = []
+
+    public failWithdraw = false
+
+    public time = WITHDRAWAL
+
+    constructor(public readonly kind: ChainKind) {}
+
+    public async createEscrow(): Promise<EscrowHandle> {
+        throw new Error('not used by the recovery')
+    }
+
+    public async withdraw(escrow: EscrowHandle, secret: string): Promise<string> {
+        this.calls.push(`withdraw ${escrow.side} ${secret}`)
+
+        if (this.failWithdraw) {
+            throw new Error('withdrawal reverted')
+        }
+
+        return `${this.kind}-withdraw-tx`
+    }
+
+    public async cancel(escrow: EscrowHandle): Promise<string> {
+        this.calls.push(`cancel ${escrow.side}`)
+
+        return `${this.kind}-cancel-tx`
+    }
+
+    public async publicWithdraw(): Promise<string> {
+        throw new Error('not used by the recovery')
+    }
+
+    public async publicCancel(): Promise<string> {
+        throw new Error('not used by the recovery')
+    }
+
+    public async getBalance(): Promise<bigint> {
+        return 0n
+    }
+
+    public async now(): Promise<bigint> {
+        return this.time
+    }
+
+    public async waitForFinality(): Promise<void> {}
+}
+
+describe('SwapRecovery', () => {
+    const orderHash = '0x' + '11'.repeat(32)
+
+    let journal: SwapJournal
+    let vault: SecretVault
+    let hashLock: string
+    let evm: FakeAdapter
+    let aptos: FakeAdapter
+    let recovery: SwapRecovery
+
+    beforeEach(async () => {
+        const dir = await mkdtemp(join(tmpdir(), 'recovery-spec-'))
+
+        journal = new SwapJournal(join(dir, 'journal'))
+        vault = await SecretVault.open(join(dir, 'vault'), 'passphrase')
+
+        const set = await vault.generate()
+        await vault.bindOrder(set.id, orderHash)
+        hashLock = set.hashes[0]
+
+        evm = new FakeAdapter('evm')
+        aptos = new FakeAdapter('aptos')
+
+        const ctx: RecoveryContext = {
+            evm,
+            aptos,
+            vault,
+            aptosTimelock: async () =>
+                TimelockState.fromAptosDurations(CREATED_AT, {
+                    finality: 10n,
+                    exclusive: 10n,
+                    publicWithdrawal: 10n,
+                    privateCancellation: 10n
+                })
+        }
+        recovery = new SwapRecovery(ctx, journal)
+    })
+
+    function swapRecord(
+        overrides: {evm?: Partial<SwapRecord['evm']>; aptos?: Partial<SwapRecord['aptos']>} = {}
+    ): SwapRecord {
+        const immutables = Sdk.Immutables.new({
+            orderHash,
+            hashLock: Sdk.HashLock.fromString(hashLock),
+            maker: new Sdk.Address('0x' + '33'.repeat(20)),
+            taker: new Sdk.Address('0x' + '44'.repeat(20)),
+            token: new Sdk.Address('0x' + '55'.repeat(20)),
+            amount: 100n,
+            safetyDeposit: 10n,
+            timeLocks: Sdk.TimeLocks.new({
+                srcWithdrawal: 10n,
+                srcPublicWithdrawal: 20n,
+                srcCancellation: 30n,
+                srcPublicCancellation: 40n,
+                dstWithdrawal: 10n,
+                dstPublicWithdrawal: 20n,
+                dstCancellation: 30n
+            }).setDeployedAt(CREATED_AT)
+        })
+
+        return {
+            id: orderHash,
+            direction: 'eth-to-aptos',
+            state: 'src-escrow-deployed',
+            finished: false,
+            secret: {orderHash, index: 0, hashLock},
+            evm: {
+                chainId: 1,
+                side: 'src',
+                escrow: '0x' + '66'.repeat(20),
+                immutables: serializeImmutables(immutables),
+                ...overrides.evm
+            },
+            aptos: {escrow: '0x' + '77'.repeat(32), ...overrides.aptos}
+        }
+    }
+
+    async function latest(): Promise<SwapRecord> {
+        return (await journal.history(orderHash)).at(-1)!.record
+    }
+
+    it('should close a swap without escrows as abandoned', async () => {
+        const result = await recovery.recover(swapRecord({evm: {escrow: undefined}, aptos: {escrow: undefined}}))
+
+        expect(result.outcome).toBe('abandoned')
+        expect(await journal.unfinished()).toEqual([])
+    })
+
+    it('should withdraw both escrows with the secret from the vault', async () => {
+        const secret = vault.reveal({orderHash, index: 0, hashLock})
+
+        const result = await recovery.recover(swapRecord())
+
+        expect(result.outcome).toBe('withdrawn')
+        expect(aptos.calls).toEqual([`withdraw dst ${secret}`])
+        expect(evm.calls).toEqual([`withdraw src ${secret}`])
+        expect(await latest()).toMatchObject({
+            finished: true,
+            evm: {withdrawTx: 'evm-withdraw-tx'},
+            aptos: {withdrawTx: 'aptos-withdraw-tx'}
+        })
+    })
+
+    it('should cancel instead of withdrawing when only the destination escrow was deployed', async () => {
+        // ETH -> APT swap journaled at DstEscrowDeployed, the source escrow was never deployed
+        const record = swapRecord({evm: {escrow: undefined, immutables: undefined}})
+
+        expect((await recovery.recover(record)).outcome).toBe('pending')
+        expect([...evm.calls, ...aptos.calls]).toEqual([])
+
+        aptos.time = CANCELLATION
+
+        expect((await recovery.recover(record)).outcome).toBe('cancelled')
+        expect(aptos.calls).toEqual(['cancel dst'])
+        expect(evm.calls).toEqual([])
+    })
+
+    it('should never cancel once the Aptos escrow was withdrawn', async () => {
+        evm.failWithdraw = true
+        evm.time = CANCELLATION
+
+        const record = swapRecord()
+        const first = await recovery.recover(record)
+
+        expect(first.outcome).toBe('failed')
+        expect(evm.calls).toEqual([expect.stringMatching(/^withdraw src/)])
+        expect(aptos.calls).toEqual([expect.stringMatching(/^withdraw dst/)])
+        expect((await journal.unfinished()).map((r) => r.aptos.withdrawTx)).toEqual(['aptos-withdraw-tx'])
+
+        // next run retries the EVM withdrawal only
+        evm.failWithdraw = false
+
+        const [second] = await recovery.recoverAll()
+
+        expect(second.outcome).toBe('withdrawn')
+        expect(aptos.calls).toHaveLength(1)
+        expect(evm.calls).toEqual([expect.stringMatching(/^withdraw src/), expect.stringMatching(/^withdraw src/)])
+        expect(await journal.unfinished()).toEqual([])
+    })
+
+    it('should fail a revealed swap whose secret is not in the vault', async () => {
+        const record = swapRecord({aptos: {withdrawTx: 'aptos-withdraw-tx'}})
+        record.secret = {orderHash: '0x' + '99'.repeat(32), index: 0, hashLock}
+
+        const result = await recovery.recover(record)
+
+        expect(result.outcome).toBe('failed')
+        expect([...evm.calls, ...aptos.calls]).toEqual([])
+    })
+
+    it('should keep a swap without secret pending until both escrows can be cancelled', async () => {
+        const record = swapRecord()
+        record.secret = undefined
+
+        expect((await recovery.recover(record)).outcome).toBe('pending')
+
+        // Aptos is in its cancellation phase but the EVM escrow is not yet
+        aptos.time = CANCELLATION
+
+        expect((await recovery.recover(record)).outcome).toBe('pending')
+        expect([...evm.calls, ...aptos.calls]).toEqual([])
+
+        evm.time = CANCELLATION
+
+        expect((await recovery.recover(record)).outcome).toBe('cancelled')
+        expect(aptos.calls).toEqual(['cancel dst'])
+        expect(evm.calls).toEqual(['cancel src'])
+        expect(await latest()).toMatchObject({
+            finished: true,
+            evm: {cancelTx: 'evm-cancel-tx'},
+            aptos: {cancelTx: 'aptos-cancel-tx'}
+        })
+    })
+
+    it('should only fall back to cancelling a failed unrevealed withdrawal in the cancellation phase', async () => {
+        aptos.failWithdraw = true
+
+        expect((await recovery.recover(swapRecord())).outcome).toBe('pending')
+        expect(aptos.calls).toEqual([expect.stringMatching(/^withdraw dst/)])
+        expect(evm.calls).toEqual([])
+
+        aptos.time = CANCELLATION
+        evm.time = CANCELLATION
+
+        expect((await recovery.recover(swapRecord())).outcome).toBe('cancelled')
+        expect(aptos.calls.at(-1)).toBe('cancel dst')
+        expect(evm.calls).toEqual(['cancel src'])
+    })
+})
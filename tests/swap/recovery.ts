@@ -0,0 +1,210 @@
+import {deserializeImmutables, SwapJournal, SwapRecord} from './journal'
+import {ChainAdapter, EscrowHandle} from '../chains/adapter'
+import {SecretVault} from '../secrets/vault'
+import {TimelockState} from '../timelocks/state'
+
+export type RecoveryContext = {
+    evm: ChainAdapter
+    aptos: ChainAdapter
+    /**
+     * Secrets of the journaled swaps, looked up by the reference in the record
+     */
+    vault: SecretVault
+    /**
+     * Timelock of an Aptos escrow, EVM timelocks are journaled with the immutables
+     */
+    aptosTimelock(escrow: string): Promise<TimelockState>
+}
+
+export type RecoveryOutcome = 'withdrawn' | 'cancelled' | 'abandoned' | 'pending' | 'failed'
+
+export type RecoveryResult = {
+    id: string
+    outcome: RecoveryOutcome
+    error?: unknown
+}
+
+/**
+ * Finish or unwind every unfinished swap found in the journal.
+ *
+ * Escrows are withdrawn when the secret is known and both escrows were deployed, withdrawing a single one would
+ * reveal the secret with nothing for the resolver to claim on the other chain. Once a withdrawal happened the secret
+ * is public, so the swap is never cancelled afterwards and a failed withdrawal is retried by the next run. Otherwise escrows are cancelled,
+ * but only once every open escrow is in its cancellation phase, until then the swap stays pending. Swaps that
+ * never locked resolver funds are closed as abandoned.
+ */
+export class SwapRecovery {
+    constructor(
+        private readonly ctx: RecoveryContext,
+        private readonly journal: SwapJournal
+    ) {}
+
+    public async recoverAll(): Promise<RecoveryResult[]> {
+        const results: RecoveryResult[] = []
+
+        for (const record of await this.journal.unfinished()) {
+            results.push(await this.recover(record))
+        }
+
+        return results
+    }
+
+    public async recover(record: SwapRecord): Promise<RecoveryResult> {
+        if (!record.evm.escrow && !record.aptos.escrow) {
+            await this.finish(record, 'abandoned')
+
+            return {id: record.id, outcome: 'abandoned'}
+        }
+
+        try {
+            const secret = this.secretOf(record)
+
+            if (isRevealed(record) && secret === undefined) {
+                throw new Error(`secret of swap ${record.id} was revealed but is not in the vault`)
+            }
+
+            if (secret !== undefined && hasBothEscrows(record) && (await this.tryWithdraw(record, secret))) {
+                await this.finish(record, 'withdrawn')
+
+                return {id: record.id, outcome: 'withdrawn'}
+            }
+
+            if (!(await this.isCancellable(record))) {
+                return {id: record.id, outcome: 'pending'}
+            }
+
+            await this.cancel(record)
+            await this.finish(record, 'cancelled')
+
+            return {id: record.id, outcome: 'cancelled'}
+        } catch (error) {
+            console.log(`Error recovering swap ${record.id}: ${error}`)
+
+            return {id: record.id, outcome: 'failed', error}
+        }
+    }
+
+    private secretOf(record: SwapRecord): string | undefined {
+        const {vault} = this.ctx
+
+        return record.secret && vault.has(record.secret.orderHash) ? vault.reveal(record.secret) : undefined
+    }
+
+    /**
+     * Withdraw both escrows, false when the secret is still unrevealed and the swap can be cancelled instead
+     */
+    private async tryWithdraw(record: SwapRecord, secret: string): Promise<boolean> {
+        try {
+            await this.withdraw(record, secret)
+
+            return true
+        } catch (error) {
+            // the withdrawal of the other escrow may have just revealed the secret
+            if (isRevealed(record)) {
+                throw error
+            }
+
+            console.log(`Error withdrawing swap ${record.id}, cancelling once possible: ${error}`)
+
+            return false
+        }
+    }
+
+    private async withdraw(record: SwapRecord, secret: string): Promise<void> {
+        const {evm, aptos} = this.ctx
+
+        const aptosEscrow = aptosEscrowOf(record)
+        const evmEscrow = evmEscrowOf(record)
+
+        if (aptosEscrow && !record.aptos.withdrawTx) {
+            record.aptos.withdrawTx = await aptos.withdraw(aptosEscrow, secret)
+            await this.journal.append(record)
+        }
+
+        if (evmEscrow && !record.evm.withdrawTx) {
+            record.evm.withdrawTx = await evm.withdraw(evmEscrow, secret)
+            await this.journal.append(record)
+        }
+    }
+
+    /**
+     * Whether every escrow still holding funds is in its cancellation phase
+     */
+    private async isCancellable(record: SwapRecord): Promise<boolean> {
+        const {evm, aptos} = this.ctx
+
+        const aptosEscrow = aptosEscrowOf(record)
+        const evmEscrow = evmEscrowOf(record)
+
+        if (aptosEscrow && !record.aptos.cancelTx) {
+            const state = await this.ctx.aptosTimelock(aptosEscrow.address)
+
+            if (!state.isCancellation(await aptos.now())) {
+                return false
+            }
+        }
+
+        if (evmEscrow?.immutables && !record.evm.cancelTx) {
+            const state = TimelockState.fromEvm(evmEscrow.immutables.timeLocks, evmEscrow.side)
+
+            if (!state.isCancellation(await evm.now())) {
+                return false
+            }
+        }
+
+        return true
+    }
+
+    private async cancel(record: SwapRecord): Promise<void> {
+        const {evm, aptos} = this.ctx
+
+        const aptosEscrow = aptosEscrowOf(record)
+        const evmEscrow = evmEscrowOf(record)
+
+        if (aptosEscrow && !record.aptos.cancelTx) {
+            record.aptos.cancelTx = await aptos.cancel(aptosEscrow)
+            await this.journal.append(record)
+        }
+
+        if (evmEscrow && !record.evm.cancelTx) {
+            record.evm.cancelTx = await evm.cancel(evmEscrow)
+            await this.journal.append(record)
+        }
+    }
+
+    private async finish(record: SwapRecord, outcome: RecoveryOutcome): Promise<void> {
+        await this.journal.append({...record, state: `recovered-${outcome}`, finished: true})
+    }
+}
+
+/**
+ * A withdrawal on either chain revealed the secret
+ */
+function isRevealed(record: SwapRecord): boolean {
+    return record.aptos.withdrawTx !== undefined || record.evm.withdrawTx !== undefined
+}
+
+function hasBothEscrows(record: SwapRecord): boolean {
+    return evmEscrowOf(record) !== undefined && aptosEscrowOf(record) !== undefined
+}
+
+function evmEscrowOf(record: SwapRecord): EscrowHandle | undefined {
+    const {escrow, immutables, side, deployTx} = record.evm
+
+    if (!escrow || !immutables) {
+        return undefined
+    }
+
+    return {chain: 'evm', side, address: escrow, txHash: deployTx ?? '', immutables: deserializeImmutables(immutables)}
+}
+
+function aptosEscrowOf(record: SwapRecord): EscrowHandle | undefined {
+    const {escrow, deployTx} = record.aptos
+
+    if (!escrow) {
+        return undefined
+    }
+
+    // the Aptos leg is always on the other side of the EVM one
+    return {chain: 'aptos', side: record.evm.side === 'src' ? 'dst' : 'src', address: escrow, txHash: deployTx ?? ''}
+}
@@ -0,0 +1,80 @@
+export type SwapHook<T> = (swap: T) => Promise<void> | void
+
+export type SwapHooks<S extends string, T> = Partial<Record<S, SwapHook<T>>>
+
+export type TransitionListener<S extends string> = (state: S) => Promise<void> | void
+
+export type AptosTx<T extends string> = {txHash: string} & Record<T, string>
+
+/**
+ * Minimal state machine shared by the swap orchestrators.
+ *
+ * Subclasses implement `transition`, which performs the work for the current state and returns the next one.
+ * After every transition the hook registered for the new state (if any) is awaited, so callers can wait for
+ * timelocks, inspect intermediate results or stop the flow between steps.
+ */
+export abstract class SwapStateMachine<S extends string, T> {
+    private readonly listeners: TransitionListener<S>[] = []
+
+    protected constructor(
+        private current: S,
+        private readonly terminal: readonly S[],
+        private readonly hooks: SwapHooks<S, T> = {}
+    ) {}
+
+    public get state(): S {
+        return this.current
+    }
+
+    public get isFinished(): boolean {
+        return this.terminal.includes(this.current)
+    }
+
+    /**
+     * Listeners run on every transition, before the hook of the new state
+     */
+    public onTransition(listener: TransitionListener<S>): void {
+        this.listeners.push(listener)
+    }
+
+    public async step(): Promise<S> {
+        if (this.isFinished) {
+            throw new Error(`swap already finished in state ${this.current}`)
+        }
+
+        return this.moveTo(await this.transition())
+    }
+
+    /**
+     * Run transitions until a terminal state, or until `until` is reached
+     */
+    public async run(until?: S): Promise<S> {
+        while (!this.isFinished && this.current !== until) {
+            await this.step()
+        }
+
+        return this.current
+    }
+
+    protected async moveTo(next: S): Promise<S> {
+        this.current = next
+
+        for (const listener of this.listeners) {
+            await listener(next)
+        }
+
+        await this.hooks[next]?.(this as unknown as T)
+
+        return next
+    }
+
+    protected require<V>(value: V | undefined, name: string): V {
+        if (value === undefined) {
+            throw new Error(`${name} is not available in state ${this.current}`)
+        }
+
+        return value
+    }
+
+    protected abstract transition(): Promise<S>
+}
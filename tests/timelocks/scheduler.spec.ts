@@ -0,0 +1,276 @@
+import {expect} from '@jest/globals'
+import Sdk from '@1inch/cross-chain-sdk'
+import {appendFile, mkdtemp} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+
+import {ActionStore, SchedulerContext, TimelockScheduler} from './scheduler'
+import {TimelockState} from './state'
+import {ChainAdapter, ChainKind, EscrowHandle} from '../chains/adapter'
+import {EscrowRef, SecretVault} from '../secrets/vault'
+
+const CREATED_AT = 1_000n
+
+// withdrawals from 10s, public ones from 20s, cancellations from 30s and public ones from 40s after the creation
+const EXCLUSIVE = CREATED_AT + 10n
+const PUBLIC_WITHDRAWAL = CREATED_AT + 20n
+const CANCELLATION = CREATED_AT + 30n
+const PUBLIC_CANCELLATION = CREATED_AT + 40n
+
+const STATE = TimelockState.fromAptosDurations(CREATED_AT, {
+    finality: 10n,
+    exclusive: 10n,
+    publicWithdrawal: 10n,
+    privateCancellation: 10n
+})
+
+/**
+ * Adapter recording the calls of the scheduler, the kinds in `failing` revert
+ */
+class FakeAdapter implements ChainAdapter {
+    public readonly calls: string[] = []
+
+    public readonly failing = new Set<string>()
+
+    public time = CREATED_AT
+
+    constructor(public readonly kind: ChainKind) {}
+
+    public async createEscrow(): Promise<EscrowHandle> {
+        throw new Error('not used by the scheduler')
+    }
+
+    public async withdraw(escrow: EscrowHandle, secret: string): Promise<string> {
+        return this.call('withdraw', secret)
+    }
+
+    public async cancel(): Promise<string> {
+        return this.call('cancel')
+    }
+
+    public async publicWithdraw(escrow: EscrowHandle, secret: string): Promise<string> {
+        return this.call('public-withdraw', secret)
+    }
+
+    public async publicCancel(): Promise<string> {
+        return this.call('public-cancel')
+    }
+
+    public async getBalance(): Promise<bigint> {
+        return 0n
+    }
+
+    public async now(): Promise<bigint> {
+        return this.time
+    }
+
+    public async waitForFinality(): Promise<void> {}
+
+    private call(kind: string, secret?: string): string {
+        this.calls.push(secret === undefined ? kind : `${kind} ${secret}`)
+
+        if (this.failing.has(kind)) {
+            throw new Error(`${kind} reverted`)
+        }
+
+        return `${kind}-tx`
+    }
+}
+
+describe('TimelockScheduler', () => {
+    const orderHash = '0x' + '11'.repeat(32)
+    const escrow: EscrowHandle = {chain: 'aptos', side: 'dst', address: '0xescrow', txHash: '0xdeploy'}
+
+    let dir: string
+    let vault: SecretVault
+    let ref: EscrowRef
+    let evm: FakeAdapter
+    let aptos: FakeAdapter
+    let ctx: SchedulerContext
+    let scheduler: TimelockScheduler
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'scheduler-spec-'))
+        vault = await SecretVault.open(join(dir, 'vault'), 'passphrase')
+
+        const set = await vault.generate()
+        await vault.bindOrder(set.id, orderHash)
+        ref = {orderHash, index: 0, hashLock: set.hashes[0]}
+
+        evm = new FakeAdapter('evm')
+        aptos = new FakeAdapter('aptos')
+        ctx = {evm, aptos, vault}
+        scheduler = new TimelockScheduler(ctx, new ActionStore(join(dir, 'actions')), {maxAttempts: 2, retryDelay: 5n})
+    })
+
+    async function restore(): Promise<TimelockScheduler> {
+        return TimelockScheduler.restore(ctx, new ActionStore(join(dir, 'actions')), {maxAttempts: 2, retryDelay: 5n})
+    }
+
+    it('should withdraw with the vault secret once the withdrawal phase starts', async () => {
+        await scheduler.register(escrow, STATE, ref)
+
+        expect(await scheduler.tick()).toEqual([])
+
+        aptos.time = EXCLUSIVE
+
+        expect(await scheduler.tick()).toEqual([expect.objectContaining({status: 'done', txHash: 'withdraw-tx'})])
+        expect(aptos.calls).toEqual([`withdraw ${vault.reveal(ref)}`])
+        expect(scheduler.pending).toEqual([])
+    })
+
+    it('should cancel an escrow registered without a secret once the cancellation phase starts', async () => {
+        await scheduler.register(escrow, STATE)
+
+        aptos.time = CANCELLATION - 1n
+        await scheduler.tick()
+        aptos.time = CANCELLATION
+        await scheduler.tick()
+
+        expect(aptos.calls).toEqual(['cancel'])
+    })
+
+    it('should pick pending actions up after a restart', async () => {
+        await scheduler.register(escrow, STATE, ref)
+
+        const restored = await restore()
+        aptos.time = EXCLUSIVE
+        await restored.tick()
+
+        expect(aptos.calls).toEqual([`withdraw ${vault.reveal(ref)}`])
+        expect((await restore()).get(escrow)).toMatchObject({status: 'done', txHash: 'withdraw-tx'})
+    })
+
+    it('should keep a secret revealed on chain across a restart', async () => {
+        await scheduler.register(escrow, STATE, {revealed: '0xrevealed'})
+
+        const restored = await restore()
+        aptos.time = EXCLUSIVE
+        await restored.tick()
+
+        expect(aptos.calls).toEqual(['withdraw 0xrevealed'])
+        expect(restored.get(escrow)).toMatchObject({status: 'done', secret: {revealed: '0xrevealed'}})
+    })
+
+    it('should ignore a torn last line of the store', async () => {
+        await scheduler.register(escrow, STATE, ref)
+        await appendFile(join(dir, 'actions', 'actions.jsonl'), '{"at": 1, "action": {"esc')
+
+        expect((await restore()).pending).toEqual([expect.objectContaining({kind: 'withdraw'})])
+    })
+
+    it('should retry a failed action after the retry delay', async () => {
+        await scheduler.register(escrow, STATE, ref)
+        aptos.failing.add('withdraw')
+        aptos.time = EXCLUSIVE
+
+        expect(await scheduler.tick()).toEqual([
+            expect.objectContaining({
+                status: 'pending',
+                attempts: 1,
+                notBefore: (EXCLUSIVE + 5n).toString(),
+                lastError: 'Error: withdraw reverted'
+            })
+        ])
+        expect(await scheduler.tick()).toEqual([])
+
+        aptos.failing.clear()
+        aptos.time = EXCLUSIVE + 5n
+        await scheduler.tick()
+
+        expect(aptos.calls).toHaveLength(2)
+        expect(scheduler.get(escrow)).toMatchObject({status: 'done', attempts: 2})
+    })
+
+    it('should escalate a withdrawal failing too often to a public withdrawal', async () => {
+        await scheduler.register(escrow, STATE, ref)
+        aptos.failing.add('withdraw')
+
+        aptos.time = EXCLUSIVE
+        await scheduler.tick()
+        aptos.time = EXCLUSIVE + 5n
+        await scheduler.tick()
+
+        // the public withdrawal waits for its phase
+        expect(scheduler.get(escrow)).toMatchObject({
+            kind: 'public-withdraw',
+            attempts: 0,
+            notBefore: PUBLIC_WITHDRAWAL.toString()
+        })
+
+        aptos.time = PUBLIC_WITHDRAWAL
+        await scheduler.tick()
+
+        expect(aptos.calls.at(-1)).toBe(`public-withdraw ${vault.reveal(ref)}`)
+    })
+
+    it('should cancel once the withdrawal window was missed, then cancel publicly', async () => {
+        await scheduler.register(escrow, STATE, ref)
+        aptos.failing.add('cancel')
+
+        aptos.time = CANCELLATION
+        await scheduler.tick()
+
+        expect(scheduler.get(escrow)).toMatchObject({kind: 'cancel', notBefore: CANCELLATION.toString()})
+
+        await scheduler.tick()
+        aptos.time = CANCELLATION + 5n
+        await scheduler.tick()
+
+        expect(scheduler.get(escrow)).toMatchObject({kind: 'public-cancel', notBefore: PUBLIC_CANCELLATION.toString()})
+
+        aptos.time = PUBLIC_CANCELLATION
+        await scheduler.tick()
+
+        expect(aptos.calls).toEqual(['cancel', 'cancel', 'public-cancel'])
+        expect(scheduler.get(escrow)?.status).toBe('done')
+    })
+
+    it('should give up on a destination escrow which has no public cancellation', async () => {
+        const dst: EscrowHandle = {chain: 'evm', side: 'dst', address: '0xdst', txHash: '0xdeploy'}
+        const state = TimelockState.fromEvm(
+            Sdk.TimeLocks.new({
+                srcWithdrawal: 10n,
+                srcPublicWithdrawal: 20n,
+                srcCancellation: 40n,
+                srcPublicCancellation: 50n,
+                dstWithdrawal: 10n,
+                dstPublicWithdrawal: 20n,
+                dstCancellation: 30n
+            }),
+            'dst',
+            CREATED_AT
+        )
+
+        await scheduler.register(dst, state)
+        evm.failing.add('cancel')
+        evm.time = CANCELLATION
+        await scheduler.tick()
+        evm.time = CANCELLATION + 5n
+        await scheduler.tick()
+
+        expect(scheduler.get(dst)).toMatchObject({status: 'failed', kind: 'cancel'})
+        expect(scheduler.pending).toEqual([])
+    })
+
+    it('should switch a pending cancellation to a withdrawal once the secret is revealed', async () => {
+        await scheduler.register(escrow, STATE)
+        await scheduler.provideSecret(escrow, {revealed: '0xrevealed'})
+
+        expect(scheduler.get(escrow)).toMatchObject({kind: 'withdraw', notBefore: EXCLUSIVE.toString()})
+
+        aptos.time = EXCLUSIVE
+        await (await restore()).tick()
+
+        expect(aptos.calls).toEqual(['withdraw 0xrevealed'])
+    })
+
+    it('should keep cancelling when the secret comes after the withdrawal window', async () => {
+        await scheduler.register(escrow, STATE)
+
+        aptos.time = CANCELLATION
+        await scheduler.provideSecret(escrow, {revealed: '0xrevealed'})
+
+        expect(scheduler.get(escrow)).toMatchObject({kind: 'cancel'})
+    })
+})
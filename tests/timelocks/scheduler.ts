@@ -0,0 +1,418 @@
+import {mkdir, open, readFile} from 'node:fs/promises'
+import {join} from 'node:path'
+import {TimelockPhase, TimelockState} from './state'
+import {ChainAdapter, ChainKind, EscrowHandle, EscrowSide} from '../chains/adapter'
+import {EscrowRef, SecretVault} from '../secrets/vault'
+import {deserializeImmutables, SerializedImmutables, serializeImmutables} from '../swap/journal'
+
+export type ActionKind = 'withdraw' | 'public-withdraw' | 'cancel' | 'public-cancel'
+
+export type ActionStatus = 'pending' | 'done' | 'failed'
+
+/**
+ * Phase starts of the escrow on its own chain, in seconds. Stored with the action so escalation
+ * still works after a restart.
+ */
+export type ActionPhases = {
+    exclusiveWithdrawal: string
+    publicWithdrawal: string
+    privateCancellation: string
+    publicCancellation?: string
+}
+
+/**
+ * Secret of a withdrawal, a vault reference for the orders of the maker or the secret itself once a withdrawal
+ * revealed it on chain
+ */
+export type ActionSecret = EscrowRef | {revealed: string}
+
+/**
+ * Action as persisted, bigints are kept as strings
+ */
+export type ScheduledAction = {
+    escrow: {
+        chain: ChainKind
+        side: EscrowSide
+        address: string
+        txHash: string
+        immutables?: SerializedImmutables
+    }
+    kind: ActionKind
+    status: ActionStatus
+    phases: ActionPhases
+    /**
+     * Secret the escrow locks, persisted as a vault reference unless it is already public on chain
+     */
+    secret?: ActionSecret
+    /**
+     * Earliest chain time to (re)try at
+     */
+    notBefore: string
+    attempts: number
+    txHash?: string
+    lastError?: string
+}
+
+export type SchedulerContext = {
+    evm: ChainAdapter
+    aptos: ChainAdapter
+    /**
+     * Secrets of the scheduled withdrawals, looked up by the reference in the action
+     */
+    vault: SecretVault
+}
+
+export type SchedulerOptions = {
+    /**
+     * Failed attempts of an action before it is escalated, 3 by default
+     */
+    maxAttempts?: number
+    /**
+     * Seconds to wait before retrying a failed action, 5 by default
+     */
+    retryDelay?: bigint
+}
+
+type StoreEntry = {
+    at: number
+    action: ScheduledAction
+}
+
+/**
+ * Append-only store of scheduled actions, the last line of an escrow wins
+ */
+export class ActionStore {
+    constructor(private readonly dir: string) {}
+
+    private get file(): string {
+        return join(this.dir, 'actions.jsonl')
+    }
+
+    public async save(action: ScheduledAction): Promise<void> {
+        await mkdir(this.dir, {recursive: true})
+
+        const entry: StoreEntry = {at: Date.now(), action}
+        const file = await open(this.file, 'a')
+
+        try {
+            await file.appendFile(JSON.stringify(entry) + '\n')
+            await file.sync()
+        } finally {
+            await file.close()
+        }
+    }
+
+    /**
+     * Latest action of every escrow
+     */
+    public async load(): Promise<ScheduledAction[]> {
+        const content = await readFile(this.file, 'utf8').catch(() => '')
+        const actions = new Map<string, ScheduledAction>()
+
+        for (const line of content.split('\n').filter((l) => l.trim() !== '')) {
+            try {
+                const {action} = JSON.parse(line) as StoreEntry
+                actions.set(keyOf(action.escrow), action)
+            } catch {
+                // last line can be torn if the process died while writing it
+            }
+        }
+
+        return [...actions.values()]
+    }
+}
+
+/**
+ * Fires withdrawals and cancellations of escrows on both chains at the earliest moment their timelocks allow.
+ *
+ * Every escrow has one action at a time. It is retried after `retryDelay` when it fails, and escalated once it
+ * failed `maxAttempts` times or its window closed: a withdrawal becomes a public withdrawal, then a cancellation,
+ * a cancellation becomes a public cancellation. Every change is persisted before the next step, `restore` picks
+ * pending actions up after a restart.
+ */
+export class TimelockScheduler {
+    private readonly actions = new Map<string, ScheduledAction>()
+
+    private readonly maxAttempts: number
+
+    private readonly retryDelay: bigint
+
+    constructor(
+        private readonly ctx: SchedulerContext,
+        private readonly store: ActionStore,
+        options: SchedulerOptions = {}
+    ) {
+        this.maxAttempts = options.maxAttempts ?? 3
+        this.retryDelay = options.retryDelay ?? 5n
+    }
+
+    get pending(): ScheduledAction[] {
+        return [...this.actions.values()].filter((a) => a.status === 'pending')
+    }
+
+    public static async restore(
+        ctx: SchedulerContext,
+        store: ActionStore,
+        options: SchedulerOptions = {}
+    ): Promise<TimelockScheduler> {
+        const scheduler = new TimelockScheduler(ctx, store, options)
+
+        for (const action of await store.load()) {
+            scheduler.actions.set(keyOf(action.escrow), action)
+        }
+
+        return scheduler
+    }
+
+    public get(escrow: Pick<EscrowHandle, 'chain' | 'address'>): ScheduledAction | undefined {
+        return this.actions.get(keyOf(escrow))
+    }
+
+    /**
+     * Schedule the withdrawal of the escrow when the secret is known, its cancellation otherwise
+     */
+    public async register(escrow: EscrowHandle, state: TimelockState, secret?: ActionSecret): Promise<ScheduledAction> {
+        const phases: ActionPhases = {
+            exclusiveWithdrawal: phaseStart(state, TimelockPhase.ExclusiveWithdrawal).toString(),
+            publicWithdrawal: phaseStart(state, TimelockPhase.PublicWithdrawal).toString(),
+            privateCancellation: phaseStart(state, TimelockPhase.PrivateCancellation).toString(),
+            publicCancellation: state.phaseStart(TimelockPhase.PublicCancellation)?.toString()
+        }
+        const kind: ActionKind = secret === undefined ? 'cancel' : 'withdraw'
+        const action: ScheduledAction = {
+            escrow: {
+                chain: escrow.chain,
+                side: escrow.side,
+                address: escrow.address,
+                txHash: escrow.txHash,
+                immutables: escrow.immutables && serializeImmutables(escrow.immutables)
+            },
+            kind,
+            status: 'pending',
+            phases,
+            secret,
+            notBefore: windowOf(kind, phases).start.toString(),
+            attempts: 0
+        }
+
+        await this.save(action)
+
+        return action
+    }
+
+    /**
+     * Switch a pending cancellation to a withdrawal once the secret is known and withdrawing is still possible
+     */
+    public async provideSecret(escrow: Pick<EscrowHandle, 'chain' | 'address'>, secret: ActionSecret): Promise<void> {
+        const action = this.get(escrow)
+
+        if (!action || action.status !== 'pending' || action.kind !== 'cancel') {
+            return
+        }
+
+        const now = await this.ctx[action.escrow.chain].now()
+
+        if (now >= BigInt(action.phases.privateCancellation)) {
+            return
+        }
+
+        await this.save({
+            ...action,
+            kind: 'withdraw',
+            secret,
+            attempts: 0,
+            notBefore: action.phases.exclusiveWithdrawal
+        })
+    }
+
+    /**
+     * Fire every action that is due, returns the ones executed in this tick
+     */
+    public async tick(): Promise<ScheduledAction[]> {
+        const executed: ScheduledAction[] = []
+
+        if (this.pending.length === 0) {
+            return executed
+        }
+
+        const now = {evm: await this.ctx.evm.now(), aptos: await this.ctx.aptos.now()}
+
+        for (const action of this.pending) {
+            const time = now[action.escrow.chain]
+
+            if (time < BigInt(action.notBefore)) {
+                continue
+            }
+
+            const {end} = windowOf(action.kind, action.phases)
+
+            if (end !== undefined && time >= end) {
+                await this.escalate(action, `missed the ${action.kind} window ending at ${end}`, time)
+                continue
+            }
+
+            executed.push(await this.execute(action, time))
+        }
+
+        return executed
+    }
+
+    /**
+     * Tick until no action is pending, or until the timeout
+     */
+    public async run(pollIntervalMs = 1000, timeoutMs = 10 * 60 * 1000): Promise<void> {
+        const deadline = Date.now() + timeoutMs
+
+        while (this.pending.length > 0) {
+            if (Date.now() >= deadline) {
+                throw new Error(`${this.pending.length} actions still pending after ${timeoutMs}ms`)
+            }
+
+            await this.tick()
+            await new Promise((resolve) => setTimeout(resolve, pollIntervalMs))
+        }
+    }
+
+    private async execute(action: ScheduledAction, time: bigint): Promise<ScheduledAction> {
+        const adapter = this.ctx[action.escrow.chain]
+        const escrow = escrowOf(action)
+
+        try {
+            const txHash = await this.perform(adapter, escrow, action)
+            const done: ScheduledAction = {...action, status: 'done', txHash, attempts: action.attempts + 1}
+
+            console.log(`[${action.escrow.chain}]`, `${action.kind} of escrow ${escrow.address} in tx ${txHash}`)
+            await this.save(done)
+
+            return done
+        } catch (error) {
+            const failed: ScheduledAction = {
+                ...action,
+                attempts: action.attempts + 1,
+                lastError: String(error),
+                notBefore: (time + this.retryDelay).toString()
+            }
+
+            if (failed.attempts >= this.maxAttempts) {
+                return this.escalate(failed, `${failed.attempts} failed attempts, last: ${error}`, time)
+            }
+
+            await this.save(failed)
+
+            return failed
+        }
+    }
+
+    private perform(adapter: ChainAdapter, escrow: EscrowHandle, action: ScheduledAction): Promise<string> {
+        switch (action.kind) {
+            case 'withdraw':
+                return adapter.withdraw(escrow, this.secretOf(action))
+            case 'public-withdraw':
+                return adapter.publicWithdraw(escrow, this.secretOf(action))
+            case 'cancel':
+                return adapter.cancel(escrow)
+            case 'public-cancel':
+                return adapter.publicCancel(escrow)
+        }
+    }
+
+    private secretOf(action: ScheduledAction): string {
+        const {secret} = action
+
+        if (secret === undefined) {
+            throw new Error(`secret of escrow ${action.escrow.address} is unknown`)
+        }
+
+        return 'revealed' in secret ? secret.revealed : this.ctx.vault.reveal(secret)
+    }
+
+    private async escalate(action: ScheduledAction, reason: string, time: bigint): Promise<ScheduledAction> {
+        const next = escalationOf(action, time)
+
+        console.log(
+            `[${action.escrow.chain}]`,
+            `${action.kind} of escrow ${action.escrow.address}: ${reason}, ${next ? `escalating to ${next}` : 'giving up'}`
+        )
+
+        const escalated: ScheduledAction = next
+            ? {
+                  ...action,
+                  kind: next,
+                  attempts: 0,
+                  notBefore: maxOf(windowOf(next, action.phases).start, time).toString(),
+                  lastError: reason
+              }
+            : {...action, status: 'failed', lastError: reason}
+
+        await this.save(escalated)
+
+        return escalated
+    }
+
+    private async save(action: ScheduledAction): Promise<void> {
+        await this.store.save(action)
+        this.actions.set(keyOf(action.escrow), action)
+    }
+}
+
+/**
+ * Chain time window an action can succeed in, the end is exclusive
+ */
+function windowOf(kind: ActionKind, phases: ActionPhases): {start: bigint; end?: bigint} {
+    const cancellation = BigInt(phases.privateCancellation)
+
+    switch (kind) {
+        case 'withdraw':
+            return {start: BigInt(phases.exclusiveWithdrawal), end: cancellation}
+        case 'public-withdraw':
+            return {start: BigInt(phases.publicWithdrawal), end: cancellation}
+        case 'cancel':
+            return {start: cancellation}
+        case 'public-cancel':
+            if (phases.publicCancellation === undefined) {
+                throw new Error('escrow has no public cancellation')
+            }
+
+            return {start: BigInt(phases.publicCancellation)}
+    }
+}
+
+function escalationOf(action: ScheduledAction, time: bigint): ActionKind | undefined {
+    const {phases} = action
+    const withdrawable = time < BigInt(phases.privateCancellation)
+
+    switch (action.kind) {
+        case 'withdraw':
+            return withdrawable ? 'public-withdraw' : 'cancel'
+        case 'public-withdraw':
+            return 'cancel'
+        case 'cancel':
+            return phases.publicCancellation === undefined ? undefined : 'public-cancel'
+        case 'public-cancel':
+            return undefined
+    }
+}
+
+function phaseStart(state: TimelockState, phase: TimelockPhase): bigint {
+    const start = state.phaseStart(phase)
+
+    if (start === undefined) {
+        throw new Error(`timelock has no ${phase} phase`)
+    }
+
+    return start
+}
+
+function escrowOf(action: ScheduledAction): EscrowHandle {
+    const {immutables, ...escrow} = action.escrow
+
+    return {...escrow, immutables: immutables && deserializeImmutables(immutables)}
+}
+
+function keyOf(escrow: Pick<EscrowHandle, 'chain' | 'address'>): string {
+    return `${escrow.chain}:${escrow.address.toLowerCase()}`
+}
+
+function maxOf(a: bigint, b: bigint): bigint {
+    return a > b ? a : b
+}
@@ -0,0 +1,130 @@
+import {expect} from '@jest/globals'
+import Sdk from '@1inch/cross-chain-sdk'
+
+import {TimelockPhase, TimelockState} from './state'
+import {TimelockHelper} from '../aptos/helpers/timelock'
+import {MoveTimelock} from '../aptos/models'
+
+const CREATED_AT = 1_000n
+
+const TIMELOCKS = {
+    srcWithdrawal: 10n,
+    srcPublicWithdrawal: 20n,
+    srcCancellation: 30n,
+    srcPublicCancellation: 40n,
+    dstWithdrawal: 5n,
+    dstPublicWithdrawal: 15n,
+    dstCancellation: 25n
+}
+
+describe('TimelockState', () => {
+    // phases start 10s, 30s, 60s and 100s after the creation
+    const state = TimelockState.fromAptosDurations(CREATED_AT, {
+        finality: 10n,
+        exclusive: 20n,
+        publicWithdrawal: 30n,
+        privateCancellation: 40n
+    })
+
+    it('should find the phase of an Aptos timelock at any time', () => {
+        expect(state.phaseAt(0n)).toBe(TimelockPhase.Finality)
+        expect(state.phaseAt(CREATED_AT + 9n)).toBe(TimelockPhase.Finality)
+        expect(state.phaseAt(CREATED_AT + 29n)).toBe(TimelockPhase.ExclusiveWithdrawal)
+        expect(state.phaseAt(CREATED_AT + 59n)).toBe(TimelockPhase.PublicWithdrawal)
+        expect(state.phaseAt(CREATED_AT + 99n)).toBe(TimelockPhase.PrivateCancellation)
+        expect(state.phaseAt(CREATED_AT + 10_000n)).toBe(TimelockPhase.PublicCancellation)
+    })
+
+    it('should start every phase at its boundary inclusive', () => {
+        expect(state.phaseAt(CREATED_AT + 10n)).toBe(TimelockPhase.ExclusiveWithdrawal)
+        expect(state.phaseAt(CREATED_AT + 30n)).toBe(TimelockPhase.PublicWithdrawal)
+        expect(state.phaseAt(CREATED_AT + 60n)).toBe(TimelockPhase.PrivateCancellation)
+        expect(state.phaseAt(CREATED_AT + 100n)).toBe(TimelockPhase.PublicCancellation)
+
+        expect(state.isWithdrawal(CREATED_AT + 9n)).toBe(false)
+        expect(state.isWithdrawal(CREATED_AT + 10n)).toBe(true)
+        expect(state.isWithdrawal(CREATED_AT + 60n)).toBe(false)
+        expect(state.isCancellation(CREATED_AT + 59n)).toBe(false)
+        expect(state.isCancellation(CREATED_AT + 60n)).toBe(true)
+    })
+
+    it('should give the next boundary and the time left until it', () => {
+        expect(state.nextBoundary(CREATED_AT)).toEqual({
+            phase: TimelockPhase.ExclusiveWithdrawal,
+            time: CREATED_AT + 10n
+        })
+        // a boundary already reached is not the next one
+        expect(state.nextBoundary(CREATED_AT + 10n)).toEqual({
+            phase: TimelockPhase.PublicWithdrawal,
+            time: CREATED_AT + 30n
+        })
+        expect(state.remainingTime(CREATED_AT + 10n)).toBe(20n)
+        expect(state.remainingTime(CREATED_AT + 99n)).toBe(1n)
+    })
+
+    it('should not end the last phase', () => {
+        expect(state.nextBoundary(CREATED_AT + 100n)).toBeUndefined()
+        expect(state.remainingTime(CREATED_AT + 100n)).toBeUndefined()
+    })
+
+    it('should give the start of every phase', () => {
+        expect(state.phaseStart(TimelockPhase.Finality)).toBe(CREATED_AT)
+        expect(state.phaseStart(TimelockPhase.ExclusiveWithdrawal)).toBe(CREATED_AT + 10n)
+        expect(state.phaseStart(TimelockPhase.PublicWithdrawal)).toBe(CREATED_AT + 30n)
+        expect(state.phaseStart(TimelockPhase.PrivateCancellation)).toBe(CREATED_AT + 60n)
+        expect(state.phaseStart(TimelockPhase.PublicCancellation)).toBe(CREATED_AT + 100n)
+    })
+
+    it('should read the Aptos timelock with its helper', async () => {
+        const helper = {
+            getTimelock: async () => ({
+                createdAt: CREATED_AT,
+                durations: {finality: 10n, exclusive: 20n, publicWithdrawal: 30n, privateCancellation: 40n}
+            })
+        } as unknown as TimelockHelper
+
+        const read = await TimelockState.fromAptos(helper, {} as MoveTimelock)
+
+        expect(read.createdAt).toBe(CREATED_AT)
+        expect(read.phaseStart(TimelockPhase.PublicCancellation)).toBe(CREATED_AT + 100n)
+    })
+
+    describe('on EVM', () => {
+        // `setDeployedAt` changes the timelocks in place
+        let timeLocks: Sdk.TimeLocks
+
+        beforeEach(() => {
+            timeLocks = Sdk.TimeLocks.new(TIMELOCKS)
+        })
+
+        it('should measure the source stages from the deployment', () => {
+            const src = TimelockState.fromEvm(timeLocks, 'src', CREATED_AT)
+
+            expect(src.phaseStart(TimelockPhase.ExclusiveWithdrawal)).toBe(CREATED_AT + 10n)
+            expect(src.phaseStart(TimelockPhase.PublicWithdrawal)).toBe(CREATED_AT + 20n)
+            expect(src.phaseStart(TimelockPhase.PrivateCancellation)).toBe(CREATED_AT + 30n)
+            expect(src.phaseStart(TimelockPhase.PublicCancellation)).toBe(CREATED_AT + 40n)
+            expect(src.phaseAt(CREATED_AT + 40n)).toBe(TimelockPhase.PublicCancellation)
+        })
+
+        it('should not give a destination escrow a public cancellation', () => {
+            const dst = TimelockState.fromEvm(timeLocks, 'dst', CREATED_AT)
+
+            expect(dst.phaseStart(TimelockPhase.PrivateCancellation)).toBe(CREATED_AT + 25n)
+            expect(dst.phaseStart(TimelockPhase.PublicCancellation)).toBeUndefined()
+            expect(dst.phaseAt(CREATED_AT + 10_000n)).toBe(TimelockPhase.PrivateCancellation)
+            expect(dst.nextBoundary(CREATED_AT + 25n)).toBeUndefined()
+        })
+
+        it('should use the deployment time packed in the timelocks', () => {
+            const src = TimelockState.fromEvm(timeLocks.setDeployedAt(CREATED_AT), 'src')
+
+            expect(src.createdAt).toBe(CREATED_AT)
+            expect(src.phaseStart(TimelockPhase.ExclusiveWithdrawal)).toBe(CREATED_AT + 10n)
+        })
+
+        it('should refuse timelocks without a deployment time', () => {
+            expect(() => TimelockState.fromEvm(timeLocks, 'src')).toThrow('deployedAt of the escrow is unknown')
+        })
+    })
+})
@@ -0,0 +1,140 @@
+import Sdk from '@1inch/cross-chain-sdk'
+import {AptosDurations, assertTimelockOrder, timelockDeployedAt, timelockStages} from './translator'
+import {TimelockHelper} from '../aptos/helpers/timelock'
+import {MoveTimelock} from '../aptos/models'
+
+export enum TimelockPhase {
+    Finality = 'finality',
+    ExclusiveWithdrawal = 'exclusive-withdrawal',
+    PublicWithdrawal = 'public-withdrawal',
+    PrivateCancellation = 'private-cancellation',
+    PublicCancellation = 'public-cancellation'
+}
+
+export type PhaseBoundary = {
+    phase: TimelockPhase
+    /**
+     * Timestamp the phase starts at, in seconds
+     */
+    time: bigint
+}
+
+/**
+ * Phases of an escrow timelock computed locally from its durations and creation time, so answering
+ * which phase an escrow is in at a given time costs no view call.
+ *
+ * A phase starts at its boundary inclusive, like `TimelocksLib` on EVM. The last phase never ends.
+ */
+export class TimelockState {
+    private constructor(
+        /**
+         * Creation time of the Aptos timelock or deployment time of the EVM escrow
+         */
+        public readonly createdAt: bigint,
+        private readonly boundaries: PhaseBoundary[]
+    ) {}
+
+    public static fromAptosDurations(createdAt: bigint, durations: AptosDurations): TimelockState {
+        const exclusive = createdAt + durations.finality
+        const publicWithdrawal = exclusive + durations.exclusive
+        const privateCancellation = publicWithdrawal + durations.publicWithdrawal
+        const publicCancellation = privateCancellation + durations.privateCancellation
+
+        return new TimelockState(createdAt, [
+            {phase: TimelockPhase.ExclusiveWithdrawal, time: exclusive},
+            {phase: TimelockPhase.PublicWithdrawal, time: publicWithdrawal},
+            {phase: TimelockPhase.PrivateCancellation, time: privateCancellation},
+            {phase: TimelockPhase.PublicCancellation, time: publicCancellation}
+        ])
+    }
+
+    /**
+     * State of an Aptos timelock, read with one `get_durations` and one `get_created_at` call
+     */
+    public static async fromAptos(helper: TimelockHelper, timelock: MoveTimelock): Promise<TimelockState> {
+        const {createdAt, durations} = await helper.getTimelock(timelock)
+
+        return TimelockState.fromAptosDurations(createdAt, durations)
+    }
+
+    /**
+     * State of an EVM escrow, `deployedAt` defaults to the one packed in the timelocks.
+     * A destination escrow has no public cancellation.
+     */
+    public static fromEvm(timeLocks: Sdk.TimeLocks, side: 'src' | 'dst', deployedAt?: bigint): TimelockState {
+        const stages = timelockStages(timeLocks)
+        const start = deployedAt ?? timelockDeployedAt(timeLocks)
+
+        if (start === 0n) {
+            throw new Error('deployedAt of the escrow is unknown')
+        }
+
+        assertTimelockOrder(stages)
+
+        if (side === 'src') {
+            return new TimelockState(start, [
+                {phase: TimelockPhase.ExclusiveWithdrawal, time: start + stages.srcWithdrawal},
+                {phase: TimelockPhase.PublicWithdrawal, time: start + stages.srcPublicWithdrawal},
+                {phase: TimelockPhase.PrivateCancellation, time: start + stages.srcCancellation},
+                {phase: TimelockPhase.PublicCancellation, time: start + stages.srcPublicCancellation}
+            ])
+        }
+
+        return new TimelockState(start, [
+            {phase: TimelockPhase.ExclusiveWithdrawal, time: start + stages.dstWithdrawal},
+            {phase: TimelockPhase.PublicWithdrawal, time: start + stages.dstPublicWithdrawal},
+            {phase: TimelockPhase.PrivateCancellation, time: start + stages.dstCancellation}
+        ])
+    }
+
+    public phaseAt(time: bigint): TimelockPhase {
+        let phase = TimelockPhase.Finality
+
+        for (const boundary of this.boundaries) {
+            if (time < boundary.time) {
+                break
+            }
+
+            phase = boundary.phase
+        }
+
+        return phase
+    }
+
+    /**
+     * Start of the phase following the one at `time`, undefined in the last phase
+     */
+    public nextBoundary(time: bigint): PhaseBoundary | undefined {
+        return this.boundaries.find((boundary) => boundary.time > time)
+    }
+
+    /**
+     * Seconds left in the phase at `time`, undefined in the last phase
+     */
+    public remainingTime(time: bigint): bigint | undefined {
+        const next = this.nextBoundary(time)
+
+        return next && next.time - time
+    }
+
+    /**
+     * Start of the phase, undefined when the escrow does not have it
+     */
+    public phaseStart(phase: TimelockPhase): bigint | undefined {
+        return phase === TimelockPhase.Finality
+            ? this.createdAt
+            : this.boundaries.find((boundary) => boundary.phase === phase)?.time
+    }
+
+    public isWithdrawal(time: bigint): boolean {
+        const phase = this.phaseAt(time)
+
+        return phase === TimelockPhase.ExclusiveWithdrawal || phase === TimelockPhase.PublicWithdrawal
+    }
+
+    public isCancellation(time: bigint): boolean {
+        const phase = this.phaseAt(time)
+
+        return phase === TimelockPhase.PrivateCancellation || phase === TimelockPhase.PublicCancellation
+    }
+}
@@ -0,0 +1,164 @@
+import {expect} from '@jest/globals'
+import Sdk from '@1inch/cross-chain-sdk'
+
+import {assertTimelockOrder, TimelockStages, timelockStages, TimelockTranslator} from './translator'
+
+const RUNS = 500
+
+// fixed by default so a failure can be replayed, PROPERTY_SEED explores other inputs
+const SEED = Number(process.env.PROPERTY_SEED ?? 0x5eed)
+
+/**
+ * Small seeded PRNG (mulberry32), enough to generate inputs for the properties below
+ */
+function random(seed: number): (min: bigint, max: bigint) => bigint {
+    let state = seed >>> 0
+
+    return (min, max) => {
+        state = (state + 0x6d2b79f5) >>> 0
+        let t = state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        const value = BigInt((t ^ (t >>> 14)) >>> 0)
+
+        return min + (value % (max - min + 1n))
+    }
+}
+
+/**
+ * Stages satisfying every ordering invariant
+ */
+function validStages(next: ReturnType<typeof random>): TimelockStages {
+    const srcWithdrawal = next(0n, 3_600n)
+    const srcPublicWithdrawal = srcWithdrawal + next(1n, 3_600n)
+    const srcCancellation = srcPublicWithdrawal + next(1n, 3_600n)
+    const srcPublicCancellation = srcCancellation + next(1n, 3_600n)
+    const dstCancellation = next(2n, srcCancellation)
+    const dstPublicWithdrawal = next(1n, dstCancellation - 1n)
+    const dstWithdrawal = next(0n, dstPublicWithdrawal - 1n)
+
+    return {
+        srcWithdrawal,
+        srcPublicWithdrawal,
+        srcCancellation,
+        srcPublicCancellation,
+        dstWithdrawal,
+        dstPublicWithdrawal,
+        dstCancellation
+    }
+}
+
+function forAll(property: (stages: TimelockStages, next: ReturnType<typeof random>) => void): void {
+    const next = random(SEED)
+
+    for (let run = 0; run < RUNS; run++) {
+        const stages = validStages(next)
+
+        try {
+            property(stages, next)
+        } catch (error) {
+            throw new Error(`run ${run} with seed ${SEED} failed for ${JSON.stringify(stages, toJson)}: ${error}`)
+        }
+    }
+}
+
+function toJson(_: string, value: unknown): unknown {
+    return typeof value === 'bigint' ? value.toString() : value
+}
+
+describe('TimelockTranslator', () => {
+    const src = new TimelockTranslator('src')
+    const dst = new TimelockTranslator('dst')
+
+    it('should give the exclusive withdrawal phase its own duration', () => {
+        const timeLocks = Sdk.TimeLocks.new({
+            srcWithdrawal: 10n,
+            srcPublicWithdrawal: 100n,
+            srcCancellation: 101n,
+            srcPublicCancellation: 102n,
+            dstWithdrawal: 10n,
+            dstPublicWithdrawal: 100n,
+            dstCancellation: 101n
+        })
+
+        expect(src.toAptosDurations(timeLocks)).toEqual({
+            finality: 10n,
+            exclusive: 90n,
+            publicWithdrawal: 1n,
+            privateCancellation: 1n
+        })
+        expect(dst.toAptosDurations(timeLocks)).toEqual(src.toAptosDurations(timeLocks))
+    })
+
+    it('should round trip the source stages through Aptos durations', () => {
+        forAll((stages) => {
+            expect(src.toStages(src.toAptosDurations(stages), stages)).toEqual(stages)
+        })
+    })
+
+    it('should round trip the destination stages through Aptos durations', () => {
+        forAll((stages) => {
+            expect(dst.toStages(dst.toAptosDurations(stages), stages)).toEqual(stages)
+        })
+    })
+
+    it('should only produce durations the router accepts', () => {
+        forAll((stages) => {
+            for (const durations of [src.toAptosDurations(stages), dst.toAptosDurations(stages)]) {
+                expect(durations.finality >= 0n).toBe(true)
+                expect(durations.exclusive > 0n).toBe(true)
+                expect(durations.publicWithdrawal > 0n).toBe(true)
+                expect(durations.privateCancellation > 0n).toBe(true)
+            }
+        })
+    })
+
+    it('should mirror the source stages on the destination side by default', () => {
+        forAll((stages) => {
+            const mirrored = src.toStages(src.toAptosDurations(stages))
+
+            expect(mirrored.dstWithdrawal).toBe(stages.srcWithdrawal)
+            expect(mirrored.dstPublicWithdrawal).toBe(stages.srcPublicWithdrawal)
+            expect(mirrored.dstCancellation).toBe(stages.srcCancellation)
+            expect(() => assertTimelockOrder(mirrored)).not.toThrow()
+        })
+    })
+
+    it('should pack the same stages the SDK does', () => {
+        forAll((stages) => {
+            expect(timelockStages(Sdk.TimeLocks.new(stages))).toEqual(stages)
+        })
+    })
+
+    it('should reject stages out of order', () => {
+        const pairs: [keyof TimelockStages, keyof TimelockStages][] = [
+            ['srcWithdrawal', 'srcPublicWithdrawal'],
+            ['srcPublicWithdrawal', 'srcCancellation'],
+            ['srcCancellation', 'srcPublicCancellation'],
+            ['dstWithdrawal', 'dstPublicWithdrawal'],
+            ['dstPublicWithdrawal', 'dstCancellation']
+        ]
+
+        forAll((stages, next) => {
+            const [earlier, later] = pairs[Number(next(0n, BigInt(pairs.length - 1)))]
+            const broken = {...stages, [earlier]: stages[later] + next(0n, 10n)}
+
+            expect(() => assertTimelockOrder(broken)).toThrow()
+            expect(() => src.toAptosDurations(broken)).toThrow()
+        })
+    })
+
+    it('should reject a destination escrow outliving the source withdrawal', () => {
+        forAll((stages, next) => {
+            const broken = {...stages, dstCancellation: stages.srcCancellation + next(1n, 10n)}
+
+            expect(() => dst.toAptosDurations(broken)).toThrow()
+        })
+    })
+
+    it('should need the source stages to translate an Aptos destination escrow back', () => {
+        forAll((stages) => {
+            expect(() => dst.toStages(dst.toAptosDurations(stages))).toThrow()
+        })
+    })
+})
@@ -0,0 +1,190 @@
+import Sdk from '@1inch/cross-chain-sdk'
+
+/**
+ * Consecutive phase durations of an Aptos escrow in seconds, as the router entry functions take them.
+ *
+ * Only the taker withdraws after `finality`, anyone after `exclusive`, only the taker cancels after
+ * `publicWithdrawal` and anyone after `privateCancellation`.
+ */
+export type AptosDurations = {
+    finality: bigint
+    exclusive: bigint
+    publicWithdrawal: bigint
+    privateCancellation: bigint
+}
+
+/**
+ * Offsets of the EVM escrow stages from deployment in seconds, the arguments of `Sdk.TimeLocks.new`
+ */
+export type TimelockStages = {
+    srcWithdrawal: bigint
+    srcPublicWithdrawal: bigint
+    srcCancellation: bigint
+    srcPublicCancellation: bigint
+    dstWithdrawal: bigint
+    dstPublicWithdrawal: bigint
+    dstCancellation: bigint
+}
+
+const STAGES: (keyof TimelockStages)[] = [
+    'srcWithdrawal',
+    'srcPublicWithdrawal',
+    'srcCancellation',
+    'srcPublicCancellation',
+    'dstWithdrawal',
+    'dstPublicWithdrawal',
+    'dstCancellation'
+]
+
+const STAGE_BITS = 32n
+
+const STAGE_MASK = (1n << STAGE_BITS) - 1n
+
+const DEPLOYED_AT_OFFSET = 224n
+
+/**
+ * Stage offsets packed in the timelocks, in the bit layout of `TimelocksLib`
+ */
+export function timelockStages(timeLocks: Sdk.TimeLocks): TimelockStages {
+    const packed = timeLocks.build()
+
+    return Object.fromEntries(
+        STAGES.map((stage, i) => [stage, (packed >> (BigInt(i) * STAGE_BITS)) & STAGE_MASK])
+    ) as TimelockStages
+}
+
+/**
+ * Deployment timestamp packed in the timelocks, zero until the escrow is deployed
+ */
+export function timelockDeployedAt(timeLocks: Sdk.TimeLocks): bigint {
+    return timeLocks.build() >> DEPLOYED_AT_OFFSET
+}
+
+/**
+ * Throw unless the stages of both sides follow each other and the destination escrow can be cancelled
+ * before the source one, so the taker always has time to withdraw on the source side with a revealed secret
+ */
+export function assertTimelockOrder(stages: TimelockStages): void {
+    const ordered = (names: (keyof TimelockStages)[]): void => {
+        for (let i = 1; i < names.length; i++) {
+            if (stages[names[i]] <= stages[names[i - 1]]) {
+                throw new Error(
+                    `${names[i]} (${stages[names[i]]}) must be after ${names[i - 1]} (${stages[names[i - 1]]})`
+                )
+            }
+        }
+    }
+
+    STAGES.forEach((stage) => {
+        if (stages[stage] < 0n || stages[stage] > STAGE_MASK) {
+            throw new Error(`${stage} ${stages[stage]} does not fit in 32 bits`)
+        }
+    })
+
+    ordered(['srcWithdrawal', 'srcPublicWithdrawal', 'srcCancellation', 'srcPublicCancellation'])
+    ordered(['dstWithdrawal', 'dstPublicWithdrawal', 'dstCancellation'])
+
+    if (stages.dstCancellation > stages.srcCancellation) {
+        throw new Error(
+            `dstCancellation (${stages.dstCancellation}) must not be after srcCancellation (${stages.srcCancellation})`
+        )
+    }
+}
+
+/**
+ * Converts between the EVM timelocks of an order and the durations of its Aptos escrow.
+ *
+ * EVM stages are offsets from deployment while Aptos durations are consecutive. An Aptos source escrow follows
+ * the `src*` stages. An Aptos destination escrow follows the `dst*` stages and is publicly cancellable from
+ * `srcPublicCancellation` on, the EVM destination escrow having no public cancellation.
+ */
+export class TimelockTranslator {
+    /**
+     * @param aptosSide side of the order the Aptos escrow is on
+     */
+    constructor(public readonly aptosSide: 'src' | 'dst') {}
+
+    public toAptosDurations(timeLocks: Sdk.TimeLocks | TimelockStages): AptosDurations {
+        const stages: TimelockStages = timeLocks instanceof Sdk.TimeLocks ? timelockStages(timeLocks) : timeLocks
+
+        assertTimelockOrder(stages)
+
+        if (this.aptosSide === 'src') {
+            return {
+                finality: stages.srcWithdrawal,
+                exclusive: stages.srcPublicWithdrawal - stages.srcWithdrawal,
+                publicWithdrawal: stages.srcCancellation - stages.srcPublicWithdrawal,
+                privateCancellation: stages.srcPublicCancellation - stages.srcCancellation
+            }
+        }
+
+        return {
+            finality: stages.dstWithdrawal,
+            exclusive: stages.dstPublicWithdrawal - stages.dstWithdrawal,
+            publicWithdrawal: stages.dstCancellation - stages.dstPublicWithdrawal,
+            privateCancellation: stages.srcPublicCancellation - stages.dstCancellation
+        }
+    }
+
+    /**
+     * Timelocks of the order the Aptos escrow belongs to.
+     *
+     * The durations only cover one side, `counterpart` gives the other one: the destination stages, mirroring
+     * the source ones by default, for an Aptos source escrow and the source stages, required, for an Aptos
+     * destination escrow.
+     */
+    public toTimeLocks(durations: AptosDurations, counterpart?: Partial<TimelockStages>): Sdk.TimeLocks {
+        return Sdk.TimeLocks.new(this.toStages(durations, counterpart))
+    }
+
+    public toStages(durations: AptosDurations, counterpart: Partial<TimelockStages> = {}): TimelockStages {
+        Object.entries(durations).forEach(([name, duration]) => {
+            if (duration < 0n) {
+                throw new Error(`${name} duration ${duration} is negative`)
+            }
+        })
+
+        const withdrawal = durations.finality
+        const publicWithdrawal = withdrawal + durations.exclusive
+        const cancellation = publicWithdrawal + durations.publicWithdrawal
+        const publicCancellation = cancellation + durations.privateCancellation
+
+        const stages: TimelockStages =
+            this.aptosSide === 'src'
+                ? {
+                      srcWithdrawal: withdrawal,
+                      srcPublicWithdrawal: publicWithdrawal,
+                      srcCancellation: cancellation,
+                      srcPublicCancellation: publicCancellation,
+                      dstWithdrawal: counterpart.dstWithdrawal ?? withdrawal,
+                      dstPublicWithdrawal: counterpart.dstPublicWithdrawal ?? publicWithdrawal,
+                      dstCancellation: counterpart.dstCancellation ?? cancellation
+                  }
+                : {
+                      srcWithdrawal: required(counterpart, 'srcWithdrawal'),
+                      srcPublicWithdrawal: required(counterpart, 'srcPublicWithdrawal'),
+                      srcCancellation: required(counterpart, 'srcCancellation'),
+                      srcPublicCancellation: publicCancellation,
+                      dstWithdrawal: withdrawal,
+                      dstPublicWithdrawal: publicWithdrawal,
+                      dstCancellation: cancellation
+                  }
+
+        assertTimelockOrder(stages)
+
+        return stages
+    }
+}
+
+function required(
+    stages: Partial<TimelockStages>,
+    stage: 'srcWithdrawal' | 'srcPublicWithdrawal' | 'srcCancellation'
+): bigint {
+    const value = stages[stage]
+
+    if (value === undefined) {
+        throw new Error(`${stage} is needed for the timelocks of an Aptos destination escrow`)
+    }
+
+    return value
+}
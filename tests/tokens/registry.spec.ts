@@ -0,0 +1,97 @@
+import {expect} from '@jest/globals'
+
+import {APT, AptosToken, convertAmount, convertDecimals, EvmToken, TokenRegistry} from './registry'
+
+const USDC: EvmToken = {
+    chain: 'evm',
+    chainId: 1,
+    address: '0xA0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+    symbol: 'USDC',
+    decimals: 6
+}
+
+// 8 decimals like the bridged assets on Aptos
+const USDC_APTOS: AptosToken = {chain: 'aptos', metadata: '0xbb', symbol: 'USDC', decimals: 8}
+
+describe('convertDecimals', () => {
+    it('should scale up without rounding', () => {
+        expect(convertDecimals(1_234_567n, 6, 8, 'exact')).toBe(123_456_700n)
+    })
+
+    it('should round down from 8 to 6 decimals towards zero', () => {
+        expect(convertDecimals(123_456_789n, 8, 6, 'down')).toBe(1_234_567n)
+        expect(convertDecimals(99n, 8, 6, 'down')).toBe(0n)
+    })
+
+    it('should round up from 8 to 6 decimals away from zero', () => {
+        expect(convertDecimals(123_456_701n, 8, 6, 'up')).toBe(1_234_568n)
+        expect(convertDecimals(-123_456_701n, 8, 6, 'up')).toBe(-1_234_568n)
+    })
+
+    it('should keep exact amounts and throw when precision would be lost', () => {
+        expect(convertDecimals(123_456_700n, 8, 6, 'exact')).toBe(1_234_567n)
+        expect(() => convertDecimals(123_456_701n, 8, 6, 'exact')).toThrow('without rounding')
+    })
+})
+
+describe('convertAmount', () => {
+    // 1 APT (8 decimals) = 7.5 USDC (6 decimals)
+    const price = {numerator: 15n, denominator: 2n}
+
+    it('should convert between tokens with different decimals at a fractional price', () => {
+        expect(convertAmount(100_000_000n, APT, USDC, price)).toBe(7_500_000n)
+        expect(convertAmount(7_500_000n, USDC, APT, {numerator: 2n, denominator: 15n})).toBe(100_000_000n)
+    })
+
+    it('should round the remainder as requested', () => {
+        // 0.00000001 APT is 0.000000075 USDC, below the smallest USDC unit
+        expect(convertAmount(1n, APT, USDC, price)).toBe(0n)
+        expect(convertAmount(1n, APT, USDC, price, 'up')).toBe(1n)
+        expect(() => convertAmount(1n, APT, USDC, price, 'exact')).toThrow('is not an exact amount of USDC')
+    })
+
+    it('should reject invalid prices', () => {
+        expect(() => convertAmount(1n, APT, USDC, {numerator: 1n, denominator: 0n})).toThrow('invalid price')
+        expect(() => convertAmount(1n, APT, USDC, {numerator: -1n, denominator: 1n})).toThrow('invalid price')
+    })
+})
+
+describe('TokenRegistry', () => {
+    it('should convert pair amounts between 6 and 8 decimals in both directions', () => {
+        const registry = new TokenRegistry()
+        registry.registerPair({symbol: 'USDC', evm: USDC, aptos: USDC_APTOS})
+
+        expect(registry.toAptosAmount(1, USDC.address.toLowerCase(), 1_000_001n)).toBe(100_000_100n)
+        expect(registry.toEvmAmount('0x00bb', 100_000_199n)).toBe(1_000_001n)
+        expect(registry.toEvmAmount(USDC_APTOS.metadata, 100_000_101n, 'up')).toBe(1_000_002n)
+    })
+
+    it('should resolve the metadata of mappings configured without one', async () => {
+        const registry = await TokenRegistry.fromConfig(
+            [
+                {
+                    symbol: 'USDC',
+                    evm: {chainId: 1, address: USDC.address, decimals: 6},
+                    aptos: {symbol: 'USDT', decimals: 6}
+                }
+            ],
+            async () => '0xcc'
+        )
+
+        expect(registry.byEvm(1, USDC.address).aptos.metadata).toBe('0xcc')
+        expect(registry.aptosToken('0xcc').symbol).toBe('USDT')
+    })
+
+    it('should fail for unknown tokens and tokens without counterpart', () => {
+        const registry = new TokenRegistry()
+
+        expect(() => registry.evmToken(1, USDC.address)).toThrow('is not registered')
+        expect(() => registry.byAptos(APT.metadata)).toThrow('has no counterpart')
+    })
+
+    it('should not register a token again with other decimals', () => {
+        const registry = new TokenRegistry()
+
+        expect(() => registry.register({...APT, decimals: 6})).toThrow('already registered with 8 decimals')
+    })
+})
@@ -0,0 +1,236 @@
+import {AccountAddress} from '@aptos-labs/ts-sdk'
+import {TokenMapping} from '../config'
+
+/**
+ * How to round when an amount can not be represented exactly with fewer decimals
+ *
+ * - `down`: towards zero, never gives out more than was received
+ * - `up`: away from zero, never asks for less than is owed
+ * - `exact`: throw instead of losing precision
+ */
+export type Rounding = 'down' | 'up' | 'exact'
+
+export type EvmToken = {
+    chain: 'evm'
+    chainId: number
+    address: string
+    symbol: string
+    decimals: number
+}
+
+export type AptosToken = {
+    chain: 'aptos'
+    /**
+     * Fungible asset metadata object
+     */
+    metadata: string
+    symbol: string
+    decimals: number
+}
+
+export type Token = EvmToken | AptosToken
+
+/**
+ * EVM token and the Aptos fungible asset it is swapped for
+ */
+export type TokenPair = {
+    symbol: string
+    evm: EvmToken
+    aptos: AptosToken
+}
+
+/**
+ * Native APT as a fungible asset
+ */
+export const APT: AptosToken = {
+    chain: 'aptos',
+    metadata: '0xa',
+    symbol: 'APT',
+    decimals: 8
+}
+
+/**
+ * EVM ERC-20 tokens and Aptos fungible assets with their decimals, and the pairs swapped between both chains
+ */
+export class TokenRegistry {
+    private readonly tokens = new Map<string, Token>()
+
+    private readonly pairs = new Map<string, TokenPair>()
+
+    constructor(tokens: Token[] = [APT]) {
+        tokens.forEach((token) => this.register(token))
+    }
+
+    /**
+     * Registry of the configured mappings, `resolveMetadata` provides the metadata object of Aptos assets
+     * configured without one
+     */
+    public static async fromConfig(
+        mappings: TokenMapping[],
+        resolveMetadata: (symbol: string) => Promise<string>
+    ): Promise<TokenRegistry> {
+        const registry = new TokenRegistry()
+
+        for (const mapping of mappings) {
+            const metadata = mapping.aptos.metadata ?? (await resolveMetadata(mapping.aptos.symbol))
+
+            if (!metadata) {
+                throw new Error(`metadata of Aptos asset ${mapping.aptos.symbol} is unknown`)
+            }
+
+            registry.registerPair({
+                symbol: mapping.symbol,
+                evm: {chain: 'evm', ...mapping.evm, symbol: mapping.symbol},
+                aptos: {chain: 'aptos', metadata, symbol: mapping.aptos.symbol, decimals: mapping.aptos.decimals}
+            })
+        }
+
+        return registry
+    }
+
+    public register(token: Token): void {
+        const key = keyOf(token)
+        const known = this.tokens.get(key)
+
+        if (known && known.decimals !== token.decimals) {
+            throw new Error(`token ${key} is already registered with ${known.decimals} decimals`)
+        }
+
+        this.tokens.set(key, token)
+    }
+
+    public registerPair(pair: TokenPair): void {
+        this.register(pair.evm)
+        this.register(pair.aptos)
+        this.pairs.set(keyOf(pair.evm), pair)
+        this.pairs.set(keyOf(pair.aptos), pair)
+    }
+
+    public evmToken(chainId: number, address: string): EvmToken {
+        return this.get(keyOf({chain: 'evm', chainId, address})) as EvmToken
+    }
+
+    public aptosToken(metadata: string): AptosToken {
+        return this.get(keyOf({chain: 'aptos', metadata})) as AptosToken
+    }
+
+    public bySymbol(symbol: string): Token[] {
+        return [...this.tokens.values()].filter((t) => t.symbol.toLowerCase() === symbol.toLowerCase())
+    }
+
+    /**
+     * Pair of the EVM token
+     */
+    public byEvm(chainId: number, address: string): TokenPair {
+        return this.getPair(keyOf({chain: 'evm', chainId, address}))
+    }
+
+    /**
+     * Pair of the Aptos fungible asset
+     */
+    public byAptos(metadata: string): TokenPair {
+        return this.getPair(keyOf({chain: 'aptos', metadata}))
+    }
+
+    /**
+     * Amount of the paired Aptos asset worth `amount` of the EVM token, the pair is assumed to be 1:1
+     */
+    public toAptosAmount(chainId: number, address: string, amount: bigint, rounding: Rounding = 'down'): bigint {
+        const pair = this.byEvm(chainId, address)
+
+        return convertDecimals(amount, pair.evm.decimals, pair.aptos.decimals, rounding)
+    }
+
+    /**
+     * Amount of the paired EVM token worth `amount` of the Aptos asset, the pair is assumed to be 1:1
+     */
+    public toEvmAmount(metadata: string, amount: bigint, rounding: Rounding = 'down'): bigint {
+        const pair = this.byAptos(metadata)
+
+        return convertDecimals(amount, pair.aptos.decimals, pair.evm.decimals, rounding)
+    }
+
+    private get(key: string): Token {
+        const token = this.tokens.get(key)
+
+        if (!token) {
+            throw new Error(`token ${key} is not registered`)
+        }
+
+        return token
+    }
+
+    private getPair(key: string): TokenPair {
+        const pair = this.pairs.get(key)
+
+        if (!pair) {
+            throw new Error(`token ${key} has no counterpart on the other chain`)
+        }
+
+        return pair
+    }
+}
+
+/**
+ * Express `amount` with `toDecimals` instead of `fromDecimals`
+ */
+export function convertDecimals(amount: bigint, fromDecimals: number, toDecimals: number, rounding: Rounding): bigint {
+    if (toDecimals >= fromDecimals) {
+        return amount * 10n ** BigInt(toDecimals - fromDecimals)
+    }
+
+    const divisor = 10n ** BigInt(fromDecimals - toDecimals)
+    const quotient = amount / divisor
+    const remainder = amount % divisor
+
+    if (remainder === 0n) {
+        return quotient
+    }
+
+    switch (rounding) {
+        case 'down':
+            return quotient
+        case 'up':
+            return amount > 0n ? quotient + 1n : quotient - 1n
+        case 'exact':
+            throw new Error(`${amount} can not be expressed with ${toDecimals} decimals without rounding`)
+    }
+}
+
+/**
+ * Convert `amount` of `from` into `to` at `price`, the amount of `to` paid for one whole unit of `from`,
+ * given as a fraction to stay in integers
+ */
+export function convertAmount(
+    amount: bigint,
+    from: Token,
+    to: Token,
+    price: {numerator: bigint; denominator: bigint},
+    rounding: Rounding = 'down'
+): bigint {
+    if (price.denominator <= 0n || price.numerator < 0n) {
+        throw new Error(`invalid price ${price.numerator}/${price.denominator}`)
+    }
+
+    const numerator = amount * price.numerator * 10n ** BigInt(to.decimals)
+    const denominator = price.denominator * 10n ** BigInt(from.decimals)
+    const quotient = numerator / denominator
+
+    if (numerator % denominator === 0n || rounding === 'down') {
+        return quotient
+    }
+
+    if (rounding === 'exact') {
+        throw new Error(`${amount} ${from.symbol} is not an exact amount of ${to.symbol}`)
+    }
+
+    return quotient + 1n
+}
+
+function keyOf(
+    token: Pick<EvmToken, 'chain' | 'chainId' | 'address'> | Pick<AptosToken, 'chain' | 'metadata'>
+): string {
+    return token.chain === 'evm'
+        ? `evm:${token.chainId}:${token.address.toLowerCase()}`
+        : `aptos:${AccountAddress.from(token.metadata, {maxMissingChars: 63}).toStringLong()}`
+}